@@ -4,10 +4,73 @@ import { Card, CardContent, CardHeader, CardTitle } from '@/components/ui/card';
 import { Button } from '@/components/ui/button';
 import { Table, TableBody, TableCell, TableHead, TableHeader, TableRow } from '@/components/ui/table';
 import { Progress } from '@/components/ui/progress';
-import { Calculator, CheckCircle, AlertTriangle } from 'lucide-react';
+import { Label } from '@/components/ui/label';
+import { Input } from '@/components/ui/input';
+import { Badge } from '@/components/ui/badge';
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from '@/components/ui/select';
+import { Calculator, CheckCircle, AlertTriangle, FileSpreadsheet } from 'lucide-react';
 import { toast } from '@/hooks/use-toast';
 import { supabase } from '@/integrations/supabase/client';
+import { getLeafCriteria } from '@/lib/criteriaTree';
 import { Alert, AlertDescription, AlertTitle } from '@/components/ui/alert';
+import {
+  calculateScoreStats,
+  isCostCriterion,
+  getNormalization,
+  normalizationLabels,
+  scoreStudent,
+  rankingMethodLabels,
+  rankWithinGroups,
+  getScopeGroup,
+  getScopeGroups,
+  getScopeRank,
+  filterByScope,
+  defaultTiePolicy,
+  describeTieBreaks,
+  formatTieBreak,
+  isScoreTie,
+  tieBreakValue,
+  tieModeLabels,
+  RankingScope,
+  TieMode,
+  TiePolicy
+} from '@/lib/scoring';
+import {
+  buildComparisonMatrix,
+  pairKey,
+  calculatePriorities,
+  ratioMatrix,
+  CONSISTENCY_THRESHOLD,
+  MAX_MANUAL_ALTERNATIVES
+} from '@/lib/ahp';
+import {
+  CalculationSession,
+  ComparisonNodeSnapshot,
+  buildWeightsSnapshot,
+  fetchActiveSession,
+  getAlternativePriorities,
+  getCriteriaSnapshot,
+  getScoresSnapshot,
+  getTiePolicy,
+  getWeightsSnapshot,
+  toSnapshotJson
+} from '@/lib/sessions';
+import { scoreByEngine } from '@/lib/mcdm';
+import {
+  applyMissingScorePolicy,
+  buildCompletenessReport,
+  getBlockingIssues,
+  missingScorePolicyLabels,
+  MissingScorePolicy
+} from '@/lib/missingScores';
+import { exportCalculationWorkbook } from '@/lib/reports';
+import { Role, can } from '@/lib/permissions';
+import AlternativeComparison from './AlternativeComparison';
+import CalculationHistory from './CalculationHistory';
+import MethodComparison from './MethodComparison';
+import RankingScopeSelector from './RankingScopeSelector';
+import ScoreCompletenessReport from './ScoreCompletenessReport';
+import SensitivityAnalysis from './SensitivityAnalysis';
 
 interface Student {
   id: string;
@@ -20,12 +83,18 @@ interface Criteria {
   id: string;
   name: string;
   weight: number;
+  type?: string | null;
+  normalization?: string | null;
+  rubric?: unknown;
+  min_score?: number;
+  max_score?: number;
 }
 
 interface Score {
   student_id: string;
   criteria_id: string;
   score: number;
+  imputed?: boolean;
 }
 
 interface AhpResult {
@@ -34,10 +103,38 @@ interface AhpResult {
   student: Student;
   final_score: number;
   rank: number;
+  class_rank: number | null;
+  grade_rank: number | null;
+  tie_break: string | null;
   criteriaScores: {[criteriaId: string]: number};
 }
 
-const AHPCalculation = () => {
+interface LocalPriorities {
+  [criteriaId: string]: {
+    priorities: {[studentId: string]: number};
+    cr: number;
+  };
+}
+
+type RankingMethod = 'saw' | 'topsis' | 'wp' | 'ahp';
+
+const rankingMethods: RankingMethod[] = ['saw', 'topsis', 'wp', 'ahp'];
+type ComparisonSource = 'ratio' | 'manual';
+
+// Nilai Select untuk slot kriteria prioritas yang tidak dipakai
+const NO_TIE_CRITERION = 'none';
+
+// Medali untuk peringkat 1-3
+const medals = ['🥇', '🥈', '🥉'];
+
+interface AHPCalculationProps {
+  periodId: string;
+  role: Role;
+}
+
+const AHPCalculation = ({ periodId, role }: AHPCalculationProps) => {
+  const canRun = can(role, 'calculation.run');
+
   const [calculationStep, setCalculationStep] = useState(0);
   const [results, setResults] = useState<AhpResult[] | null>(null);
   const [students, setStudents] = useState<Student[]>([]);
@@ -45,15 +142,77 @@ const AHPCalculation = () => {
   const [scores, setScores] = useState<Score[]>([]);
   const [loading, setLoading] = useState(false);
   const [error, setError] = useState<string | null>(null);
+  const [method, setMethod] = useState<RankingMethod>('saw');
+  const [comparisonSource, setComparisonSource] = useState<ComparisonSource>('ratio');
+  const [localPriorities, setLocalPriorities] = useState<LocalPriorities | null>(null);
+  const [sessionName, setSessionName] = useState('');
+  const [activeSession, setActiveSession] = useState<CalculationSession | null>(null);
+  const [historyKey, setHistoryKey] = useState(0);
+  const [scope, setScope] = useState<RankingScope>('global');
+  const [scopeGroup, setScopeGroup] = useState('');
+  const [exporting, setExporting] = useState(false);
+  const [tiePolicy, setTiePolicy] = useState<TiePolicy>(defaultTiePolicy);
+  const [tieCriteriaOptions, setTieCriteriaOptions] = useState<{ id: string; name: string }[]>([]);
+  const [missingPolicy, setMissingPolicy] = useState<MissingScorePolicy>('exclude');
+  const [completenessData, setCompletenessData] = useState<{ students: Student[]; scores: Score[] } | null>(null);
 
   useEffect(() => {
     checkExistingResults();
+    fetchCompleteness();
   }, []);
 
+  // Data untuk laporan kelengkapan nilai dan pilihan tie-break sebelum perhitungan dijalankan
+  const fetchCompleteness = async () => {
+    try {
+      const [criteriaResult, studentsResult, scoresResult] = await Promise.all([
+        supabase.from('criteria').select('id, name, parent_id').order('name'),
+        supabase.from('students').select('id, name, class, nis').eq('period_id', periodId).order('name'),
+        supabase
+          .from('student_scores')
+          .select('student_id, criteria_id, score, students!inner(period_id)')
+          .eq('students.period_id', periodId)
+      ]);
+
+      if (criteriaResult.error) throw criteriaResult.error;
+      if (studentsResult.error) throw studentsResult.error;
+      if (scoresResult.error) throw scoresResult.error;
+
+      // Hanya kriteria daun yang memiliki nilai
+      setTieCriteriaOptions(getLeafCriteria(criteriaResult.data || []));
+      setCompletenessData({
+        students: studentsResult.data || [],
+        scores: (scoresResult.data || []).map(({ student_id, criteria_id, score }) => ({ student_id, criteria_id, score }))
+      });
+    } catch (error) {
+      console.error('Error fetching score completeness:', error);
+    }
+  };
+
+  const updateTieCriterion = (slot: number, value: string) => {
+    const selected = [...tiePolicy.criteria];
+    selected[slot] = value;
+    setTiePolicy({
+      ...tiePolicy,
+      criteria: selected.slice(0, 2).filter((id, index) => id && id !== NO_TIE_CRITERION && selected.indexOf(id) === index)
+    });
+  };
+
   const checkExistingResults = async () => {
     try {
-      console.log('Checking for existing AHP results...');
-      
+      console.log('Checking for existing calculation sessions...');
+
+      const session = await fetchActiveSession(periodId);
+      if (session) {
+        await openSession(session);
+      }
+    } catch (error) {
+      console.error('Error checking existing results:', error);
+    }
+  };
+
+  // Tampilkan kembali hasil sebuah sesi beserta snapshot kriteria dan nilainya
+  const openSession = async (session: CalculationSession) => {
+    try {
       const { data, error } = await supabase
         .from('ahp_results')
         .select(`
@@ -61,6 +220,9 @@ const AHPCalculation = () => {
           student_id,
           final_score,
           rank,
+          class_rank,
+          grade_rank,
+          tie_break,
           students (
             id,
             name,
@@ -68,53 +230,82 @@ const AHPCalculation = () => {
             nis
           )
         `)
+        .eq('session_id', session.id)
         .order('rank');
 
-      if (error) {
-        console.log('No existing results found or error:', error);
-        return;
+      if (error) throw error;
+
+      console.log('Opening session:', session.name, data);
+
+      let sessionCriteria: Criteria[] = getCriteriaSnapshot(session);
+      let sessionScores: Score[] = getScoresSnapshot(session);
+
+      // Sesi warisan tanpa snapshot memakai data kriteria dan nilai saat ini
+      if (sessionCriteria.length === 0) {
+        const { data: criteriaData, error: criteriaError } = await supabase
+          .from('criteria')
+          .select('id, name, weight, type, normalization, rubric, min_score, max_score, parent_id');
+
+        if (criteriaError) throw criteriaError;
+        sessionCriteria = getLeafCriteria(criteriaData || []);
       }
 
-      if (data && data.length > 0) {
-        console.log('Found existing results:', data);
-        
-        const formattedResults: AhpResult[] = [];
-        
-        for (const result of data) {
-          const student = result.students as Student;
-          
-          if (!student) {
-            console.error('Student data is missing for result:', result);
-            continue;
-          }
-          
-          const { data: studentScores } = await supabase
-            .from('student_scores')
-            .select('criteria_id, score')
-            .eq('student_id', student.id);
-          
-          const criteriaScores: {[criteriaId: string]: number} = {};
-          if (studentScores) {
-            studentScores.forEach(score => {
-              criteriaScores[score.criteria_id] = score.score;
-            });
-          }
-          
-          formattedResults.push({
-            id: result.id,
-            student_id: result.student_id,
-            student,
-            final_score: result.final_score,
-            rank: result.rank,
-            criteriaScores
-          });
+      // Nilai saat ini dibatasi pada periode sesi agar tidak tercampur nilai periode lain
+      if (sessionScores.length === 0) {
+        const { data: scoresData, error: scoresError } = await supabase
+          .from('student_scores')
+          .select('student_id, criteria_id, score, students!inner(period_id)')
+          .eq('students.period_id', session.period_id);
+
+        if (scoresError) throw scoresError;
+        sessionScores = (scoresData || []).map(({ student_id, criteria_id, score }) => ({ student_id, criteria_id, score }));
+      }
+
+      const formattedResults: AhpResult[] = [];
+
+      for (const result of data || []) {
+        const student = result.students as Student;
+
+        if (!student) {
+          console.error('Student data is missing for result:', result);
+          continue;
         }
-        
-        setResults(formattedResults);
-        setCalculationStep(3);
+
+        const criteriaScores: {[criteriaId: string]: number} = {};
+        sessionScores
+          .filter(score => score.student_id === student.id)
+          .forEach(score => {
+            criteriaScores[score.criteria_id] = score.score;
+          });
+
+        formattedResults.push({
+          id: result.id,
+          student_id: result.student_id,
+          student,
+          final_score: result.final_score,
+          rank: result.rank,
+          class_rank: result.class_rank,
+          grade_rank: result.grade_rank,
+          tie_break: result.tie_break,
+          criteriaScores
+        });
       }
+
+      setActiveSession(session);
+      setMethod(rankingMethods.includes(session.method as RankingMethod) ? session.method as RankingMethod : 'saw');
+      setCriteria(sessionCriteria);
+      setScores(sessionScores);
+      setLocalPriorities(getAlternativePriorities(session));
+      setError(null);
+      setResults(formattedResults);
+      setCalculationStep(3);
     } catch (error) {
-      console.error('Error checking existing results:', error);
+      console.error('Error opening calculation session:', error);
+      toast({
+        title: "Error",
+        description: "Gagal membuka riwayat perhitungan",
+        variant: "destructive",
+      });
     }
   };
 
@@ -128,7 +319,7 @@ const AHPCalculation = () => {
       // Load criteria with weights
       const { data: criteriaData, error: criteriaError } = await supabase
         .from('criteria')
-        .select('id, name, weight');
+        .select('id, name, weight, type, normalization, rubric, min_score, max_score, parent_id, local_weight, weight_method');
 
       if (criteriaError) {
         console.error('Error loading criteria:', criteriaError);
@@ -137,8 +328,11 @@ const AHPCalculation = () => {
 
       console.log('Criteria data loaded:', criteriaData);
 
+      // Nilai siswa hanya ada pada kriteria daun; bobot globalnya sudah memuat bobot induk
+      const leafCriteria = getLeafCriteria(criteriaData || []);
+
       // Check if criteria have weights
-      const criteriaWithWeights = criteriaData?.filter(c => c.weight !== null && c.weight !== undefined && c.weight > 0);
+      const criteriaWithWeights = leafCriteria.filter(c => c.weight !== null && c.weight !== undefined && c.weight > 0);
       if (!criteriaWithWeights || criteriaWithWeights.length === 0) {
         setError("Bobot kriteria belum dihitung. Silahkan hitung bobot di halaman Kriteria terlebih dahulu.");
         toast({
@@ -155,7 +349,8 @@ const AHPCalculation = () => {
       // Load students
       const { data: studentsData, error: studentsError } = await supabase
         .from('students')
-        .select('id, name, class, nis');
+        .select('id, name, class, nis')
+        .eq('period_id', periodId);
 
       if (studentsError) {
         console.error('Error loading students:', studentsError);
@@ -178,39 +373,64 @@ const AHPCalculation = () => {
       console.log('Loading scores data...');
       
       // Load scores
-      const { data: scoresData, error: scoresError } = await supabase
+      const { data: scoresRows, error: scoresError } = await supabase
         .from('student_scores')
-        .select('student_id, criteria_id, score');
+        .select('student_id, criteria_id, score, students!inner(period_id)')
+        .eq('students.period_id', periodId);
 
       if (scoresError) {
         console.error('Error loading scores:', scoresError);
         throw scoresError;
       }
+
+      const scoresData = (scoresRows || []).map(({ student_id, criteria_id, score }) => ({ student_id, criteria_id, score }));
       
       console.log('Scores data loaded:', scoresData);
 
-      // Check if we have enough scores to proceed
-      const totalRequiredScores = studentsData.length * criteriaData.length;
-      const availableScores = scoresData?.length || 0;
+      // Nilai kosong ditangani sesuai kebijakan; kondisi yang tidak dapat ditangani membatalkan perhitungan
+      const report = buildCompletenessReport(studentsData, leafCriteria, scoresData);
+      const blockingIssues = getBlockingIssues(report, missingPolicy, studentsData, leafCriteria);
       
-      console.log(`Required scores: ${totalRequiredScores}, Available: ${availableScores}`);
+      console.log(`Required scores: ${report.total}, Available: ${report.filled}`);
       
-      if (availableScores < totalRequiredScores * 0.5) {
-        setError(`Diperlukan lebih banyak data nilai siswa. Tersedia: ${availableScores}/${totalRequiredScores} nilai.`);
+      if (blockingIssues.length > 0) {
+        setError(blockingIssues.join('. '));
         toast({
           title: "Peringatan",
-          description: "Data nilai siswa masih kurang lengkap.",
+          description: "Data nilai siswa belum dapat dihitung.",
           variant: "destructive",
         });
         setLoading(false);
         return { success: false };
       }
 
+      const prepared = applyMissingScorePolicy(missingPolicy, studentsData, leafCriteria, scoresData);
+      console.log('Missing score policy:', missingPolicy, { excluded: prepared.excluded, imputed: prepared.imputed });
+
+      // Matriks dan bobot setiap node kriteria disimpan bersama sesi
+      const { data: comparisonData, error: comparisonError } = await supabase
+        .from('criteria_comparison')
+        .select('criteria1_id, criteria2_id, intensity, reciprocal');
+
+      if (comparisonError) {
+        console.error('Error loading criteria comparisons:', comparisonError);
+        throw comparisonError;
+      }
+
+      // Pada hierarki kriteria, CR sesi adalah CR terburuk dari seluruh matriks node
+      const judgments = (comparisonData || []).map(c => ({ from: c.criteria1_id, to: c.criteria2_id, intensity: c.intensity, reciprocal: c.reciprocal }));
+      const weightNodes = buildWeightsSnapshot(criteriaData, judgments);
+      const criteriaCr = Math.max(0, ...weightNodes.map(node => node.cr));
+
       return {
         success: true,
-        criteria: criteriaData || [],
-        students: studentsData || [],
-        scores: scoresData || []
+        criteria: leafCriteria,
+        students: prepared.students,
+        scores: prepared.scores,
+        excludedCount: prepared.excluded.length,
+        imputedCount: prepared.imputed.length,
+        criteriaCr,
+        weightNodes
       };
     } catch (error: any) {
       console.error('Error loading data:', error);
@@ -226,6 +446,72 @@ const AHPCalculation = () => {
     }
   };
 
+  // Prioritas lokal setiap siswa per kriteria dari matriks perbandingan alternatif
+  const calculateLocalPriorities = async (
+    loadedCriteria: Criteria[],
+    loadedStudents: Student[],
+    loadedScores: Score[]
+  ) => {
+    const studentIds = loadedStudents.map(s => s.id);
+    let judgments: { criteria_id: string; student1_id: string; student2_id: string; intensity: number; reciprocal: boolean }[] = [];
+
+    if (comparisonSource === 'manual') {
+      if (loadedStudents.length > MAX_MANUAL_ALTERNATIVES) {
+        throw new Error(`Perbandingan manual hanya untuk maksimal ${MAX_MANUAL_ALTERNATIVES} siswa`);
+      }
+
+      // Hanya perbandingan antar siswa periode ini
+      const { data, error } = await supabase
+        .from('alternative_comparison')
+        .select('criteria_id, student1_id, student2_id, intensity, reciprocal')
+        .in('student1_id', studentIds)
+        .in('student2_id', studentIds);
+
+      if (error) throw error;
+      judgments = data || [];
+
+      // Pasangan yang belum dinilai akan bernilai 1 (sama penting); perhitungan ditolak bila ada
+      const totalPairs = (studentIds.length * (studentIds.length - 1)) / 2;
+      const incomplete = loadedCriteria.filter(criterion =>
+        new Set(
+          judgments
+            .filter(j => j.criteria_id === criterion.id && j.student1_id !== j.student2_id)
+            .map(j => pairKey(j.student1_id, j.student2_id))
+        ).size < totalPairs
+      );
+      if (incomplete.length > 0) {
+        throw new Error(`Perbandingan manual belum lengkap untuk kriteria: ${incomplete.map(c => c.name).join(', ')}`);
+      }
+    }
+
+    const priorities: LocalPriorities = {};
+    loadedCriteria.forEach(criterion => {
+      const matrix = comparisonSource === 'manual'
+        ? buildComparisonMatrix(
+            studentIds,
+            judgments
+              .filter(j => j.criteria_id === criterion.id)
+              .map(j => ({ from: j.student1_id, to: j.student2_id, intensity: j.intensity, reciprocal: j.reciprocal }))
+          )
+        : ratioMatrix(loadedStudents.map(student => {
+            // Nilai kosong sudah ditangani kebijakan nilai kosong; sisa nilai kosong tidak dianggap 0
+            const score = loadedScores.find(s => s.student_id === student.id && s.criteria_id === criterion.id);
+            if (!score) throw new Error(`Nilai ${criterion.name} untuk ${student.name} belum diisi`);
+            return score.score;
+          }), { min: criterion.min_score ?? 0, max: criterion.max_score ?? 100 }, isCostCriterion(criterion));
+
+      const { weights: vector, cr } = calculatePriorities(matrix);
+
+      priorities[criterion.id] = {
+        priorities: Object.fromEntries(studentIds.map((id, index) => [id, vector[index]])),
+        cr
+      };
+      console.log(`Criteria ${criterion.name}: local priorities`, vector, 'CR:', cr);
+    });
+
+    return priorities;
+  };
+
   const calculateAHP = async () => {
     console.log('Starting AHP calculation...');
     
@@ -235,7 +521,15 @@ const AHPCalculation = () => {
       return;
     }
     
-    const { criteria: loadedCriteria, students: loadedStudents, scores: loadedScores } = loadResult;
+    const {
+      criteria: loadedCriteria,
+      students: loadedStudents,
+      scores: loadedScores,
+      excludedCount,
+      imputedCount,
+      criteriaCr,
+      weightNodes
+    } = loadResult;
     
     console.log('Data loaded successfully:', {
       criteria: loadedCriteria.length,
@@ -251,37 +545,38 @@ const AHPCalculation = () => {
       
       console.log('Starting AHP calculation with loaded data');
 
-      // Get max scores for normalization
-      const maxScores: {[key: string]: number} = {};
-      loadedCriteria.forEach(criterion => {
-        const criteriaScores = loadedScores.filter(s => s.criteria_id === criterion.id);
-        const maxScore = criteriaScores.length > 0 ? Math.max(...criteriaScores.map(s => s.score)) : 100;
-        maxScores[criterion.id] = Math.max(maxScore, 1);
-      });
+      // Rentang nilai per kriteria untuk normalisasi benefit/cost
+      const scoreStats = calculateScoreStats(loadedCriteria, loadedScores);
       
-      console.log('Max scores per criteria:', maxScores);
+      console.log('Score stats per criteria:', scoreStats);
+
+      const alternativePriorities = method === 'ahp'
+        ? await calculateLocalPriorities(loadedCriteria, loadedStudents, loadedScores)
+        : null;
+      const engineScores = method === 'topsis' || method === 'wp'
+        ? scoreByEngine(method, loadedStudents.map(s => s.id), loadedCriteria, loadedScores)
+        : null;
 
       // Calculate AHP scores for each student
       const ahpResults = loadedStudents.map(student => {
         const studentScores: {[key: string]: number} = {};
-        let ahpScore = 0;
+        const { breakdown, total } = scoreStudent(student.id, loadedCriteria, loadedScores, scoreStats);
+
+        // Mode AHP: sintesis prioritas global = Σ bobot kriteria × prioritas lokal
+        const ahpScore = alternativePriorities
+          ? loadedCriteria.reduce(
+              (sum, criterion) => sum + (criterion.weight || 0) * alternativePriorities[criterion.id].priorities[student.id],
+              0
+            )
+          : engineScores
+            ? engineScores[student.id]
+            : total;
         
         loadedCriteria.forEach(criterion => {
-          const score = loadedScores.find(s => 
-            s.student_id === student.id && s.criteria_id === criterion.id
-          );
-          
-          const rawScore = score ? score.score : 0;
-          studentScores[criterion.id] = rawScore;
-          
-          // Normalize score (0-1)
-          const normalizedScore = rawScore / maxScores[criterion.id];
+          const { raw, normalized, weighted } = breakdown[criterion.id];
+          studentScores[criterion.id] = raw;
           
-          // Apply weight
-          const weightedScore = normalizedScore * (criterion.weight || 0);
-          ahpScore += weightedScore;
-          
-          console.log(`Student ${student.name}, Criteria ${criterion.name}: Raw=${rawScore}, Normalized=${normalizedScore.toFixed(3)}, Weighted=${weightedScore.toFixed(3)}`);
+          console.log(`Student ${student.name}, Criteria ${criterion.name}: Raw=${raw}, Normalized=${normalized.toFixed(3)}, Weighted=${weighted.toFixed(3)}`);
         });
         
         console.log(`Student ${student.name} final AHP score: ${ahpScore.toFixed(3)}`);
@@ -290,16 +585,41 @@ const AHPCalculation = () => {
           student,
           studentScores,
           ahpScore,
-          rank: 0
+          rank: 0,
+          classRank: 0,
+          gradeRank: 0,
+          tieBreak: null as string | null
         };
       });
       
-      // Sort by AHP score (descending)
-      ahpResults.sort((a, b) => b.ahpScore - a.ahpScore);
+      // Skor seri dipisahkan oleh kriteria prioritas (bila dipilih); seri yang tersisa berbagi peringkat
+      const tieBreakers = (tiePolicy.mode === 'criteria' ? tiePolicy.criteria : [])
+        .map(id => loadedCriteria.find(c => c.id === id))
+        .filter(criterion => criterion !== undefined)
+        .map(criterion => ({
+          id: criterion.id,
+          value: (result: typeof ahpResults[number]) => tieBreakValue(criterion, result.studentScores[criterion.id])
+        }));
+      const isTied = (a: typeof ahpResults[number], b: typeof ahpResults[number]) =>
+        isScoreTie(a.ahpScore, b.ahpScore) && tieBreakers.every(breaker => breaker.value(a) === breaker.value(b));
+
+      // Sort by AHP score (descending), then by the tie-break criteria
+      ahpResults.sort((a, b) => {
+        if (!isScoreTie(a.ahpScore, b.ahpScore)) return b.ahpScore - a.ahpScore;
+        const breaker = tieBreakers.find(t => t.value(a) !== t.value(b));
+        return breaker ? breaker.value(b) - breaker.value(a) : a.student.name.localeCompare(b.student.name);
+      });
       
-      // Assign ranks
+      // Assign ranks (school-wide, per class and per grade)
+      const ranks = rankWithinGroups(ahpResults, () => 'all', isTied);
+      const classRanks = rankWithinGroups(ahpResults, r => getScopeGroup(r.student.class, 'class'), isTied);
+      const gradeRanks = rankWithinGroups(ahpResults, r => getScopeGroup(r.student.class, 'grade'), isTied);
+      const tieBreaks = describeTieBreaks(ahpResults, r => r.ahpScore, tieBreakers);
       ahpResults.forEach((result, index) => {
-        result.rank = index + 1;
+        result.rank = ranks[index];
+        result.classRank = classRanks[index];
+        result.gradeRank = gradeRanks[index];
+        result.tieBreak = tieBreaks[index];
       });
       
       console.log('Final AHP Results:', ahpResults);
@@ -308,7 +628,7 @@ const AHPCalculation = () => {
       setCalculationStep(3);
       
       // Save results to database
-      await saveResults(ahpResults);
+      const session = await saveResults(ahpResults, loadedCriteria, loadedScores, criteriaCr, weightNodes, alternativePriorities);
       
       // Format results for display
       const formattedResults = ahpResults.map(result => ({
@@ -317,6 +637,9 @@ const AHPCalculation = () => {
         student: result.student,
         final_score: result.ahpScore,
         rank: result.rank,
+        class_rank: result.classRank,
+        grade_rank: result.gradeRank,
+        tie_break: result.tieBreak,
         criteriaScores: result.studentScores
       }));
       
@@ -324,12 +647,29 @@ const AHPCalculation = () => {
       setCriteria(loadedCriteria);
       setStudents(loadedStudents);
       setScores(loadedScores);
+      setLocalPriorities(alternativePriorities);
+      setActiveSession(session);
       setResults(formattedResults);
+      setSessionName('');
+      setHistoryKey(key => key + 1);
       
       toast({
         title: "Perhitungan Selesai",
-        description: `Hasil perhitungan AHP telah berhasil digenerate untuk ${ahpResults.length} siswa`,
+        description: `Hasil perhitungan AHP telah berhasil digenerate untuk ${ahpResults.length} siswa` +
+          (excludedCount > 0 ? `, ${excludedCount} siswa dikeluarkan karena nilai belum lengkap` : '') +
+          (imputedCount > 0 ? `, ${imputedCount} nilai kosong diisi` : ''),
       });
+
+      const inconsistent = alternativePriorities
+        ? loadedCriteria.filter(c => alternativePriorities[c.id].cr > CONSISTENCY_THRESHOLD)
+        : [];
+      if (inconsistent.length > 0) {
+        toast({
+          title: "Peringatan",
+          description: `Perbandingan alternatif tidak konsisten pada: ${inconsistent.map(c => c.name).join(', ')}`,
+          variant: "destructive",
+        });
+      }
       
     } catch (error: any) {
       console.error('Error calculating AHP:', error);
@@ -343,25 +683,63 @@ const AHPCalculation = () => {
     }
   };
 
-  const saveResults = async (ahpResults: any[]) => {
+  const saveResults = async (
+    ahpResults: any[],
+    loadedCriteria: Criteria[],
+    loadedScores: Score[],
+    criteriaCr: number,
+    weightNodes: ComparisonNodeSnapshot[],
+    alternativePriorities: LocalPriorities | null
+  ) => {
     try {
       console.log('Saving AHP results to database...');
-      
-      // Delete existing results
-      const { error: deleteError } = await supabase
-        .from('ahp_results')
-        .delete()
-        .neq('id', '00000000-0000-0000-0000-000000000000');
-      
-      if (deleteError) {
-        console.log('Delete error (might be expected if no existing results):', deleteError);
+
+      const { data: { user } } = await supabase.auth.getUser();
+
+      // Simpan sebagai sesi baru; hasil sesi sebelumnya tetap utuh
+      const { data: session, error: sessionError } = await supabase
+        .from('calculation_sessions')
+        .insert({
+          period_id: periodId,
+          name: sessionName.trim() || `Perhitungan ${new Date().toLocaleString('id-ID')}`,
+          created_by: user?.id || null,
+          created_by_name: user?.email || null,
+          method,
+          consistency_ratio: criteriaCr,
+          criteria_snapshot: toSnapshotJson(loadedCriteria.map(c => ({
+            id: c.id,
+            name: c.name,
+            weight: c.weight,
+            type: c.type,
+            normalization: c.normalization,
+            rubric: c.rubric,
+            min_score: c.min_score,
+            max_score: c.max_score
+          }))),
+          scores_snapshot: toSnapshotJson(loadedScores),
+          tie_policy: toSnapshotJson(tiePolicy),
+          missing_score_policy: missingPolicy,
+          weights_snapshot: toSnapshotJson(weightNodes),
+          alternative_priorities: alternativePriorities ? toSnapshotJson(alternativePriorities) : null
+        })
+        .select()
+        .single();
+
+      if (sessionError) {
+        console.error('Session insert error:', sessionError);
+        throw sessionError;
       }
       
       // Insert new results
       const resultsToInsert = ahpResults.map(result => ({
+        session_id: session.id,
         student_id: result.student.id,
         final_score: result.ahpScore,
-        rank: result.rank
+        rank: result.rank,
+        class_rank: result.classRank,
+        grade_rank: result.gradeRank,
+        tie_break: result.tieBreak,
+        method
       }));
       
       console.log('Inserting results:', resultsToInsert);
@@ -376,6 +754,7 @@ const AHPCalculation = () => {
       }
       
       console.log('Results saved successfully');
+      return session;
     } catch (error: any) {
       console.error('Error saving results:', error);
       toast({
@@ -383,43 +762,77 @@ const AHPCalculation = () => {
         description: "Hasil perhitungan berhasil tetapi gagal disimpan ke database",
         variant: "destructive",
       });
+      return null;
     }
   };
 
-  const resetCalculation = async () => {
+  // Kembali ke langkah awal; riwayat perhitungan tidak dihapus
+  const resetCalculation = () => {
+    console.log('Resetting calculation view...');
+
+    setCalculationStep(0);
+    setResults(null);
+    setError(null);
+    setStudents([]);
+    setCriteria([]);
+    setScores([]);
+    setLocalPriorities(null);
+    setActiveSession(null);
+    fetchCompleteness();
+
+    toast({
+      title: "Siap Menghitung Ulang",
+      description: "Riwayat perhitungan sebelumnya tetap tersimpan",
+    });
+  };
+
+  // Ekspor seluruh langkah perhitungan sesi ke Excel untuk keperluan audit, dari snapshot sesi
+  const exportWorkbook = () => {
+    if (!results || !activeSession) return;
+
     try {
-      console.log('Resetting calculation...');
-      
-      const { error } = await supabase
-        .from('ahp_results')
-        .delete()
-        .neq('id', '00000000-0000-0000-0000-000000000000');
-      
-      if (error) {
-        console.log('Reset error (might be expected):', error);
-      }
-      
-      setCalculationStep(0);
-      setResults(null);
-      setError(null);
-      setStudents([]);
-      setCriteria([]);
-      setScores([]);
-      
-      toast({
-        title: "Reset Berhasil",
-        description: "Hasil perhitungan telah dihapus",
+      setExporting(true);
+
+      exportCalculationWorkbook({
+        sessionName: activeSession.name,
+        method: activeSession.method,
+        criteria,
+        weightNodes: getWeightsSnapshot(activeSession),
+        alternativePriorities: getAlternativePriorities(activeSession),
+        scores,
+        results: results.map(result => ({
+          studentId: result.student_id,
+          rank: result.rank,
+          name: result.student.name,
+          nis: result.student.nis,
+          class: result.student.class,
+          finalScore: result.final_score,
+          scores: result.criteriaScores
+        }))
       });
     } catch (error) {
-      console.error('Error resetting calculation:', error);
+      console.error('Error exporting calculation workbook:', error);
       toast({
         title: "Error",
-        description: "Gagal mereset perhitungan",
+        description: "Gagal membuat file Excel",
         variant: "destructive",
       });
+    } finally {
+      setExporting(false);
     }
   };
 
+  const visibleResults = results ? filterByScope(results, scope, scopeGroup || getScopeGroups(results, scope)[0]) : [];
+  const scoreStats = results ? calculateScoreStats(criteria, scores) : {};
+  const sessionTiePolicy = activeSession ? getTiePolicy(activeSession) : null;
+  const imputedKeys = new Set(scores.filter(s => s.imputed).map(s => `${s.student_id}:${s.criteria_id}`));
+  const completenessReport = completenessData
+    ? buildCompletenessReport(completenessData.students, tieCriteriaOptions, completenessData.scores)
+    : null;
+  const completenessIssues = completenessReport && completenessData
+    ? getBlockingIssues(completenessReport, missingPolicy, completenessData.students, tieCriteriaOptions)
+    : [];
+
   return (
     <div className="space-y-6">
       <Card>
@@ -443,14 +856,127 @@ const AHPCalculation = () => {
               <p className="text-gray-600 mb-6">
                 Mulai perhitungan AHP untuk menentukan ranking siswa berprestasi
               </p>
-              <Button 
-                onClick={calculateAHP} 
-                size="lg" 
-                className="px-8"
-                disabled={loading}
-              >
-                {loading ? 'Memuat Data...' : 'Mulai Perhitungan'}
-              </Button>
+              <div className="flex flex-col md:flex-row justify-center gap-4 mb-6 text-left">
+                <div className="w-full md:w-64">
+                  <Label htmlFor="ranking-method">Metode Penilaian Siswa</Label>
+                  <Select value={method} onValueChange={(value) => setMethod(value as RankingMethod)}>
+                    <SelectTrigger id="ranking-method">
+                      <SelectValue />
+                    </SelectTrigger>
+                    <SelectContent>
+                      {rankingMethods.map(key => (
+                        <SelectItem key={key} value={key}>{rankingMethodLabels[key]}</SelectItem>
+                      ))}
+                    </SelectContent>
+                  </Select>
+                </div>
+                {method === 'ahp' && (
+                  <div className="w-full md:w-64">
+                    <Label htmlFor="comparison-source">Sumber Perbandingan Siswa</Label>
+                    <Select value={comparisonSource} onValueChange={(value) => setComparisonSource(value as ComparisonSource)}>
+                      <SelectTrigger id="comparison-source">
+                        <SelectValue />
+                      </SelectTrigger>
+                      <SelectContent>
+                        <SelectItem value="ratio">Rasio nilai siswa</SelectItem>
+                        <SelectItem value="manual">Input manual (maks. {MAX_MANUAL_ALTERNATIVES} siswa)</SelectItem>
+                      </SelectContent>
+                    </Select>
+                  </div>
+                )}
+              </div>
+              <div className="flex flex-col md:flex-row justify-center gap-4 mb-6 text-left">
+                <div className="w-full md:w-64">
+                  <Label htmlFor="tie-mode">Penanganan Nilai Seri</Label>
+                  <Select
+                    value={tiePolicy.mode}
+                    onValueChange={(value) => setTiePolicy({ ...tiePolicy, mode: value as TieMode })}
+                  >
+                    <SelectTrigger id="tie-mode">
+                      <SelectValue />
+                    </SelectTrigger>
+                    <SelectContent>
+                      {(Object.keys(tieModeLabels) as TieMode[]).map(key => (
+                        <SelectItem key={key} value={key}>{tieModeLabels[key]}</SelectItem>
+                      ))}
+                    </SelectContent>
+                  </Select>
+                </div>
+                {tiePolicy.mode === 'criteria' && [0, 1].map(slot => (
+                  <div key={slot} className="w-full md:w-48">
+                    <Label htmlFor={`tie-criterion-${slot}`}>Prioritas {slot + 1}</Label>
+                    <Select
+                      value={tiePolicy.criteria[slot] || NO_TIE_CRITERION}
+                      onValueChange={(value) => updateTieCriterion(slot, value)}
+                      disabled={slot > 0 && !tiePolicy.criteria[0]}
+                    >
+                      <SelectTrigger id={`tie-criterion-${slot}`}>
+                        <SelectValue />
+                      </SelectTrigger>
+                      <SelectContent>
+                        <SelectItem value={NO_TIE_CRITERION}>— Tidak ada —</SelectItem>
+                        {tieCriteriaOptions
+                          .filter(option => !tiePolicy.criteria.some((id, index) => index !== slot && id === option.id))
+                          .map(option => (
+                            <SelectItem key={option.id} value={option.id}>{option.name}</SelectItem>
+                          ))}
+                      </SelectContent>
+                    </Select>
+                  </div>
+                ))}
+              </div>
+              <div className="w-full md:w-[33rem] mx-auto mb-6 text-left space-y-4">
+                <div>
+                  <Label htmlFor="missing-policy">Nilai Kosong</Label>
+                  <Select value={missingPolicy} onValueChange={(value) => setMissingPolicy(value as MissingScorePolicy)}>
+                    <SelectTrigger id="missing-policy">
+                      <SelectValue />
+                    </SelectTrigger>
+                    <SelectContent>
+                      {(Object.keys(missingScorePolicyLabels) as MissingScorePolicy[]).map(key => (
+                        <SelectItem key={key} value={key}>{missingScorePolicyLabels[key]}</SelectItem>
+                      ))}
+                    </SelectContent>
+                  </Select>
+                </div>
+                {completenessData && (
+                  <ScoreCompletenessReport
+                    report={completenessReport}
+                    policy={missingPolicy}
+                    students={completenessData.students}
+                    criteria={tieCriteriaOptions}
+                    blockingIssues={completenessIssues}
+                  />
+                )}
+              </div>
+              <div className="w-full md:w-[33rem] mx-auto mb-6 text-left">
+                <Label htmlFor="session-name">Nama Perhitungan</Label>
+                <Input
+                  id="session-name"
+                  placeholder="mis. Semester Ganjil 2026/2027"
+                  value={sessionName}
+                  onChange={(e) => setSessionName(e.target.value)}
+                />
+              </div>
+              {method === 'ahp' && comparisonSource === 'manual' && (
+                <div className="mb-6 text-left">
+                  <AlternativeComparison periodId={periodId} canEdit={can(role, 'scores.edit')} />
+                </div>
+              )}
+              {canRun ? (
+                <Button 
+                  onClick={calculateAHP} 
+                  size="lg" 
+                  className="px-8"
+                  disabled={loading || completenessIssues.length > 0}
+                >
+                  {loading ? 'Memuat Data...' : 'Mulai Perhitungan'}
+                </Button>
+              ) : (
+                <p className="text-sm text-gray-500">
+                  Perhitungan hanya dapat dijalankan oleh admin. Anda dapat membuka hasil dari riwayat perhitungan.
+                </p>
+              )}
             </div>
           )}
 
@@ -495,12 +1021,38 @@ const AHPCalculation = () => {
           {results && results.length > 0 && (
             <div className="space-y-6">
               <div className="flex items-center justify-between">
-                <h3 className="text-lg font-semibold">Hasil Perhitungan AHP</h3>
-                <Button variant="outline" onClick={resetCalculation}>
-                  Hitung Ulang
-                </Button>
+                <div className="flex items-center gap-2">
+                  <h3 className="text-lg font-semibold">
+                    Hasil Perhitungan AHP{activeSession ? `: ${activeSession.name}` : ''}
+                  </h3>
+                  <Badge variant="secondary">{rankingMethodLabels[method]}</Badge>
+                  {activeSession?.is_official && <Badge>Resmi</Badge>}
+                </div>
+                <div className="flex space-x-2">
+                  {can(role, 'reports.export') && (
+                    <Button variant="outline" onClick={exportWorkbook} disabled={exporting || !activeSession} className="flex items-center">
+                      <FileSpreadsheet className="h-4 w-4 mr-2" />
+                      {exporting ? 'Mengekspor...' : 'Ekspor Excel'}
+                    </Button>
+                  )}
+                  {canRun && (
+                    <Button variant="outline" onClick={resetCalculation}>
+                      Hitung Ulang
+                    </Button>
+                  )}
+                </div>
               </div>
 
+              <RankingScopeSelector
+                scope={scope}
+                group={scopeGroup}
+                groups={getScopeGroups(results, scope)}
+                onChange={(newScope, newGroup) => {
+                  setScope(newScope);
+                  setScopeGroup(newGroup);
+                }}
+              />
+
               <Card>
                 <CardHeader>
                   <CardTitle>Bobot Kriteria</CardTitle>
@@ -510,6 +1062,9 @@ const AHPCalculation = () => {
                     {criteria.map((criterion) => (
                       <div key={criterion.id} className="text-center p-3 bg-blue-50 rounded-lg">
                         <div className="font-semibold text-blue-900">{criterion.name}</div>
+                        <Badge variant={isCostCriterion(criterion) ? 'destructive' : 'secondary'} className="mt-1">
+                          {isCostCriterion(criterion) ? 'Cost' : 'Benefit'}
+                        </Badge>
                         <div className="text-2xl font-bold text-blue-700">
                           {criterion.weight ? (criterion.weight * 100).toFixed(1) : 0}%
                         </div>
@@ -519,9 +1074,115 @@ const AHPCalculation = () => {
                 </CardContent>
               </Card>
 
+              {method === 'saw' && (
+                <Card>
+                  <CardHeader>
+                    <CardTitle>Normalisasi Nilai</CardTitle>
+                  </CardHeader>
+                  <CardContent>
+                    <div className="overflow-x-auto">
+                      <Table>
+                        <TableHeader>
+                          <TableRow>
+                            <TableHead>Nama Siswa</TableHead>
+                            {criteria.map(criterion => (
+                              <TableHead key={criterion.id}>
+                                {criterion.name}
+                                <span className="block text-xs font-normal text-gray-500">
+                                  {normalizationLabels[getNormalization(criterion)]}
+                                  {isCostCriterion(criterion) && ' · cost'}
+                                </span>
+                              </TableHead>
+                            ))}
+                          </TableRow>
+                        </TableHeader>
+                        <TableBody>
+                          {visibleResults.map(result => {
+                            const { breakdown } = scoreStudent(result.student_id, criteria, scores, scoreStats);
+                            return (
+                              <TableRow key={result.student_id}>
+                                <TableCell className="font-medium">{result.student.name}</TableCell>
+                                {criteria.map(criterion => (
+                                  <TableCell key={criterion.id} title={normalizationLabels[breakdown[criterion.id].strategy]}>
+                                    {breakdown[criterion.id].normalized.toFixed(3)}
+                                  </TableCell>
+                                ))}
+                              </TableRow>
+                            );
+                          })}
+                        </TableBody>
+                      </Table>
+                    </div>
+                  </CardContent>
+                </Card>
+              )}
+
+              {localPriorities && (
+                <Card>
+                  <CardHeader>
+                    <CardTitle>Prioritas Lokal Alternatif</CardTitle>
+                  </CardHeader>
+                  <CardContent>
+                    <div className="overflow-x-auto">
+                      <Table>
+                        <TableHeader>
+                          <TableRow>
+                            <TableHead>Nama Siswa</TableHead>
+                            {criteria.map(criterion => (
+                              <TableHead key={criterion.id}>{criterion.name}</TableHead>
+                            ))}
+                          </TableRow>
+                        </TableHeader>
+                        <TableBody>
+                          {visibleResults.map(result => (
+                            <TableRow key={result.student_id}>
+                              <TableCell className="font-medium">{result.student.name}</TableCell>
+                              {criteria.map(criterion => (
+                                <TableCell key={criterion.id}>
+                                  {(localPriorities[criterion.id].priorities[result.student_id] * 100).toFixed(2)}%
+                                </TableCell>
+                              ))}
+                            </TableRow>
+                          ))}
+                          <TableRow>
+                            <TableCell className="font-semibold">Consistency Ratio</TableCell>
+                            {criteria.map(criterion => {
+                              const cr = localPriorities[criterion.id].cr;
+                              return (
+                                <TableCell
+                                  key={criterion.id}
+                                  className={cr > CONSISTENCY_THRESHOLD ? 'text-red-600 font-semibold' : 'text-green-700'}
+                                >
+                                  {(cr * 100).toFixed(2)}%
+                                </TableCell>
+                              );
+                            })}
+                          </TableRow>
+                        </TableBody>
+                      </Table>
+                    </div>
+                  </CardContent>
+                </Card>
+              )}
+
               <Card>
                 <CardHeader>
                   <CardTitle>Ranking Siswa Berprestasi</CardTitle>
+                  {sessionTiePolicy && (
+                    <p className="text-sm text-gray-600">
+                      Nilai seri: {tieModeLabels[sessionTiePolicy.mode]}
+                      {sessionTiePolicy.mode === 'criteria' && sessionTiePolicy.criteria.length > 0 &&
+                        ` (${sessionTiePolicy.criteria
+                          .map(id => criteria.find(c => c.id === id)?.name || 'kriteria dihapus')
+                          .join(' → ')})`}
+                    </p>
+                  )}
+                  {activeSession?.missing_score_policy && activeSession.missing_score_policy in missingScorePolicyLabels && (
+                    <p className="text-sm text-gray-600">
+                      Nilai kosong: {missingScorePolicyLabels[activeSession.missing_score_policy as MissingScorePolicy]}
+                      {imputedKeys.size > 0 && ' · nilai bertanda * hasil imputasi'}
+                    </p>
+                  )}
                 </CardHeader>
                 <CardContent>
                   <div className="overflow-x-auto">
@@ -533,54 +1194,95 @@ const AHPCalculation = () => {
                           <TableHead>NIS</TableHead>
                           <TableHead>Kelas</TableHead>
                           {criteria.map(criterion => (
-                            <TableHead key={criterion.id}>{criterion.name}</TableHead>
+                            <TableHead key={criterion.id}>
+                              {criterion.name}
+                              {isCostCriterion(criterion) && <span className="ml-1 text-xs font-normal text-red-600">(cost)</span>}
+                            </TableHead>
                           ))}
                           <TableHead>Skor AHP</TableHead>
                         </TableRow>
                       </TableHeader>
                       <TableBody>
-                        {results.map((result: AhpResult) => (
-                          <TableRow key={result.student_id} className={result.rank <= 3 ? 'bg-yellow-50' : ''}>
-                            <TableCell className="font-bold">
-                              <div className="flex items-center">
-                                #{result.rank}
-                                {result.rank <= 3 && <span className="ml-2 text-yellow-600">🏆</span>}
-                              </div>
-                            </TableCell>
-                            <TableCell className="font-medium">{result.student.name}</TableCell>
-                            <TableCell>{result.student.nis}</TableCell>
-                            <TableCell>{result.student.class}</TableCell>
-                            {criteria.map(criterion => (
-                              <TableCell key={criterion.id}>
-                                {result.criteriaScores[criterion.id] || 0}
+                        {visibleResults.map((result: AhpResult) => {
+                          const scopeRank = getScopeRank(result, scope);
+                          return (
+                            <TableRow key={result.student_id} className={scopeRank <= 3 ? 'bg-yellow-50' : ''}>
+                              <TableCell className="font-bold">
+                                <div className="flex items-center">
+                                  #{scopeRank}
+                                  {scopeRank <= 3 && <span className="ml-2 text-yellow-600">🏆</span>}
+                                  {result.tie_break && (
+                                    <Badge
+                                      variant={result.tie_break === 'shared' ? 'outline' : 'secondary'}
+                                      className="ml-2 font-normal"
+                                      title={formatTieBreak(result.tie_break, criteria)}
+                                    >
+                                      Seri
+                                    </Badge>
+                                  )}
+                                </div>
                               </TableCell>
-                            ))}
-                            <TableCell>
-                              <div className="flex items-center space-x-2">
-                                <span className="font-bold text-green-600">
-                                  {(result.final_score * 100).toFixed(2)}%
-                                </span>
-                              </div>
-                            </TableCell>
-                          </TableRow>
-                        ))}
+                              <TableCell className="font-medium">{result.student.name}</TableCell>
+                              <TableCell>{result.student.nis}</TableCell>
+                              <TableCell>{result.student.class}</TableCell>
+                              {criteria.map(criterion => {
+                                const imputed = imputedKeys.has(`${result.student_id}:${criterion.id}`);
+                                return (
+                                  <TableCell
+                                    key={criterion.id}
+                                    className={imputed ? 'text-amber-700' : ''}
+                                    title={imputed ? 'Nilai hasil imputasi' : undefined}
+                                  >
+                                    {imputed ? (result.criteriaScores[criterion.id] || 0).toFixed(2) : result.criteriaScores[criterion.id] || 0}
+                                    {imputed && '*'}
+                                  </TableCell>
+                                );
+                              })}
+                              <TableCell>
+                                <div className="flex items-center space-x-2">
+                                  <span className="font-bold text-green-600">
+                                    {(result.final_score * 100).toFixed(2)}%
+                                  </span>
+                                </div>
+                              </TableCell>
+                            </TableRow>
+                          );
+                        })}
                       </TableBody>
                     </Table>
                   </div>
                 </CardContent>
               </Card>
 
-              {results.length >= 3 && (
+              <MethodComparison
+                primaryMethod={method}
+                criteria={criteria}
+                students={results.map(result => result.student)}
+                scores={scores}
+                ahpScores={method === 'ahp' ? Object.fromEntries(results.map(result => [result.student_id, result.final_score])) : null}
+              />
+
+              <SensitivityAnalysis
+                method={method}
+                criteria={criteria}
+                students={results.map(result => result.student)}
+                scores={scores}
+                localPriorities={localPriorities}
+                tiePolicy={sessionTiePolicy}
+              />
+
+              {visibleResults.length >= 3 && (
                 <Card className="bg-green-50 border-green-200">
                   <CardHeader>
                     <CardTitle className="text-green-800">🎉 Top 3 Siswa Berprestasi</CardTitle>
                   </CardHeader>
                   <CardContent>
                     <div className="grid grid-cols-1 md:grid-cols-3 gap-4">
-                      {results.slice(0, 3).map((result, index) => (
+                      {/* Medali mengikuti peringkat bersama: siswa seri di peringkat 1 sama-sama mendapat 🥇 */}
+                      {visibleResults.filter(result => getScopeRank(result, scope) <= 3).map(result => (
                         <div key={result.student_id} className="text-center p-4 bg-white rounded-lg border-2 border-green-300">
                           <div className="text-3xl mb-2">
-                            {index === 0 ? '🥇' : index === 1 ? '🥈' : '🥉'}
+                            {medals[getScopeRank(result, scope) - 1]}
                           </div>
                           <div className="font-bold text-lg">{result.student.name}</div>
                           <div className="text-gray-600">{result.student.nis}</div>
@@ -615,6 +1317,14 @@ const AHPCalculation = () => {
           )}
         </CardContent>
       </Card>
+
+      <CalculationHistory
+        periodId={periodId}
+        activeSessionId={activeSession?.id || null}
+        refreshKey={historyKey}
+        canApprove={can(role, 'calculation.approve')}
+        onOpen={openSession}
+      />
     </div>
   );
 };
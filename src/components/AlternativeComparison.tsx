@@ -0,0 +1,256 @@
+import { useState, useEffect } from 'react';
+import { Card, CardContent, CardHeader, CardTitle } from '@/components/ui/card';
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from '@/components/ui/select';
+import { Tabs, TabsContent, TabsList, TabsTrigger } from '@/components/ui/tabs';
+import { Badge } from '@/components/ui/badge';
+import { toast } from '@/hooks/use-toast';
+import { supabase } from '@/integrations/supabase/client';
+import { getLeafCriteria } from '@/lib/criteriaTree';
+import {
+  ahpScale,
+  judgmentKey,
+  parseJudgment,
+  toCanonicalJudgment,
+  buildComparisonMatrix,
+  calculatePriorities,
+  pairKey,
+  CONSISTENCY_THRESHOLD,
+  MAX_MANUAL_ALTERNATIVES
+} from '@/lib/ahp';
+
+interface Criteria {
+  id: string;
+  name: string;
+}
+
+interface Student {
+  id: string;
+  name: string;
+}
+
+interface AlternativeComparisonProps {
+  periodId: string;
+  canEdit: boolean;
+}
+
+const AlternativeComparison = ({ periodId, canEdit }: AlternativeComparisonProps) => {
+  const [criteria, setCriteria] = useState<Criteria[]>([]);
+  const [students, setStudents] = useState<Student[]>([]);
+  const [matrices, setMatrices] = useState<{[criteriaId: string]: number[][]}>({});
+  // Pasangan yang sudah dinilai per kriteria; pasangan lain bernilai 1 pada matriks
+  const [judgedPairs, setJudgedPairs] = useState<{[criteriaId: string]: string[]}>({});
+  const [loading, setLoading] = useState(true);
+
+  useEffect(() => {
+    fetchData();
+  }, []);
+
+  const fetchData = async () => {
+    try {
+      const [criteriaResult, studentsResult] = await Promise.all([
+        supabase.from('criteria').select('id, name, parent_id').order('name'),
+        supabase.from('students').select('id, name').eq('period_id', periodId).order('name')
+      ]);
+
+      if (criteriaResult.error) throw criteriaResult.error;
+      if (studentsResult.error) throw studentsResult.error;
+
+      // Alternatif hanya dibandingkan pada kriteria daun
+      const loadedCriteria = getLeafCriteria(criteriaResult.data || []);
+      const loadedStudents = studentsResult.data || [];
+      const studentIds = loadedStudents.map(s => s.id);
+
+      // Hanya perbandingan antar siswa periode ini
+      const { data: comparisonData, error: comparisonError } = await supabase
+        .from('alternative_comparison')
+        .select('criteria_id, student1_id, student2_id, intensity, reciprocal')
+        .in('student1_id', studentIds)
+        .in('student2_id', studentIds);
+
+      if (comparisonError) throw comparisonError;
+
+      const newMatrices: {[criteriaId: string]: number[][]} = {};
+      const newJudgedPairs: {[criteriaId: string]: string[]} = {};
+      loadedCriteria.forEach(criterion => {
+        const rows = (comparisonData || []).filter(c => c.criteria_id === criterion.id);
+        newMatrices[criterion.id] = buildComparisonMatrix(
+          studentIds,
+          rows.map(c => ({ from: c.student1_id, to: c.student2_id, intensity: c.intensity, reciprocal: c.reciprocal }))
+        );
+        newJudgedPairs[criterion.id] = Array.from(new Set(rows.map(c => pairKey(c.student1_id, c.student2_id))));
+      });
+
+      setCriteria(loadedCriteria);
+      setStudents(loadedStudents);
+      setMatrices(newMatrices);
+      setJudgedPairs(newJudgedPairs);
+    } catch (error) {
+      console.error('Error fetching alternative comparisons:', error);
+      toast({
+        title: "Error",
+        description: "Gagal memuat perbandingan alternatif",
+        variant: "destructive",
+      });
+    } finally {
+      setLoading(false);
+    }
+  };
+
+  const updateJudgment = async (criteriaId: string, i: number, j: number, value: number) => {
+    const newMatrix = matrices[criteriaId].map(row => [...row]);
+    newMatrix[i][j] = value;
+    newMatrix[j][i] = 1 / value;
+    setMatrices({ ...matrices, [criteriaId]: newMatrix });
+
+    try {
+      const { from, to, intensity, reciprocal } = toCanonicalJudgment(students[i].id, students[j].id, value);
+      const { error } = await supabase
+        .from('alternative_comparison')
+        .upsert({
+          criteria_id: criteriaId,
+          student1_id: from,
+          student2_id: to,
+          intensity,
+          reciprocal
+        }, { onConflict: 'criteria_id,student1_id,student2_id' });
+
+      if (error) throw error;
+
+      const key = pairKey(from, to);
+      setJudgedPairs(current => ({
+        ...current,
+        [criteriaId]: (current[criteriaId] || []).includes(key) ? current[criteriaId] : [...(current[criteriaId] || []), key]
+      }));
+    } catch (error) {
+      console.error('Error saving alternative comparison:', error);
+      toast({
+        title: "Error",
+        description: "Gagal menyimpan perbandingan alternatif",
+        variant: "destructive",
+      });
+    }
+  };
+
+  if (loading) {
+    return (
+      <div className="flex justify-center p-8">
+        <div className="animate-spin rounded-full h-8 w-8 border-b-2 border-blue-600"></div>
+      </div>
+    );
+  }
+
+  if (students.length > MAX_MANUAL_ALTERNATIVES) {
+    return (
+      <p className="text-sm text-amber-700">
+        Perbandingan manual hanya tersedia untuk maksimal {MAX_MANUAL_ALTERNATIVES} siswa
+        (saat ini {students.length} siswa). Gunakan perbandingan dari rasio nilai.
+      </p>
+    );
+  }
+
+  if (criteria.length === 0 || students.length < 2) {
+    return (
+      <p className="text-sm text-gray-500">
+        Diperlukan minimal satu kriteria dan dua siswa untuk membuat perbandingan alternatif.
+      </p>
+    );
+  }
+
+  const totalPairs = (students.length * (students.length - 1)) / 2;
+
+  return (
+    <Card>
+      <CardHeader>
+        <CardTitle>Perbandingan Berpasangan Antar Siswa</CardTitle>
+        <p className="text-sm text-gray-600">
+          Bandingkan setiap siswa dengan siswa lainnya untuk masing-masing kriteria
+        </p>
+      </CardHeader>
+      <CardContent>
+        <Tabs defaultValue={criteria[0].id}>
+          <TabsList className="flex flex-wrap h-auto">
+            {criteria.map(criterion => (
+              <TabsTrigger key={criterion.id} value={criterion.id}>
+                {criterion.name}
+              </TabsTrigger>
+            ))}
+          </TabsList>
+
+          {criteria.map(criterion => {
+            const matrix = matrices[criterion.id];
+            const { cr } = calculatePriorities(matrix);
+            const consistent = cr <= CONSISTENCY_THRESHOLD;
+            const judgedCount = (judgedPairs[criterion.id] || []).length;
+
+            return (
+              <TabsContent key={criterion.id} value={criterion.id}>
+                <div className="overflow-x-auto">
+                  <table className="w-full border-collapse">
+                    <thead>
+                      <tr>
+                        <th className="border p-2 bg-gray-50">Siswa</th>
+                        {students.map(s => (
+                          <th key={s.id} className="border p-2 bg-gray-50 text-sm">{s.name}</th>
+                        ))}
+                      </tr>
+                    </thead>
+                    <tbody>
+                      {students.map((rowStudent, i) => (
+                        <tr key={rowStudent.id}>
+                          <td className="border p-2 font-medium bg-gray-50">{rowStudent.name}</td>
+                          {students.map((colStudent, j) => (
+                            <td key={colStudent.id} className="border p-1">
+                              {i === j ? (
+                                <div className="text-center py-2">1</div>
+                              ) : i < j ? (
+                                <Select
+                                  value={judgmentKey(matrix[i][j])}
+                                  onValueChange={(value) => updateJudgment(criterion.id, i, j, parseJudgment(value))}
+                                  disabled={!canEdit}
+                                >
+                                  <SelectTrigger className="w-full">
+                                    <SelectValue />
+                                  </SelectTrigger>
+                                  <SelectContent>
+                                    {ahpScale.map((scale) => (
+                                      <SelectItem key={scale.value} value={judgmentKey(scale.value)}>
+                                        {scale.label}
+                                      </SelectItem>
+                                    ))}
+                                  </SelectContent>
+                                </Select>
+                              ) : (
+                                <div className="text-center py-2 text-gray-600">
+                                  {judgmentKey(matrix[i][j])}
+                                </div>
+                              )}
+                            </td>
+                          ))}
+                        </tr>
+                      ))}
+                    </tbody>
+                  </table>
+                </div>
+                <div className="mt-3 flex items-center gap-2 text-sm">
+                  <span>Consistency Ratio: {(cr * 100).toFixed(2)}%</span>
+                  <Badge variant={consistent ? 'secondary' : 'destructive'}>
+                    {consistent ? 'Konsisten' : 'Tidak Konsisten'}
+                  </Badge>
+                  <span className="text-gray-600">Pasangan dinilai: {judgedCount}/{totalPairs}</span>
+                </div>
+                {judgedCount < totalPairs && (
+                  <p className="mt-1 text-sm text-amber-700">
+                    Masih ada pasangan yang belum dinilai. Perhitungan AHP manual baru dapat dijalankan
+                    setelah semua pasangan pada setiap kriteria dinilai.
+                  </p>
+                )}
+              </TabsContent>
+            );
+          })}
+        </Tabs>
+      </CardContent>
+    </Card>
+  );
+};
+
+export default AlternativeComparison;
@@ -0,0 +1,174 @@
+import { useState, useEffect } from 'react';
+import { Card, CardContent, CardHeader, CardTitle } from '@/components/ui/card';
+import { Button } from '@/components/ui/button';
+import { Badge } from '@/components/ui/badge';
+import { Table, TableBody, TableCell, TableHead, TableHeader, TableRow } from '@/components/ui/table';
+import { History, FolderOpen, BadgeCheck } from 'lucide-react';
+import { toast } from '@/hooks/use-toast';
+import { supabase } from '@/integrations/supabase/client';
+import { rankingMethodLabels } from '@/lib/scoring';
+import { CalculationSession } from '@/lib/sessions';
+
+interface CalculationHistoryProps {
+  periodId: string;
+  activeSessionId: string | null;
+  refreshKey: number;
+  canApprove: boolean;
+  onOpen: (session: CalculationSession) => void;
+}
+
+const CalculationHistory = ({ periodId, activeSessionId, refreshKey, canApprove, onOpen }: CalculationHistoryProps) => {
+  const [sessions, setSessions] = useState<CalculationSession[]>([]);
+  const [loading, setLoading] = useState(true);
+  const [updatingId, setUpdatingId] = useState<string | null>(null);
+
+  useEffect(() => {
+    fetchSessions();
+  }, [refreshKey]);
+
+  const fetchSessions = async () => {
+    try {
+      const { data, error } = await supabase
+        .from('calculation_sessions')
+        .select('*')
+        .eq('period_id', periodId)
+        .order('created_at', { ascending: false });
+
+      if (error) throw error;
+
+      setSessions(data || []);
+    } catch (error) {
+      console.error('Error fetching calculation sessions:', error);
+      toast({
+        title: "Error",
+        description: "Gagal memuat riwayat perhitungan",
+        variant: "destructive",
+      });
+    } finally {
+      setLoading(false);
+    }
+  };
+
+  const markOfficial = async (session: CalculationSession) => {
+    try {
+      setUpdatingId(session.id);
+
+      // Lepas status resmi sesi lain pada periode yang sama (hanya boleh ada satu)
+      const { error: resetError } = await supabase
+        .from('calculation_sessions')
+        .update({ is_official: false })
+        .eq('period_id', periodId)
+        .eq('is_official', true);
+
+      if (resetError) throw resetError;
+
+      const { error } = await supabase
+        .from('calculation_sessions')
+        .update({ is_official: true })
+        .eq('id', session.id);
+
+      if (error) throw error;
+
+      toast({
+        title: "Hasil Resmi Ditetapkan",
+        description: `"${session.name}" ditetapkan sebagai hasil resmi`,
+      });
+
+      fetchSessions();
+    } catch (error) {
+      console.error('Error marking official session:', error);
+      toast({
+        title: "Error",
+        description: "Gagal menetapkan hasil resmi",
+        variant: "destructive",
+      });
+    } finally {
+      setUpdatingId(null);
+    }
+  };
+
+  return (
+    <Card>
+      <CardHeader>
+        <CardTitle className="flex items-center">
+          <History className="h-5 w-5 mr-2" />
+          Riwayat Perhitungan
+        </CardTitle>
+      </CardHeader>
+      <CardContent>
+        {loading ? (
+          <div className="flex justify-center p-4">
+            <div className="animate-spin rounded-full h-6 w-6 border-b-2 border-blue-600"></div>
+          </div>
+        ) : (
+          <div className="overflow-x-auto">
+            <Table>
+              <TableHeader>
+                <TableRow>
+                  <TableHead>Nama</TableHead>
+                  <TableHead>Waktu</TableHead>
+                  <TableHead>Oleh</TableHead>
+                  <TableHead>Metode</TableHead>
+                  <TableHead>CR Kriteria</TableHead>
+                  <TableHead>Aksi</TableHead>
+                </TableRow>
+              </TableHeader>
+              <TableBody>
+                {sessions.length === 0 ? (
+                  <TableRow>
+                    <TableCell colSpan={6} className="text-center py-6 text-gray-500">
+                      Belum ada riwayat perhitungan.
+                    </TableCell>
+                  </TableRow>
+                ) : (
+                  sessions.map(session => (
+                    <TableRow key={session.id} className={session.id === activeSessionId ? 'bg-blue-50' : ''}>
+                      <TableCell className="font-medium">
+                        <div className="flex items-center gap-2">
+                          {session.name}
+                          {session.is_official && <Badge>Resmi</Badge>}
+                        </div>
+                      </TableCell>
+                      <TableCell>{new Date(session.created_at).toLocaleString('id-ID')}</TableCell>
+                      <TableCell>{session.created_by_name || '-'}</TableCell>
+                      <TableCell>{rankingMethodLabels[session.method] || session.method}</TableCell>
+                      <TableCell>
+                        {session.consistency_ratio !== null ? `${(session.consistency_ratio * 100).toFixed(2)}%` : '-'}
+                      </TableCell>
+                      <TableCell>
+                        <div className="flex space-x-2">
+                          <Button
+                            variant="outline"
+                            size="sm"
+                            onClick={() => onOpen(session)}
+                            disabled={session.id === activeSessionId}
+                          >
+                            <FolderOpen className="h-4 w-4 mr-1" />
+                            Buka
+                          </Button>
+                          {canApprove && !session.is_official && (
+                            <Button
+                              variant="outline"
+                              size="sm"
+                              onClick={() => markOfficial(session)}
+                              disabled={updatingId !== null}
+                            >
+                              <BadgeCheck className="h-4 w-4 mr-1" />
+                              Jadikan Resmi
+                            </Button>
+                          )}
+                        </div>
+                      </TableCell>
+                    </TableRow>
+                  ))
+                )}
+              </TableBody>
+            </Table>
+          </div>
+        )}
+      </CardContent>
+    </Card>
+  );
+};
+
+export default CalculationHistory;
@@ -2,58 +2,173 @@
 import { useState, useEffect } from 'react';
 import { Card, CardContent, CardHeader, CardTitle } from '@/components/ui/card';
 import { Label } from '@/components/ui/label';
+import { Input } from '@/components/ui/input';
+import { Textarea } from '@/components/ui/textarea';
+import { Badge } from '@/components/ui/badge';
 import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from '@/components/ui/select';
 import { Button } from '@/components/ui/button';
+import { Dialog, DialogContent, DialogHeader, DialogTitle, DialogTrigger } from '@/components/ui/dialog';
+import {
+  AlertDialog,
+  AlertDialogAction,
+  AlertDialogCancel,
+  AlertDialogContent,
+  AlertDialogDescription,
+  AlertDialogFooter,
+  AlertDialogHeader,
+  AlertDialogTitle,
+} from '@/components/ui/alert-dialog';
 import { toast } from '@/hooks/use-toast';
 import { supabase } from '@/integrations/supabase/client';
-import { AlertCircle } from 'lucide-react';
+import { AlertCircle, Plus, Edit, Trash2, CornerDownRight } from 'lucide-react';
 import { Alert, AlertDescription, AlertTitle } from '@/components/ui/alert';
+import {
+  ahpScale,
+  judgmentKey,
+  parseJudgment,
+  toCanonicalJudgment,
+  buildComparisonMatrix,
+  calculatePriorities,
+  suggestConsistencyImprovements,
+  priorityMethodLabels,
+  ConsistencyResult,
+  ConsistencySuggestion,
+  PriorityMethod,
+  WeightMethod,
+  weightMethodLabels,
+  CONSISTENCY_THRESHOLD
+} from '@/lib/ahp';
+import {
+  calculateFuzzyWeights,
+  formatFuzzyNumber,
+  fuzzifyJudgment,
+  fuzzyMethodLabels,
+  FuzzyMethod,
+  FuzzyNumber,
+  getZeroWeightIndices
+} from '@/lib/fuzzyAhp';
+import {
+  CriterionType,
+  criterionTypeLabels,
+  getNormalization,
+  normalizationLabels,
+  NormalizationStrategy,
+  parseRubric
+} from '@/lib/scoring';
+import {
+  ROOT_NODE,
+  flattenTree,
+  getChildren,
+  getComparisonNodes,
+  getCriterionPath,
+  getDescendantIds,
+  saveLocalWeights
+} from '@/lib/criteriaTree';
+import { Role, can } from '@/lib/permissions';
+import GroupAHP from './GroupAHP';
 
 interface Criteria {
   id: string;
   name: string;
   description: string;
+  type: string;
+  min_score: number;
+  max_score: number;
   weight?: number;
+  weight_method?: string | null;
+  normalization?: string;
+  rubric?: unknown;
+  parent_id?: string | null;
+  local_weight?: number | null;
 }
 
-const CriteriaManagement = () => {
+const emptyForm = {
+  parentId: ROOT_NODE,
+  name: '',
+  description: '',
+  type: 'benefit',
+  minScore: '0',
+  maxScore: '100',
+  normalization: 'max' as NormalizationStrategy,
+  rubric: [] as { min: string; value: string }[]
+};
+
+// Rumus normalisasi yang ditampilkan di formulir kriteria
+const normalizationHint = (strategy: NormalizationStrategy, cost: boolean) => {
+  switch (strategy) {
+    case 'min-max':
+      return cost ? '(maks − x) / (maks − min) dari nilai yang ada.' : '(x − min) / (maks − min) dari nilai yang ada.';
+    case 'vector':
+      return cost ? '1 − x / √Σx² dari nilai yang ada.' : 'x / √Σx² dari nilai yang ada.';
+    case 'fixed':
+      return cost
+        ? '1 − (x − nilai minimum) / (nilai maksimum − nilai minimum) kriteria.'
+        : '(x − nilai minimum) / (nilai maksimum − nilai minimum) kriteria.';
+    case 'rubric':
+      return 'Nilai dikonversi menurut rubrik; arah benefit/cost ditentukan oleh nilai rubrik.';
+    default:
+      return cost
+        ? 'min / x, atau (maks − x) / (maks − min) bila ada nilai 0 (mis. jumlah absen, poin pelanggaran).'
+        : 'x / maks dari nilai yang ada.';
+  }
+};
+
+type WeightingMode = 'crisp' | 'fuzzy';
+
+const weightingModeLabels: {[mode in WeightingMode]: string} = {
+  crisp: 'AHP (Crisp)',
+  fuzzy: 'Fuzzy AHP'
+};
+
+interface CriteriaManagementProps {
+  role: Role;
+}
+
+const CriteriaManagement = ({ role }: CriteriaManagementProps) => {
+  const canManage = can(role, 'criteria.manage');
+  const canEvaluate = can(role, 'criteria.evaluate');
   const [criteria, setCriteria] = useState<Criteria[]>([]);
   const [loading, setLoading] = useState(true);
   const [pairwiseMatrix, setPairwiseMatrix] = useState<number[][]>([]);
-  const [savingMatrix, setSavingMatrix] = useState(false);
+  const [ownWeights, setOwnWeights] = useState<number[] | null>(null);
   const [consistencyRatio, setConsistencyRatio] = useState<number | null>(null);
   const [isConsistent, setIsConsistent] = useState<boolean | null>(null);
+  const [consistencyDetail, setConsistencyDetail] = useState<ConsistencyResult | null>(null);
+  const [suggestions, setSuggestions] = useState<ConsistencySuggestion[]>([]);
+  const [applyingSuggestion, setApplyingSuggestion] = useState(false);
+  const [priorityMethod, setPriorityMethod] = useState<PriorityMethod>('eigenvector');
+  const [weightingMode, setWeightingMode] = useState<WeightingMode>('crisp');
+  const [fuzzyMethod, setFuzzyMethod] = useState<FuzzyMethod>('buckley');
+  const [fuzzyWeights, setFuzzyWeights] = useState<FuzzyNumber[] | null>(null);
+  const [savingFuzzy, setSavingFuzzy] = useState(false);
+  const [formData, setFormData] = useState(emptyForm);
+  const [editingId, setEditingId] = useState<string | null>(null);
+  const [isDialogOpen, setIsDialogOpen] = useState(false);
+  const [savingCriteria, setSavingCriteria] = useState(false);
+  const [deleteTarget, setDeleteTarget] = useState<Criteria | null>(null);
+  const [evaluatorId, setEvaluatorId] = useState<string | null>(null);
+  const [groupKey, setGroupKey] = useState(0);
+  const [selectedNode, setSelectedNode] = useState(ROOT_NODE);
 
-  const ahpScale = [
-    { value: 9, label: '9 - Mutlak lebih penting' },
-    { value: 8, label: '8 - Sangat lebih penting (+)' },
-    { value: 7, label: '7 - Sangat lebih penting' },
-    { value: 6, label: '6 - Lebih penting (+)' },
-    { value: 5, label: '5 - Lebih penting' },
-    { value: 4, label: '4 - Agak lebih penting (+)' },
-    { value: 3, label: '3 - Agak lebih penting' },
-    { value: 2, label: '2 - Sama penting (+)' },
-    { value: 1, label: '1 - Sama penting' },
-    { value: 0.5, label: '1/2 - Sama penting (-)' },
-    { value: 0.33, label: '1/3 - Agak kurang penting' },
-    { value: 0.25, label: '1/4 - Agak kurang penting (-)' },
-    { value: 0.2, label: '1/5 - Kurang penting' },
-    { value: 0.17, label: '1/6 - Kurang penting (-)' },
-    { value: 0.14, label: '1/7 - Sangat kurang penting' },
-    { value: 0.13, label: '1/8 - Sangat kurang penting (-)' },
-    { value: 0.11, label: '1/9 - Mutlak kurang penting' }
-  ];
+  // Matriks yang sedang diisi: anak-anak langsung dari node terpilih
+  const comparisonNodes = getComparisonNodes(criteria);
+  const activeNode = comparisonNodes.some(node => node.id === selectedNode) ? selectedNode : ROOT_NODE;
+  const nodeCriteria = getChildren(criteria, activeNode === ROOT_NODE ? null : activeNode);
+  const activeNodeName = activeNode === ROOT_NODE ? 'Kriteria Utama' : getCriterionPath(criteria, activeNode);
+  const zeroWeightCriteria = fuzzyWeights && ownWeights && ownWeights.length === nodeCriteria.length
+    ? getZeroWeightIndices(ownWeights).map(index => nodeCriteria[index].name)
+    : [];
 
   useEffect(() => {
     fetchCriteria();
   }, []);
 
   useEffect(() => {
-    if (criteria.length > 0) {
+    if (nodeCriteria.length > 0) {
       initializeMatrix();
       fetchPairwiseValues();
     }
-  }, [criteria]);
+  }, [criteria, activeNode]);
 
   const fetchCriteria = async () => {
     try {
@@ -77,29 +192,28 @@ const CriteriaManagement = () => {
     }
   };
 
+  // Matriks perbandingan milik pengguna yang sedang login (penilaian individu)
   const fetchPairwiseValues = async () => {
-    if (criteria.length === 0) return;
+    if (nodeCriteria.length === 0) return;
 
     try {
+      const { data: { user } } = await supabase.auth.getUser();
+      if (!user) return;
+      setEvaluatorId(user.id);
+
       const { data, error } = await supabase
-        .from('criteria_comparison')
-        .select('criteria1_id, criteria2_id, value');
+        .from('evaluator_comparison')
+        .select('criteria1_id, criteria2_id, intensity, reciprocal')
+        .eq('evaluator_id', user.id);
 
       if (error) throw error;
 
       if (data && data.length > 0) {
-        const newMatrix = [...pairwiseMatrix];
-        
-        data.forEach(comparison => {
-          const i = criteria.findIndex(c => c.id === comparison.criteria1_id);
-          const j = criteria.findIndex(c => c.id === comparison.criteria2_id);
-          
-          if (i !== -1 && j !== -1) {
-            newMatrix[i][j] = comparison.value;
-            newMatrix[j][i] = 1 / comparison.value;
-          }
-        });
-        
+        const newMatrix = buildComparisonMatrix(
+          nodeCriteria.map(c => c.id),
+          data.map(c => ({ from: c.criteria1_id, to: c.criteria2_id, intensity: c.intensity, reciprocal: c.reciprocal }))
+        );
+
         setPairwiseMatrix(newMatrix);
       }
     } catch (error) {
@@ -108,50 +222,251 @@ const CriteriaManagement = () => {
   };
 
   const initializeMatrix = () => {
-    const size = criteria.length;
+    const size = nodeCriteria.length;
     const matrix = Array(size).fill(null).map(() => Array(size).fill(1));
     setPairwiseMatrix(matrix);
   };
 
+  // Bobot lokal kelompok yang anggotanya berubah tidak berlaku lagi; bobot global dihitung ulang
+  const invalidateWeights = async (parentIds: (string | null)[]) => {
+    const { data, error } = await supabase
+      .from('criteria')
+      .select('id, name, parent_id, local_weight');
+
+    if (error) throw error;
+
+    const latest = data || [];
+    const affected = latest.filter(c => parentIds.includes(c.parent_id ?? null));
+    await saveLocalWeights(latest, Object.fromEntries(affected.map(c => [c.id, null])), null);
+
+    resetEvaluation();
+  };
+
+  const resetEvaluation = () => {
+    setConsistencyRatio(null);
+    setIsConsistent(null);
+    setConsistencyDetail(null);
+    setSuggestions([]);
+    setOwnWeights(null);
+    setFuzzyWeights(null);
+  };
+
+  const resetForm = () => {
+    setFormData(emptyForm);
+    setEditingId(null);
+  };
+
+  const handleEdit = (criterion: Criteria) => {
+    setEditingId(criterion.id);
+    setFormData({
+      parentId: criterion.parent_id || ROOT_NODE,
+      name: criterion.name,
+      description: criterion.description || '',
+      type: criterion.type || 'benefit',
+      minScore: String(criterion.min_score ?? 0),
+      maxScore: String(criterion.max_score ?? 100),
+      normalization: getNormalization(criterion),
+      rubric: parseRubric(criterion.rubric).map(band => ({ min: String(band.min), value: String(band.value) }))
+    });
+    setIsDialogOpen(true);
+  };
+
+  const handleSubmit = async (e: React.FormEvent) => {
+    e.preventDefault();
+
+    const name = formData.name.trim();
+    const minScore = Number(formData.minScore);
+    const maxScore = Number(formData.maxScore);
+
+    if (!name) {
+      toast({
+        title: "Validasi Gagal",
+        description: "Nama kriteria tidak boleh kosong",
+        variant: "destructive",
+      });
+      return;
+    }
+
+    if (criteria.some(c => c.id !== editingId && c.name.toLowerCase() === name.toLowerCase())) {
+      toast({
+        title: "Validasi Gagal",
+        description: `Kriteria "${name}" sudah ada`,
+        variant: "destructive",
+      });
+      return;
+    }
+
+    if (isNaN(minScore) || isNaN(maxScore) || minScore >= maxScore) {
+      toast({
+        title: "Validasi Gagal",
+        description: "Nilai minimum harus lebih kecil dari nilai maksimum",
+        variant: "destructive",
+      });
+      return;
+    }
+
+    const parentId = formData.parentId === ROOT_NODE ? null : formData.parentId;
+
+    const rubric = formData.rubric
+      .filter(band => band.min.trim() !== '' && band.value.trim() !== '')
+      .map(band => ({ min: Number(band.min), value: Number(band.value) }));
+    if (
+      formData.normalization === 'rubric' &&
+      (rubric.length === 0 || rubric.some(band => isNaN(band.min) || isNaN(band.value) || band.value < 0 || band.value > 1))
+    ) {
+      toast({
+        title: "Validasi Gagal",
+        description: "Rubrik harus memiliki minimal satu baris dengan batas bawah dan nilai 0–1",
+        variant: "destructive",
+      });
+      return;
+    }
+
+    try {
+      setSavingCriteria(true);
+
+      const criteriaData = {
+        name,
+        description: formData.description.trim() || null,
+        type: formData.type,
+        min_score: minScore,
+        max_score: maxScore,
+        normalization: formData.normalization,
+        rubric: formData.normalization === 'rubric' ? rubric : null,
+        parent_id: parentId
+      };
+
+      if (editingId) {
+        const previousParentId = criteria.find(c => c.id === editingId)?.parent_id ?? null;
+        const { error } = await supabase
+          .from('criteria')
+          .update(criteriaData)
+          .eq('id', editingId);
+
+        if (error) throw error;
+
+        // Pindah induk mengubah dua kelompok perbandingan sekaligus
+        if (previousParentId !== parentId) {
+          await invalidateWeights([previousParentId, parentId]);
+        }
+      } else {
+        const { error } = await supabase
+          .from('criteria')
+          .insert(criteriaData);
+
+        if (error) throw error;
+
+        // Kriteria baru belum memiliki perbandingan, bobot kelompoknya harus dihitung ulang
+        await invalidateWeights([parentId]);
+      }
+
+      toast({
+        title: editingId ? "Kriteria Diperbarui" : "Kriteria Ditambahkan",
+        description: editingId
+          ? "Data kriteria berhasil diperbarui"
+          : "Kriteria baru ditambahkan. Lengkapi matriks perbandingan dan hitung ulang bobot.",
+      });
+
+      resetForm();
+      setIsDialogOpen(false);
+      fetchCriteria();
+    } catch (error) {
+      console.error('Error saving criteria:', error);
+      toast({
+        title: "Error",
+        description: "Gagal menyimpan data kriteria",
+        variant: "destructive",
+      });
+    } finally {
+      setSavingCriteria(false);
+    }
+  };
+
+  const handleDelete = async () => {
+    if (!deleteTarget) return;
+
+    try {
+      setSavingCriteria(true);
+
+      // Sub-kriteria ikut terhapus (cascade) beserta perbandingan dan nilainya
+      const ids = [deleteTarget.id, ...getDescendantIds(criteria, deleteTarget.id)].join(',');
+
+      // Hapus perbandingan berpasangan yang melibatkan kriteria ini
+      const { error: comparisonError } = await supabase
+        .from('criteria_comparison')
+        .delete()
+        .or(`criteria1_id.in.(${ids}),criteria2_id.in.(${ids})`);
+
+      if (comparisonError) throw comparisonError;
+
+      // Hapus nilai siswa untuk kriteria ini
+      const { error: scoresError } = await supabase
+        .from('student_scores')
+        .delete()
+        .in('criteria_id', ids.split(','));
+
+      if (scoresError) throw scoresError;
+
+      const { error } = await supabase
+        .from('criteria')
+        .delete()
+        .eq('id', deleteTarget.id);
+
+      if (error) throw error;
+
+      await invalidateWeights([deleteTarget.parent_id ?? null]);
+
+      toast({
+        title: "Kriteria Dihapus",
+        description: `Kriteria "${deleteTarget.name}" dihapus. Hitung ulang bobot kriteria.`,
+      });
+
+      fetchCriteria();
+    } catch (error) {
+      console.error('Error deleting criteria:', error);
+      toast({
+        title: "Error",
+        description: "Gagal menghapus kriteria",
+        variant: "destructive",
+      });
+    } finally {
+      setSavingCriteria(false);
+      setDeleteTarget(null);
+    }
+  };
+
   const updateMatrix = async (i: number, j: number, value: number) => {
     try {
-      const newMatrix = [...pairwiseMatrix];
+      const newMatrix = pairwiseMatrix.map(row => [...row]);
       newMatrix[i][j] = value;
       newMatrix[j][i] = 1 / value;
       setPairwiseMatrix(newMatrix);
 
       // Reset consistency status when matrix changes
-      setConsistencyRatio(null);
-      setIsConsistent(null);
+      resetEvaluation();
+
+      if (!evaluatorId) return newMatrix;
 
       // Save to database
-      const criteria1Id = criteria[i].id;
-      const criteria2Id = criteria[j].id;
+      const { from, to, intensity, reciprocal } = toCanonicalJudgment(nodeCriteria[i].id, nodeCriteria[j].id, value);
+      const { error } = await supabase
+        .from('evaluator_comparison')
+        .upsert(
+          {
+            evaluator_id: evaluatorId,
+            criteria1_id: from,
+            criteria2_id: to,
+            intensity,
+            reciprocal,
+            updated_at: new Date().toISOString()
+          },
+          { onConflict: 'evaluator_id,criteria1_id,criteria2_id' }
+        );
 
-      // Check if comparison exists
-      const { data: existingData } = await supabase
-        .from('criteria_comparison')
-        .select('id')
-        .eq('criteria1_id', criteria1Id)
-        .eq('criteria2_id', criteria2Id);
-
-      if (existingData && existingData.length > 0) {
-        // Update existing comparison
-        await supabase
-          .from('criteria_comparison')
-          .update({ value })
-          .eq('criteria1_id', criteria1Id)
-          .eq('criteria2_id', criteria2Id);
-      } else {
-        // Insert new comparison
-        await supabase
-          .from('criteria_comparison')
-          .insert({
-            criteria1_id: criteria1Id,
-            criteria2_id: criteria2Id,
-            value
-          });
-      }
+      if (error) throw error;
+
+      setGroupKey(key => key + 1);
+      return newMatrix;
     } catch (error) {
       console.error('Error updating matrix:', error);
       toast({
@@ -159,136 +474,123 @@ const CriteriaManagement = () => {
         description: "Gagal menyimpan perbandingan",
         variant: "destructive",
       });
+      return null;
     }
   };
 
-  const calculateWeights = async () => {
-    try {
-      setSavingMatrix(true);
-      // Normalisasi matriks
-      const normalizedMatrix = pairwiseMatrix.map((row, i) => {
-        const columnSum = pairwiseMatrix.reduce((sum, r) => sum + r[i], 0);
-        return row.map(value => value / columnSum);
+  // Evaluasi konsistensi penilaian sendiri; bobot resmi ditetapkan lewat Penilaian Kelompok
+  const calculateWeights = (matrix: number[][] = pairwiseMatrix) => {
+    const { weights, lambdaMax, ci, ri, cr } = calculatePriorities(matrix, priorityMethod);
+    // Mode fuzzy: bobot dari bilangan fuzzy segitiga, konsistensi tetap dari matriks crisp
+    const fuzzy = weightingMode === 'fuzzy' ? calculateFuzzyWeights(matrix, fuzzyMethod) : null;
+
+    setOwnWeights(fuzzy ? fuzzy.weights : weights);
+    setFuzzyWeights(fuzzy ? fuzzy.fuzzyWeights : null);
+    setConsistencyRatio(cr);
+    setIsConsistent(cr <= CONSISTENCY_THRESHOLD);
+    setConsistencyDetail({ lambdaMax, ci, ri, cr });
+    setSuggestions(cr > CONSISTENCY_THRESHOLD ? suggestConsistencyImprovements(matrix, priorityMethod) : []);
+
+    console.log('Method:', fuzzy ? fuzzyMethod : priorityMethod);
+    console.log('Weights:', fuzzy ? fuzzy.weights : weights);
+    console.log('Lambda Max:', lambdaMax);
+    console.log('CI:', ci);
+    console.log('CR:', cr);
+
+    const zeroNames = fuzzy ? getZeroWeightIndices(fuzzy.weights).map(index => nodeCriteria[index].name) : [];
+    if (zeroNames.length > 0) {
+      toast({
+        title: "Peringatan",
+        description: `${fuzzyMethodLabels[fuzzyMethod]} memberi bobot 0 pada ${zeroNames.join(', ')}`,
+        variant: "destructive",
+      });
+    } else if (cr <= CONSISTENCY_THRESHOLD) {
+      toast({
+        title: "Perhitungan Berhasil",
+        description: `Consistency Ratio: ${(cr * 100).toFixed(2)}% (Konsisten - Sangat Baik!)`,
+      });
+    } else {
+      toast({
+        title: "Peringatan",
+        description: `Consistency Ratio: ${(cr * 100).toFixed(2)}% (Tidak Konsisten - Perbaiki Perbandingan!)`,
+        variant: "destructive",
       });
+    }
+  };
 
-      // Hitung eigen vector (rata-rata baris)
-      const weights = normalizedMatrix.map(row => 
-        row.reduce((sum, value) => sum + value, 0) / row.length
-      );
+  // Fuzzy AHP dihitung pada matriks kelompok (criteria_comparison) yang sudah ditetapkan lewat
+  // Penilaian Kelompok; matriks tersebut tidak diubah, hanya bobot lokal node yang diperbarui
+  const applyFuzzyWeights = async () => {
+    try {
+      setSavingFuzzy(true);
 
-      // Hitung Consistency Index (CI)
-      const lambda = weights.reduce((sum, weight, i) => {
-        const weightedSum = pairwiseMatrix[i].reduce((s, value, j) => s + value * weights[j], 0);
-        return sum + weightedSum / weight;
-      }, 0) / criteria.length;
-
-      const ci = (lambda - criteria.length) / (criteria.length - 1);
-      
-      // Random Index (RI) for different matrix sizes
-      const riValues = [0, 0, 0.58, 0.9, 1.12, 1.24, 1.32, 1.41, 1.45, 1.49];
-      const ri = criteria.length <= 10 ? riValues[criteria.length - 1] : 1.5;
-      
-      // Calculate Consistency Ratio
-      const cr = ci / ri;
-      
-      setConsistencyRatio(cr);
-      setIsConsistent(cr <= 0.1);
-      
-      console.log('Weights:', weights);
-      console.log('Lambda Max:', lambda);
-      console.log('CI:', ci);
-      console.log('CR:', cr);
-
-      // Save weights to database only if consistent or forced
-      if (cr <= 0.1) {
-        // Update weights in database
-        const updatedCriteria = criteria.map((criterion, index) => ({
-          ...criterion,
-          weight: weights[index]
-        }));
-
-        for (const criterion of updatedCriteria) {
-          await supabase
-            .from('criteria')
-            .update({ weight: criterion.weight })
-            .eq('id', criterion.id);
-        }
+      const ids = nodeCriteria.map(c => c.id);
+      const { data, error } = await supabase
+        .from('criteria_comparison')
+        .select('criteria1_id, criteria2_id, intensity, reciprocal')
+        .in('criteria1_id', ids)
+        .in('criteria2_id', ids);
 
-        setCriteria(updatedCriteria);
+      if (error) throw error;
 
+      const totalPairs = (ids.length * (ids.length - 1)) / 2;
+      if (!data || data.length < totalPairs) {
         toast({
-          title: "Perhitungan Berhasil",
-          description: `Consistency Ratio: ${(cr * 100).toFixed(2)}% (Konsisten - Sangat Baik!)`,
+          title: "Matriks Kelompok Belum Ada",
+          description: "Terapkan bobot Penilaian Kelompok untuk node ini terlebih dahulu, lalu terapkan Fuzzy AHP",
+          variant: "destructive",
         });
-        return { weights, cr, isConsistent: true };
-      } else {
+        return;
+      }
+
+      const groupMatrix = buildComparisonMatrix(
+        ids,
+        data.map(c => ({ from: c.criteria1_id, to: c.criteria2_id, intensity: c.intensity, reciprocal: c.reciprocal }))
+      );
+      const { weights, cr } = calculateFuzzyWeights(groupMatrix, fuzzyMethod);
+      console.log('Fuzzy group weights:', weights, 'CR:', cr);
+
+      const weightMethod: WeightMethod = fuzzyMethod === 'chang' ? 'fuzzy_chang' : 'fuzzy_buckley';
+      await saveLocalWeights(
+        criteria,
+        Object.fromEntries(nodeCriteria.map((criterion, index) => [criterion.id, weights[index]])),
+        weightMethod
+      );
+
+      const zeroNames = getZeroWeightIndices(weights).map(index => nodeCriteria[index].name);
+      if (zeroNames.length > 0) {
         toast({
           title: "Peringatan",
-          description: `Consistency Ratio: ${(cr * 100).toFixed(2)}% (Tidak Konsisten - Perbaiki Perbandingan!)`,
+          description: `Bobot fuzzy ${activeNodeName} diterapkan, tetapi ${zeroNames.join(', ')} mendapat bobot 0 sehingga tidak memengaruhi ranking. Pertimbangkan metode Buckley.`,
           variant: "destructive",
         });
-        return { weights, cr, isConsistent: false };
+      } else {
+        toast({
+          title: "Bobot Fuzzy Diterapkan",
+          description: `Bobot ${activeNodeName} dihitung dengan ${weightMethodLabels[weightMethod]} dari matriks kelompok, CR ${(cr * 100).toFixed(2)}%`,
+        });
       }
+
+      fetchCriteria();
     } catch (error) {
-      console.error('Error calculating weights:', error);
+      console.error('Error applying fuzzy weights:', error);
       toast({
         title: "Error",
-        description: "Gagal menghitung bobot kriteria",
+        description: "Gagal menerapkan bobot Fuzzy AHP",
         variant: "destructive",
       });
-      return null;
     } finally {
-      setSavingMatrix(false);
+      setSavingFuzzy(false);
     }
   };
 
-  const forceUpdateWeights = async () => {
-    if (consistencyRatio === null) return;
-    
-    try {
-      setSavingMatrix(true);
-      
-      // Normalisasi matriks
-      const normalizedMatrix = pairwiseMatrix.map((row, i) => {
-        const columnSum = pairwiseMatrix.reduce((sum, r) => sum + r[i], 0);
-        return row.map(value => value / columnSum);
-      });
-
-      // Hitung eigen vector (rata-rata baris)
-      const weights = normalizedMatrix.map(row => 
-        row.reduce((sum, value) => sum + value, 0) / row.length
-      );
-      
-      // Update weights in database despite inconsistency
-      const updatedCriteria = criteria.map((criterion, index) => ({
-        ...criterion,
-        weight: weights[index]
-      }));
-
-      for (const criterion of updatedCriteria) {
-        await supabase
-          .from('criteria')
-          .update({ weight: criterion.weight })
-          .eq('id', criterion.id);
-      }
+  // Terapkan satu saran lalu hitung ulang agar saran berikutnya memakai matriks terbaru
+  const applySuggestion = async (suggestion: ConsistencySuggestion) => {
+    setApplyingSuggestion(true);
+    const newMatrix = await updateMatrix(suggestion.row, suggestion.col, suggestion.suggested);
+    setApplyingSuggestion(false);
 
-      setCriteria(updatedCriteria);
-      
-      toast({
-        title: "Bobot Tersimpan",
-        description: `Bobot tersimpan meskipun CR: ${(consistencyRatio * 100).toFixed(2)}% (tidak konsisten)`,
-      });
-      
-    } catch (error) {
-      console.error('Error forcing weights update:', error);
-      toast({
-        title: "Error",
-        description: "Gagal memperbarui bobot kriteria",
-        variant: "destructive",
-      });
-    } finally {
-      setSavingMatrix(false);
-    }
+    if (newMatrix) calculateWeights(newMatrix);
   };
 
   if (loading) {
@@ -302,18 +604,252 @@ const CriteriaManagement = () => {
   return (
     <div className="space-y-6">
       <Card>
-        <CardHeader>
+        <CardHeader className="flex flex-row items-center justify-between">
           <CardTitle>Kriteria Penilaian</CardTitle>
+          <Dialog open={isDialogOpen} onOpenChange={setIsDialogOpen}>
+            {canManage && (
+              <DialogTrigger asChild>
+                <Button onClick={resetForm} className="flex items-center">
+                  <Plus className="h-4 w-4 mr-2" />
+                  Tambah Kriteria
+                </Button>
+              </DialogTrigger>
+            )}
+            <DialogContent className="max-w-md">
+              <DialogHeader>
+                <DialogTitle>
+                  {editingId ? 'Edit Kriteria' : 'Tambah Kriteria'}
+                </DialogTitle>
+              </DialogHeader>
+              <form onSubmit={handleSubmit} className="space-y-4">
+                <div>
+                  <Label htmlFor="criteria-parent">Induk Kriteria</Label>
+                  <Select
+                    value={formData.parentId}
+                    onValueChange={(value) => setFormData({...formData, parentId: value})}
+                  >
+                    <SelectTrigger id="criteria-parent">
+                      <SelectValue />
+                    </SelectTrigger>
+                    <SelectContent>
+                      <SelectItem value={ROOT_NODE}>— Kriteria Utama —</SelectItem>
+                      {criteria
+                        .filter(c => !editingId || (c.id !== editingId && !getDescendantIds(criteria, editingId).includes(c.id)))
+                        .map(c => (
+                          <SelectItem key={c.id} value={c.id}>{getCriterionPath(criteria, c.id)}</SelectItem>
+                        ))}
+                    </SelectContent>
+                  </Select>
+                  <p className="text-xs text-gray-500 mt-1">
+                    Nilai siswa hanya diisi pada kriteria tanpa sub-kriteria.
+                  </p>
+                </div>
+                <div>
+                  <Label htmlFor="criteria-name">Nama Kriteria</Label>
+                  <Input
+                    id="criteria-name"
+                    value={formData.name}
+                    onChange={(e) => setFormData({...formData, name: e.target.value})}
+                    required
+                  />
+                </div>
+                <div>
+                  <Label htmlFor="criteria-description">Deskripsi</Label>
+                  <Textarea
+                    id="criteria-description"
+                    value={formData.description}
+                    onChange={(e) => setFormData({...formData, description: e.target.value})}
+                  />
+                </div>
+                <div>
+                  <Label htmlFor="criteria-type">Jenis Kriteria</Label>
+                  <Select
+                    value={formData.type}
+                    onValueChange={(value) => setFormData({...formData, type: value})}
+                  >
+                    <SelectTrigger id="criteria-type">
+                      <SelectValue />
+                    </SelectTrigger>
+                    <SelectContent>
+                      {(Object.keys(criterionTypeLabels) as CriterionType[]).map(key => (
+                        <SelectItem key={key} value={key}>{criterionTypeLabels[key]}</SelectItem>
+                      ))}
+                    </SelectContent>
+                  </Select>
+                </div>
+                <div>
+                  <Label htmlFor="criteria-normalization">Normalisasi</Label>
+                  <Select
+                    value={formData.normalization}
+                    onValueChange={(value) => setFormData({...formData, normalization: value as NormalizationStrategy})}
+                  >
+                    <SelectTrigger id="criteria-normalization">
+                      <SelectValue />
+                    </SelectTrigger>
+                    <SelectContent>
+                      {(Object.keys(normalizationLabels) as NormalizationStrategy[]).map(key => (
+                        <SelectItem key={key} value={key}>{normalizationLabels[key]}</SelectItem>
+                      ))}
+                    </SelectContent>
+                  </Select>
+                  <p className="text-xs text-gray-500 mt-1">
+                    {normalizationHint(formData.normalization, formData.type === 'cost')}
+                  </p>
+                </div>
+                {formData.normalization === 'rubric' && (
+                  <div className="space-y-2">
+                    <Label>Rubrik (nilai ≥ batas bawah → nilai 0–1)</Label>
+                    {formData.rubric.map((band, index) => (
+                      <div key={index} className="flex items-center gap-2">
+                        <Input
+                          type="number"
+                          placeholder="Batas bawah"
+                          aria-label="Batas bawah"
+                          value={band.min}
+                          onChange={(e) => setFormData({
+                            ...formData,
+                            rubric: formData.rubric.map((b, i) => i === index ? { ...b, min: e.target.value } : b)
+                          })}
+                        />
+                        <Input
+                          type="number"
+                          step="0.01"
+                          min="0"
+                          max="1"
+                          placeholder="Nilai"
+                          aria-label="Nilai rubrik"
+                          value={band.value}
+                          onChange={(e) => setFormData({
+                            ...formData,
+                            rubric: formData.rubric.map((b, i) => i === index ? { ...b, value: e.target.value } : b)
+                          })}
+                        />
+                        <Button
+                          type="button"
+                          variant="outline"
+                          size="sm"
+                          onClick={() => setFormData({ ...formData, rubric: formData.rubric.filter((_, i) => i !== index) })}
+                        >
+                          <Trash2 className="h-4 w-4" />
+                        </Button>
+                      </div>
+                    ))}
+                    <Button
+                      type="button"
+                      variant="outline"
+                      size="sm"
+                      onClick={() => setFormData({ ...formData, rubric: [...formData.rubric, { min: '', value: '' }] })}
+                    >
+                      <Plus className="h-4 w-4 mr-1" />
+                      Tambah Baris
+                    </Button>
+                  </div>
+                )}
+                <div className="grid grid-cols-2 gap-2">
+                  <div>
+                    <Label htmlFor="criteria-min">Nilai Minimum</Label>
+                    <Input
+                      id="criteria-min"
+                      type="number"
+                      value={formData.minScore}
+                      onChange={(e) => setFormData({...formData, minScore: e.target.value})}
+                      required
+                    />
+                  </div>
+                  <div>
+                    <Label htmlFor="criteria-max">Nilai Maksimum</Label>
+                    <Input
+                      id="criteria-max"
+                      type="number"
+                      value={formData.maxScore}
+                      onChange={(e) => setFormData({...formData, maxScore: e.target.value})}
+                      required
+                    />
+                  </div>
+                </div>
+                {!editingId && criteria.length > 0 && (
+                  <p className="text-xs text-amber-700">
+                    Menambah kriteria akan menghapus bobot kelompoknya. Lengkapi matriks perbandingan lalu hitung ulang bobot.
+                  </p>
+                )}
+                <Button type="submit" className="w-full" disabled={savingCriteria}>
+                  {savingCriteria ? 'Menyimpan...' : editingId ? 'Update' : 'Simpan'}
+                </Button>
+              </form>
+            </DialogContent>
+          </Dialog>
         </CardHeader>
         <CardContent>
-          <div className="grid grid-cols-1 md:grid-cols-2 lg:grid-cols-3 gap-4">
-            {criteria.map((criterion) => (
-              <div key={criterion.id} className="p-4 border rounded-lg bg-gray-50">
-                <h3 className="font-semibold text-gray-900">{criterion.name}</h3>
+          {criteria.length === 0 && (
+            <p className="text-center py-6 text-gray-500">
+              Belum ada kriteria. Klik "Tambah Kriteria" untuk menambahkan data.
+            </p>
+          )}
+          <div className="space-y-2">
+            {flattenTree(criteria).map(({ criterion, depth }) => (
+              <div
+                key={criterion.id}
+                className="p-4 border rounded-lg bg-gray-50"
+                style={{ marginLeft: depth * 24 }}
+              >
+                <div className="flex items-start justify-between">
+                  <h3 className="font-semibold text-gray-900 flex items-center">
+                    {depth > 0 && <CornerDownRight className="h-4 w-4 mr-1 text-gray-400" />}
+                    {criterion.name}
+                  </h3>
+                  {canManage && (
+                    <div className="flex space-x-1">
+                      <Button
+                        variant="outline"
+                        size="sm"
+                        title="Tambah Sub-kriteria"
+                        onClick={() => {
+                          resetForm();
+                          setFormData({ ...emptyForm, parentId: criterion.id });
+                          setIsDialogOpen(true);
+                        }}
+                      >
+                        <Plus className="h-4 w-4" />
+                      </Button>
+                      <Button
+                        variant="outline"
+                        size="sm"
+                        onClick={() => handleEdit(criterion)}
+                      >
+                        <Edit className="h-4 w-4" />
+                      </Button>
+                      <Button
+                        variant="outline"
+                        size="sm"
+                        onClick={() => setDeleteTarget(criterion)}
+                      >
+                        <Trash2 className="h-4 w-4" />
+                      </Button>
+                    </div>
+                  )}
+                </div>
                 <p className="text-sm text-gray-600 mt-1">{criterion.description}</p>
+                <div className="flex items-center gap-2 mt-2">
+                  <Badge variant={criterion.type === 'cost' ? 'destructive' : 'secondary'}>
+                    {criterion.type === 'cost' ? 'Cost' : 'Benefit'}
+                  </Badge>
+                  <span className="text-xs text-gray-500">
+                    Rentang {criterion.min_score}–{criterion.max_score} · {normalizationLabels[getNormalization(criterion)]}
+                  </span>
+                </div>
                 {criterion.weight !== undefined && criterion.weight > 0 && (
                   <p className="text-sm font-semibold text-blue-700 mt-2">
                     Bobot: {(criterion.weight * 100).toFixed(2)}%
+                    {depth > 0 && criterion.local_weight != null && (
+                      <span className="ml-1 text-xs font-normal text-gray-500">
+                        (lokal {(criterion.local_weight * 100).toFixed(2)}%)
+                      </span>
+                    )}
+                    {criterion.weight_method && criterion.weight_method in weightMethodLabels && (
+                      <span className="ml-1 text-xs font-normal text-gray-500">
+                        ({weightMethodLabels[criterion.weight_method as WeightMethod]})
+                      </span>
+                    )}
                   </p>
                 )}
               </div>
@@ -322,12 +858,54 @@ const CriteriaManagement = () => {
         </CardContent>
       </Card>
 
+      <AlertDialog open={deleteTarget !== null} onOpenChange={(open) => !open && setDeleteTarget(null)}>
+        <AlertDialogContent>
+          <AlertDialogHeader>
+            <AlertDialogTitle>Hapus Kriteria {deleteTarget?.name}?</AlertDialogTitle>
+            <AlertDialogDescription>
+              Seluruh sub-kriteria, perbandingan berpasangan, dan nilai siswa untuk kriteria ini akan ikut dihapus.
+              Bobot kelompoknya direset sehingga matriks perbandingan harus diisi dan dihitung ulang.
+            </AlertDialogDescription>
+          </AlertDialogHeader>
+          <AlertDialogFooter>
+            <AlertDialogCancel disabled={savingCriteria}>Batal</AlertDialogCancel>
+            <AlertDialogAction onClick={handleDelete} disabled={savingCriteria}>
+              Hapus
+            </AlertDialogAction>
+          </AlertDialogFooter>
+        </AlertDialogContent>
+      </AlertDialog>
+
       <Card>
         <CardHeader>
-          <CardTitle>Matriks Perbandingan Berpasangan</CardTitle>
+          <CardTitle>Matriks Perbandingan Berpasangan (Penilaian Saya)</CardTitle>
           <p className="text-sm text-gray-600">
-            Bandingkan setiap kriteria dengan kriteria lainnya menggunakan skala AHP
+            Bandingkan setiap kriteria dengan kriteria lainnya menggunakan skala AHP.
+            Bobot resmi ditetapkan admin dari gabungan penilaian seluruh panitia.
           </p>
+          {comparisonNodes.length > 1 && (
+            <div className="w-full md:w-72 pt-2">
+              <Label htmlFor="comparison-node">Kelompok Perbandingan</Label>
+              <Select
+                value={activeNode}
+                onValueChange={(value) => {
+                  setSelectedNode(value);
+                  resetEvaluation();
+                }}
+              >
+                <SelectTrigger id="comparison-node">
+                  <SelectValue />
+                </SelectTrigger>
+                <SelectContent>
+                  {comparisonNodes.map(node => (
+                    <SelectItem key={node.id} value={node.id}>
+                      {node.id === ROOT_NODE ? node.name : getCriterionPath(criteria, node.id)}
+                    </SelectItem>
+                  ))}
+                </SelectContent>
+              </Select>
+            </div>
+          )}
         </CardHeader>
         <CardContent>
           <div className="overflow-x-auto">
@@ -335,7 +913,7 @@ const CriteriaManagement = () => {
               <thead>
                 <tr>
                   <th className="border p-2 bg-gray-50">Kriteria</th>
-                  {criteria.map((c) => (
+                  {nodeCriteria.map((c) => (
                     <th key={c.id} className="border p-2 bg-gray-50 text-sm">
                       {c.name}
                     </th>
@@ -343,34 +921,42 @@ const CriteriaManagement = () => {
                 </tr>
               </thead>
               <tbody>
-                {criteria.map((rowCriteria, i) => (
+                {nodeCriteria.map((rowCriteria, i) => (
                   <tr key={rowCriteria.id}>
                     <td className="border p-2 font-medium bg-gray-50">
                       {rowCriteria.name}
                     </td>
-                    {criteria.map((colCriteria, j) => (
+                    {nodeCriteria.map((colCriteria, j) => (
                       <td key={colCriteria.id} className="border p-1">
                         {i === j ? (
                           <div className="text-center py-2">1</div>
                         ) : i < j ? (
-                          <Select
-                            value={pairwiseMatrix[i] && pairwiseMatrix[i][j] ? pairwiseMatrix[i][j].toString() : "1"}
-                            onValueChange={(value) => updateMatrix(i, j, parseFloat(value))}
-                          >
-                            <SelectTrigger className="w-full">
-                              <SelectValue />
-                            </SelectTrigger>
-                            <SelectContent>
-                              {ahpScale.map((scale) => (
-                                <SelectItem key={scale.value} value={scale.value.toString()}>
-                                  {scale.label}
-                                </SelectItem>
-                              ))}
-                            </SelectContent>
-                          </Select>
+                          <>
+                            <Select
+                              value={pairwiseMatrix[i] && pairwiseMatrix[i][j] ? judgmentKey(pairwiseMatrix[i][j]) : "1"}
+                              onValueChange={(value) => updateMatrix(i, j, parseJudgment(value))}
+                              disabled={!canEvaluate}
+                            >
+                              <SelectTrigger className="w-full">
+                                <SelectValue />
+                              </SelectTrigger>
+                              <SelectContent>
+                                {ahpScale.map((scale) => (
+                                  <SelectItem key={scale.value} value={judgmentKey(scale.value)}>
+                                    {scale.label}
+                                  </SelectItem>
+                                ))}
+                              </SelectContent>
+                            </Select>
+                            {weightingMode === 'fuzzy' && pairwiseMatrix[i] && pairwiseMatrix[i][j] && (
+                              <div className="text-[10px] text-center text-gray-500 mt-1">
+                                {formatFuzzyNumber(fuzzifyJudgment(pairwiseMatrix[i][j]))}
+                              </div>
+                            )}
+                          </>
                         ) : (
                           <div className="text-center py-2 text-gray-600">
-                            {pairwiseMatrix[i] && pairwiseMatrix[i][j] ? pairwiseMatrix[i][j].toFixed(2) : ""}
+                            {pairwiseMatrix[i] && pairwiseMatrix[i][j] ? judgmentKey(pairwiseMatrix[i][j]) : ""}
                           </div>
                         )}
                       </td>
@@ -389,40 +975,163 @@ const CriteriaManagement = () => {
               </AlertTitle>
               <AlertDescription className={isConsistent ? 'text-green-700' : 'text-amber-700'}>
                 <p><strong>Consistency Ratio (CR): {(consistencyRatio * 100).toFixed(2)}%</strong></p>
+                {consistencyDetail && (
+                  <div className="grid grid-cols-2 md:grid-cols-4 gap-2 mt-2 text-sm">
+                    <div>λ maks: <strong>{consistencyDetail.lambdaMax.toFixed(4)}</strong></div>
+                    <div>CI: <strong>{consistencyDetail.ci.toFixed(4)}</strong></div>
+                    <div>RI: <strong>{consistencyDetail.ri.toFixed(2)}</strong></div>
+                    <div>CR: <strong>{consistencyDetail.cr.toFixed(4)}</strong></div>
+                  </div>
+                )}
+                {ownWeights && ownWeights.length === nodeCriteria.length && (
+                  <div className="flex flex-wrap gap-x-4 gap-y-1 mt-2 text-sm">
+                    {nodeCriteria.map((criterion, index) => (
+                      <span key={criterion.id}>{criterion.name}: <strong>{(ownWeights[index] * 100).toFixed(2)}%</strong></span>
+                    ))}
+                  </div>
+                )}
+                {fuzzyWeights && fuzzyWeights.length === nodeCriteria.length && (
+                  <div className="mt-2 text-sm space-y-1">
+                    <p className="font-semibold">Bobot fuzzy (l, m, u):</p>
+                    {nodeCriteria.map((criterion, index) => (
+                      <div key={criterion.id}>
+                        {criterion.name}: ({fuzzyWeights[index].map(value => value.toFixed(3)).join(', ')})
+                      </div>
+                    ))}
+                  </div>
+                )}
+                <p className="text-xs mt-1">
+                  Metode: {fuzzyWeights ? fuzzyMethodLabels[fuzzyMethod] : priorityMethodLabels[priorityMethod]}
+                </p>
+                {zeroWeightCriteria.length > 0 && (
+                  <p className="mt-2 text-sm font-semibold text-red-700">
+                    Bobot 0 pada {zeroWeightCriteria.join(', ')}: extent kriteria tersebut tidak beririsan dengan kriteria lain,
+                    sehingga kriteria itu tidak akan memengaruhi ranking. Pertimbangkan metode Buckley.
+                  </p>
+                )}
+                {fuzzyWeights && canManage && (
+                  <>
+                    <Button
+                      size="sm"
+                      className="mt-2"
+                      onClick={applyFuzzyWeights}
+                      disabled={savingFuzzy}
+                    >
+                      {savingFuzzy ? 'Menyimpan...' : 'Terapkan Fuzzy AHP ke Matriks Kelompok'}
+                    </Button>
+                    <p className="text-xs mt-1">
+                      Bobot resmi dihitung dari matriks kelompok hasil Penilaian Kelompok, bukan dari penilaian Anda di atas.
+                    </p>
+                  </>
+                )}
                 {isConsistent ? (
                   <p className="mt-1">Sangat baik! CR kurang dari 10% menunjukkan perbandingan yang konsisten dan dapat diandalkan.</p>
                 ) : (
                   <div className="mt-2">
                     <p>CR melebihi 10% (0.1). Sebaiknya perbaiki perbandingan berpasangan agar lebih konsisten.</p>
+                    {suggestions.length > 0 && (
+                      <div className="mt-3 space-y-2">
+                        <p className="text-sm font-semibold">Saran perbaikan (penilaian paling tidak konsisten):</p>
+                        {suggestions.map(suggestion => (
+                          <div
+                            key={`${suggestion.row}-${suggestion.col}`}
+                            className="flex flex-col md:flex-row md:items-center justify-between gap-2 p-2 bg-white/60 rounded border border-amber-200 text-sm"
+                          >
+                            <div>
+                              <strong>{nodeCriteria[suggestion.row]?.name}</strong> vs <strong>{nodeCriteria[suggestion.col]?.name}</strong>:{' '}
+                              ubah {judgmentKey(suggestion.current)} → <strong>{judgmentKey(suggestion.suggested)}</strong>
+                              <span className="block text-xs">
+                                Rasio bobot w<sub>i</sub>/w<sub>j</sub> = {suggestion.implied.toFixed(2)} · Prediksi CR: {(suggestion.predictedCr * 100).toFixed(2)}%
+                                {suggestion.predictedCr <= CONSISTENCY_THRESHOLD && ' (konsisten)'}
+                              </span>
+                            </div>
+                            {canEvaluate && (
+                              <Button
+                                size="sm"
+                                variant="outline"
+                                onClick={() => applySuggestion(suggestion)}
+                                disabled={applyingSuggestion}
+                              >
+                                Terapkan
+                              </Button>
+                            )}
+                          </div>
+                        ))}
+                      </div>
+                    )}
                     <p className="text-sm mt-1">
                       <strong>Panduan CR:</strong><br/>
                       • 0-5%: Sangat konsisten<br/>
                       • 5-10%: Konsisten (dapat diterima)<br/>
                       • &gt;10%: Tidak konsisten (perlu diperbaiki)
                     </p>
-                    <Button 
-                      variant="outline" 
-                      className="mt-3" 
-                      onClick={forceUpdateWeights}
-                      disabled={savingMatrix}
-                    >
-                      {savingMatrix ? 'Menyimpan...' : 'Gunakan Bobot Meskipun Tidak Konsisten'}
-                    </Button>
                   </div>
                 )}
               </AlertDescription>
             </Alert>
           )}
           
-          <div className="mt-6 flex justify-center">
-            <Button 
-              onClick={calculateWeights} 
-              className="px-8" 
-              disabled={savingMatrix}
-            >
-              {savingMatrix ? 'Memproses...' : 'Hitung Bobot Kriteria'}
-            </Button>
-          </div>
+          {canEvaluate && (
+            <div className="mt-6 flex flex-col md:flex-row items-center justify-center gap-4">
+              <Select
+                value={weightingMode}
+                onValueChange={(value) => {
+                  setWeightingMode(value as WeightingMode);
+                  resetEvaluation();
+                }}
+              >
+                <SelectTrigger className="w-full md:w-44" aria-label="Mode pembobotan">
+                  <SelectValue />
+                </SelectTrigger>
+                <SelectContent>
+                  {(Object.keys(weightingModeLabels) as WeightingMode[]).map(key => (
+                    <SelectItem key={key} value={key}>{weightingModeLabels[key]}</SelectItem>
+                  ))}
+                </SelectContent>
+              </Select>
+              {weightingMode === 'fuzzy' ? (
+                <Select
+                  value={fuzzyMethod}
+                  onValueChange={(value) => {
+                    setFuzzyMethod(value as FuzzyMethod);
+                    resetEvaluation();
+                  }}
+                >
+                  <SelectTrigger className="w-full md:w-72" aria-label="Metode Fuzzy AHP">
+                    <SelectValue />
+                  </SelectTrigger>
+                  <SelectContent>
+                    {(Object.keys(fuzzyMethodLabels) as FuzzyMethod[]).map(key => (
+                      <SelectItem key={key} value={key}>{fuzzyMethodLabels[key]}</SelectItem>
+                    ))}
+                  </SelectContent>
+                </Select>
+              ) : (
+                <Select
+                  value={priorityMethod}
+                  onValueChange={(value) => {
+                    setPriorityMethod(value as PriorityMethod);
+                    resetEvaluation();
+                  }}
+                >
+                  <SelectTrigger className="w-full md:w-72" aria-label="Metode vektor prioritas">
+                    <SelectValue />
+                  </SelectTrigger>
+                  <SelectContent>
+                    {(Object.keys(priorityMethodLabels) as PriorityMethod[]).map(key => (
+                      <SelectItem key={key} value={key}>{priorityMethodLabels[key]}</SelectItem>
+                    ))}
+                  </SelectContent>
+                </Select>
+              )}
+              <Button 
+                onClick={() => calculateWeights()}
+                className="px-8"
+              >
+                Hitung Bobot Kriteria
+              </Button>
+            </div>
+          )}
 
           <div className="mt-4 p-4 bg-blue-50 rounded-lg">
             <h4 className="font-semibold text-blue-900 mb-2">Petunjuk Skala AHP:</h4>
@@ -434,12 +1143,29 @@ const CriteriaManagement = () => {
               <div>• 9 = Mutlak lebih penting</div>
               <div>• 2,4,6,8 = Nilai antara</div>
             </div>
+            {weightingMode === 'fuzzy' && (
+              <p className="text-xs text-blue-700 mt-2">
+                Pada mode Fuzzy AHP setiap nilai k diubah menjadi bilangan fuzzy segitiga (k-1, k, k+1);
+                nilai 1 menjadi (1, 1, 1) dan nilai 9 menjadi (9, 9, 9).
+              </p>
+            )}
             <p className="text-xs text-blue-600 mt-2">
               <strong>Tips:</strong> Mulai dengan perbandingan yang jelas, lalu sesuaikan secara bertahap untuk mencapai CR &lt; 10%
             </p>
           </div>
         </CardContent>
       </Card>
+
+      {canManage && nodeCriteria.length > 1 && (
+        <GroupAHP
+          criteria={nodeCriteria}
+          allCriteria={criteria}
+          nodeName={activeNodeName}
+          priorityMethod={priorityMethod}
+          refreshKey={groupKey}
+          onApplied={fetchCriteria}
+        />
+      )}
     </div>
   );
 };
@@ -2,6 +2,7 @@ import { useState, useEffect } from 'react';
 import { Button } from '@/components/ui/button';
 import { Card, CardContent, CardHeader, CardTitle } from '@/components/ui/card';
 import { Tabs, TabsContent, TabsList, TabsTrigger } from '@/components/ui/tabs';
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from '@/components/ui/select';
 import { 
   Users, 
   Trophy, 
@@ -10,14 +11,40 @@ import {
   LogOut, 
   GraduationCap,
   Settings,
-  FileText
+  FileText,
+  UserCog,
+  Sheet
 } from 'lucide-react';
 import { supabase } from '@/integrations/supabase/client';
 import StudentManagement from './StudentManagement';
+import ScoreGrid from './ScoreGrid';
 import CriteriaManagement from './CriteriaManagement';
 import AHPCalculation from './AHPCalculation';
 import RankingResults from './RankingResults';
+import PeriodManagement from './PeriodManagement';
+import UserManagement from './UserManagement';
 import { toast } from '@/hooks/use-toast';
+import { fetchActiveSession } from '@/lib/sessions';
+import { AcademicPeriod, formatPeriod, sortPeriods } from '@/lib/periods';
+import { Permission, can, normalizeRole, roleLabels } from '@/lib/permissions';
+
+// Tab yang membutuhkan izin tertentu; tab lain terbuka untuk semua peran
+const tabPermissions: {[tab: string]: Permission} = {
+  students: 'students.view',
+  scores: 'students.view',
+  criteria: 'criteria.view',
+  calculation: 'calculation.view',
+  users: 'users.manage'
+};
+
+const tabColumns: {[count: number]: string} = {
+  2: 'grid-cols-2',
+  3: 'grid-cols-3',
+  4: 'grid-cols-4',
+  5: 'grid-cols-5',
+  6: 'grid-cols-6',
+  7: 'grid-cols-7'
+};
 
 interface DashboardProps {
   user: { username: string; role: string } | null;
@@ -33,18 +60,63 @@ const Dashboard = ({ user, onLogout }: DashboardProps) => {
     topStudents: 0
   });
   const [loading, setLoading] = useState(true);
+  const [periods, setPeriods] = useState<AcademicPeriod[]>([]);
+  const [periodId, setPeriodId] = useState<string | null>(null);
+
+  const role = normalizeRole(user?.role);
+  const canOpenTab = (tab: string) => !tabPermissions[tab] || can(role, tabPermissions[tab]);
+  const visibleTabCount = ['overview', 'students', 'scores', 'criteria', 'calculation', 'results', 'users'].filter(canOpenTab).length;
 
   useEffect(() => {
-    fetchStats();
+    fetchPeriods();
   }, []);
 
+  useEffect(() => {
+    if (periodId) {
+      fetchStats();
+    }
+  }, [periodId]);
+
+  const fetchPeriods = async () => {
+    try {
+      const { data, error } = await supabase
+        .from('academic_periods')
+        .select('*');
+
+      if (error) throw error;
+
+      const sorted = sortPeriods(data || []);
+      setPeriods(sorted);
+
+      // Default ke periode aktif sekolah, selain itu periode terbaru
+      setPeriodId(current =>
+        current && sorted.some(p => p.id === current)
+          ? current
+          : (sorted.find(p => p.is_active) || sorted[0])?.id || null
+      );
+
+      if (sorted.length === 0) {
+        setLoading(false);
+      }
+    } catch (error) {
+      console.error('Error fetching periods:', error);
+      toast({
+        title: "Error",
+        description: "Gagal memuat periode penilaian",
+        variant: "destructive",
+      });
+      setLoading(false);
+    }
+  };
+
   const fetchStats = async () => {
     try {
       setLoading(true);
       // Get student count
       const { count: studentCount, error: studentError } = await supabase
         .from('students')
-        .select('*', { count: 'exact', head: true });
+        .select('*', { count: 'exact', head: true })
+        .eq('period_id', periodId);
 
       if (studentError) throw studentError;
 
@@ -55,20 +127,27 @@ const Dashboard = ({ user, onLogout }: DashboardProps) => {
 
       if (criteriaError) throw criteriaError;
 
-      // Get AHP calculations count
+      // Get AHP calculations count (one per saved session)
       const { count: calculationsCount, error: calcError } = await supabase
-        .from('ahp_results')
-        .select('*', { count: 'exact', head: true });
+        .from('calculation_sessions')
+        .select('*', { count: 'exact', head: true })
+        .eq('period_id', periodId);
 
       if (calcError) throw calcError;
 
-      // Get top students count (with rank <= 10)
-      const { count: topStudentsCount, error: topError } = await supabase
-        .from('ahp_results')
-        .select('*', { count: 'exact', head: true })
-        .lte('rank', 10);
+      // Get top students count (with rank <= 10) from the official or latest session
+      let topStudentsCount = 0;
+      const activeSession = await fetchActiveSession(periodId);
+      if (activeSession) {
+        const { count, error: topError } = await supabase
+          .from('ahp_results')
+          .select('*', { count: 'exact', head: true })
+          .eq('session_id', activeSession.id)
+          .lte('rank', 10);
 
-      if (topError) throw topError;
+        if (topError) throw topError;
+        topStudentsCount = count || 0;
+      }
 
       setStats({
         students: studentCount || 0,
@@ -109,7 +188,24 @@ const Dashboard = ({ user, onLogout }: DashboardProps) => {
               </div>
             </div>
             <div className="flex items-center space-x-4">
-              <span className="text-sm text-gray-700">Selamat datang, {user?.username}</span>
+              <Select value={periodId || undefined} onValueChange={setPeriodId}>
+                <SelectTrigger className="w-48" aria-label="Periode penilaian">
+                  <SelectValue placeholder="Pilih periode" />
+                </SelectTrigger>
+                <SelectContent>
+                  {periods.map(period => (
+                    <SelectItem key={period.id} value={period.id}>
+                      {formatPeriod(period)}{period.is_active ? ' (aktif)' : ''}
+                    </SelectItem>
+                  ))}
+                </SelectContent>
+              </Select>
+              {can(role, 'periods.manage') && (
+                <PeriodManagement periods={periods} onChanged={fetchPeriods} />
+              )}
+              <span className="text-sm text-gray-700">
+                Selamat datang, {user?.username} ({roleLabels[role]})
+              </span>
               <Button 
                 variant="outline" 
                 size="sm" 
@@ -128,31 +224,49 @@ const Dashboard = ({ user, onLogout }: DashboardProps) => {
       <main className="max-w-7xl mx-auto px-4 sm:px-6 lg:px-8 py-8">
         <Tabs value={activeTab} onValueChange={(value) => {
           setActiveTab(value);
-          if (value === 'overview') {
+          if (value === 'overview' && periodId) {
             fetchStats();
           }
         }} className="w-full">
-          <TabsList className="grid w-full grid-cols-5 mb-8">
+          <TabsList className={`grid w-full ${tabColumns[visibleTabCount]} mb-8`}>
             <TabsTrigger value="overview" className="flex items-center">
               <BarChart3 className="h-4 w-4 mr-2" />
               Dashboard
             </TabsTrigger>
-            <TabsTrigger value="students" className="flex items-center">
-              <Users className="h-4 w-4 mr-2" />
-              Data Siswa
-            </TabsTrigger>
-            <TabsTrigger value="criteria" className="flex items-center">
-              <Settings className="h-4 w-4 mr-2" />
-              Kriteria
-            </TabsTrigger>
-            <TabsTrigger value="calculation" className="flex items-center">
-              <Calculator className="h-4 w-4 mr-2" />
-              Perhitungan AHP
-            </TabsTrigger>
+            {canOpenTab('students') && (
+              <TabsTrigger value="students" className="flex items-center">
+                <Users className="h-4 w-4 mr-2" />
+                Data Siswa
+              </TabsTrigger>
+            )}
+            {canOpenTab('scores') && (
+              <TabsTrigger value="scores" className="flex items-center">
+                <Sheet className="h-4 w-4 mr-2" />
+                Input Nilai
+              </TabsTrigger>
+            )}
+            {canOpenTab('criteria') && (
+              <TabsTrigger value="criteria" className="flex items-center">
+                <Settings className="h-4 w-4 mr-2" />
+                Kriteria
+              </TabsTrigger>
+            )}
+            {canOpenTab('calculation') && (
+              <TabsTrigger value="calculation" className="flex items-center">
+                <Calculator className="h-4 w-4 mr-2" />
+                Perhitungan AHP
+              </TabsTrigger>
+            )}
             <TabsTrigger value="results" className="flex items-center">
               <Trophy className="h-4 w-4 mr-2" />
               Ranking
             </TabsTrigger>
+            {canOpenTab('users') && (
+              <TabsTrigger value="users" className="flex items-center">
+                <UserCog className="h-4 w-4 mr-2" />
+                Pengguna
+              </TabsTrigger>
+            )}
           </TabsList>
 
           <TabsContent value="overview" className="space-y-6">
@@ -211,21 +325,54 @@ const Dashboard = ({ user, onLogout }: DashboardProps) => {
             )}
           </TabsContent>
 
-          <TabsContent value="students">
-            <StudentManagement />
-          </TabsContent>
+          {canOpenTab('users') && (
+            <TabsContent value="users">
+              <UserManagement />
+            </TabsContent>
+          )}
 
-          <TabsContent value="criteria">
-            <CriteriaManagement />
-          </TabsContent>
+          {periodId ? (
+            <>
+              {canOpenTab('students') && (
+                <TabsContent value="students">
+                  <StudentManagement key={periodId} periodId={periodId} role={role} />
+                </TabsContent>
+              )}
 
-          <TabsContent value="calculation">
-            <AHPCalculation />
-          </TabsContent>
+              {canOpenTab('scores') && (
+                <TabsContent value="scores">
+                  <ScoreGrid key={periodId} periodId={periodId} role={role} />
+                </TabsContent>
+              )}
 
-          <TabsContent value="results">
-            <RankingResults />
-          </TabsContent>
+              {canOpenTab('criteria') && (
+                <TabsContent value="criteria">
+                  <CriteriaManagement role={role} />
+                </TabsContent>
+              )}
+
+              {canOpenTab('calculation') && (
+                <TabsContent value="calculation">
+                  <AHPCalculation key={periodId} periodId={periodId} role={role} />
+                </TabsContent>
+              )}
+
+              <TabsContent value="results">
+                <RankingResults key={periodId} periodId={periodId} periods={periods} role={role} />
+              </TabsContent>
+            </>
+          ) : (
+            !loading && (
+              <Card>
+                <CardContent className="p-6 text-center text-gray-600">
+                  Belum ada periode penilaian.{' '}
+                  {can(role, 'periods.manage')
+                    ? 'Tambahkan tahun ajaran dan semester melalui tombol "Kelola Periode".'
+                    : 'Hubungi admin untuk membuat periode penilaian.'}
+                </CardContent>
+              </Card>
+            )
+          )}
         </Tabs>
       </main>
     </div>
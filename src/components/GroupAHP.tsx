@@ -0,0 +1,409 @@
+import { useState, useEffect } from 'react';
+import { Card, CardContent, CardHeader, CardTitle } from '@/components/ui/card';
+import { Button } from '@/components/ui/button';
+import { Input } from '@/components/ui/input';
+import { Label } from '@/components/ui/label';
+import { Badge } from '@/components/ui/badge';
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from '@/components/ui/select';
+import { Table, TableBody, TableCell, TableHead, TableHeader, TableRow } from '@/components/ui/table';
+import { Users } from 'lucide-react';
+import { toast } from '@/hooks/use-toast';
+import { supabase } from '@/integrations/supabase/client';
+import {
+  aggregateJudgments,
+  aggregatePriorities,
+  aggregationMethodLabels,
+  buildComparisonMatrix,
+  calculatePriorities,
+  judgmentDispersion,
+  pairKey,
+  priorityMethodLabels,
+  toStoredJudgment,
+  AggregationMethod,
+  PriorityMethod,
+  CONSISTENCY_THRESHOLD
+} from '@/lib/ahp';
+import { TreeCriterion, saveLocalWeights } from '@/lib/criteriaTree';
+
+interface Criteria {
+  id: string;
+  name: string;
+}
+
+interface Evaluator {
+  id: string;
+  name: string;
+  weight: number;
+  matrix: number[][];
+  priorities: number[];
+  cr: number;
+  // Pasangan yang benar-benar dinilai; pasangan lain bernilai 1 pada matriks
+  judgedPairs: string[];
+}
+
+interface GroupAHPProps {
+  // Anak-anak langsung dari node yang sedang dibandingkan
+  criteria: Criteria[];
+  // Seluruh pohon kriteria, untuk menghitung ulang bobot global
+  allCriteria: TreeCriterion[];
+  nodeName: string;
+  // Metode prioritas yang dipilih di Manajemen Kriteria; dipakai untuk bobot dan CR kelompok
+  priorityMethod: PriorityMethod;
+  refreshKey: number;
+  onApplied: () => void;
+}
+
+// Batas simpangan baku ln(a_ij): di bawah 0.5 ≈ selisih < 1,6x, di atas 1 ≈ selisih > 2,7x
+const getDisagreementLevel = (dispersion: number) =>
+  dispersion < 0.5
+    ? { label: 'Rendah', variant: 'secondary' as const }
+    : dispersion < 1
+      ? { label: 'Sedang', variant: 'outline' as const }
+      : { label: 'Tinggi', variant: 'destructive' as const };
+
+const formatJudgment = (value: number) => (value >= 1 ? value.toFixed(2) : `1/${(1 / value).toFixed(2)}`);
+
+const GroupAHP = ({ criteria, allCriteria, nodeName, priorityMethod, refreshKey, onApplied }: GroupAHPProps) => {
+  const [evaluators, setEvaluators] = useState<Evaluator[]>([]);
+  const [method, setMethod] = useState<AggregationMethod>('aij');
+  const [loading, setLoading] = useState(true);
+  const [saving, setSaving] = useState(false);
+  const [weightInputs, setWeightInputs] = useState<{[evaluatorId: string]: string}>({});
+  const criteriaKey = criteria.map(c => c.id).join(',');
+
+  useEffect(() => {
+    if (criteria.length > 0) {
+      fetchEvaluations();
+    }
+  }, [criteriaKey, refreshKey, priorityMethod]);
+
+  const fetchEvaluations = async () => {
+    try {
+      const [comparisonResult, weightResult] = await Promise.all([
+        supabase
+          .from('evaluator_comparison')
+          .select('evaluator_id, criteria1_id, criteria2_id, intensity, reciprocal, profiles (username, email)'),
+        supabase
+          .from('evaluator_weights')
+          .select('evaluator_id, weight')
+      ]);
+
+      if (comparisonResult.error) throw comparisonResult.error;
+      if (weightResult.error) throw weightResult.error;
+
+      const ids = criteria.map(c => c.id);
+      const weightById = Object.fromEntries((weightResult.data || []).map(w => [w.evaluator_id, w.weight]));
+      const grouped: {[evaluatorId: string]: typeof comparisonResult.data} = {};
+      // Hanya penilaian untuk pasangan di node ini
+      (comparisonResult.data || [])
+        .filter(row => ids.includes(row.criteria1_id) && ids.includes(row.criteria2_id))
+        .forEach(row => {
+          if (!grouped[row.evaluator_id]) {
+            grouped[row.evaluator_id] = [];
+          }
+          grouped[row.evaluator_id].push(row);
+        });
+
+      const loaded = Object.entries(grouped).map(([evaluatorId, rows]) => {
+        const profile = rows[0].profiles as { username: string | null; email: string | null } | null;
+        const matrix = buildComparisonMatrix(
+          ids,
+          rows.map(row => ({ from: row.criteria1_id, to: row.criteria2_id, intensity: row.intensity, reciprocal: row.reciprocal }))
+        );
+        const { weights, cr } = calculatePriorities(matrix, priorityMethod);
+
+        return {
+          id: evaluatorId,
+          name: profile?.username || profile?.email || 'Penilai',
+          weight: weightById[evaluatorId] ?? 1,
+          matrix,
+          priorities: weights,
+          cr,
+          judgedPairs: Array.from(new Set(rows.map(row => pairKey(row.criteria1_id, row.criteria2_id))))
+        };
+      });
+
+      setEvaluators(loaded.sort((a, b) => a.name.localeCompare(b.name)));
+      setWeightInputs(Object.fromEntries(loaded.map(evaluator => [evaluator.id, String(evaluator.weight)])));
+    } catch (error) {
+      console.error('Error fetching evaluator comparisons:', error);
+      toast({
+        title: "Error",
+        description: "Gagal memuat penilaian kelompok",
+        variant: "destructive",
+      });
+    } finally {
+      setLoading(false);
+    }
+  };
+
+  const saveEvaluatorWeight = async (evaluator: Evaluator, value: string) => {
+    const weight = Number(value);
+    if (isNaN(weight) || weight <= 0) {
+      setWeightInputs({ ...weightInputs, [evaluator.id]: String(evaluator.weight) });
+      toast({
+        title: "Validasi Gagal",
+        description: "Bobot penilai harus lebih besar dari 0",
+        variant: "destructive",
+      });
+      return;
+    }
+
+    try {
+      const { error } = await supabase
+        .from('evaluator_weights')
+        .upsert({ evaluator_id: evaluator.id, weight });
+
+      if (error) throw error;
+
+      setEvaluators(evaluators.map(e => e.id === evaluator.id ? { ...e, weight } : e));
+    } catch (error) {
+      console.error('Error saving evaluator weight:', error);
+      toast({
+        title: "Error",
+        description: "Gagal menyimpan bobot penilai",
+        variant: "destructive",
+      });
+    }
+  };
+
+  // Penilai yang matriksnya belum lengkap tidak diikutkan agar pasangan kosong (bernilai 1)
+  // tidak menarik penilaian kelompok ke arah "sama penting"
+  const totalPairs = (criteria.length * (criteria.length - 1)) / 2;
+  const isComplete = (evaluator: Evaluator) => evaluator.judgedPairs.length >= totalPairs;
+  const included = evaluators.filter(isComplete);
+  const incomplete = evaluators.filter(evaluator => !isComplete(evaluator));
+  const evaluatorWeights = included.map(e => e.weight);
+  const groupMatrix = included.length > 0 ? aggregateJudgments(included.map(e => e.matrix), evaluatorWeights) : null;
+  const groupResult = groupMatrix ? calculatePriorities(groupMatrix, priorityMethod) : null;
+  const groupWeights = groupResult
+    ? method === 'aij'
+      ? groupResult.weights
+      : aggregatePriorities(included.map(e => e.priorities), evaluatorWeights)
+    : [];
+
+  // Matriks AIJ disimpan sebagai matriks kriteria bersama; bobot mengikuti metode agregasi yang dipilih
+  const applyGroupWeights = async () => {
+    if (!groupMatrix || !groupResult) return;
+
+    try {
+      setSaving(true);
+
+      const ids = criteria.map(c => c.id);
+      const { error: deleteError } = await supabase
+        .from('criteria_comparison')
+        .delete()
+        .in('criteria1_id', ids)
+        .in('criteria2_id', ids);
+
+      if (deleteError) throw deleteError;
+
+      const comparisons = criteria.flatMap((row, i) =>
+        criteria.slice(i + 1).map((col, offset) => ({
+          criteria1_id: row.id,
+          criteria2_id: col.id,
+          ...toStoredJudgment(groupMatrix[i][i + 1 + offset])
+        }))
+      );
+
+      if (comparisons.length > 0) {
+        const { error: insertError } = await supabase
+          .from('criteria_comparison')
+          .insert(comparisons);
+
+        if (insertError) throw insertError;
+      }
+
+      await saveLocalWeights(
+        allCriteria,
+        Object.fromEntries(criteria.map((criterion, index) => [criterion.id, groupWeights[index]])),
+        method === 'aij' ? 'ahp_aij' : 'ahp_aip'
+      );
+
+      toast({
+        title: "Bobot Kelompok Diterapkan",
+        description: `${nodeName}: ${aggregationMethodLabels[method]} (${priorityMethodLabels[priorityMethod]}) dari ${included.length} penilai, CR kelompok ${(groupResult.cr * 100).toFixed(2)}%`,
+      });
+
+      onApplied();
+    } catch (error) {
+      console.error('Error applying group weights:', error);
+      toast({
+        title: "Error",
+        description: "Gagal menerapkan bobot kelompok",
+        variant: "destructive",
+      });
+    } finally {
+      setSaving(false);
+    }
+  };
+
+  if (loading) {
+    return (
+      <div className="flex justify-center p-4">
+        <div className="animate-spin rounded-full h-6 w-6 border-b-2 border-blue-600"></div>
+      </div>
+    );
+  }
+
+  return (
+    <Card>
+      <CardHeader>
+        <CardTitle className="flex items-center">
+          <Users className="h-5 w-5 mr-2" />
+          Penilaian Kelompok
+        </CardTitle>
+        <p className="text-sm text-gray-600">
+          Gabungkan matriks perbandingan setiap anggota panitia menjadi bobot kriteria bersama
+        </p>
+        <p className="text-sm font-medium text-gray-700">Kelompok: {nodeName}</p>
+      </CardHeader>
+      <CardContent className="space-y-6">
+        {evaluators.length === 0 ? (
+          <p className="text-center py-6 text-gray-500">Belum ada penilai yang mengisi matriks perbandingan.</p>
+        ) : (
+          <>
+            <div className="overflow-x-auto">
+              <Table>
+                <TableHeader>
+                  <TableRow>
+                    <TableHead>Penilai</TableHead>
+                    <TableHead>Kelengkapan</TableHead>
+                    <TableHead>CR</TableHead>
+                    <TableHead>Bobot Penilai</TableHead>
+                  </TableRow>
+                </TableHeader>
+                <TableBody>
+                  {evaluators.map(evaluator => (
+                    <TableRow key={evaluator.id}>
+                      <TableCell className="font-medium">{evaluator.name}</TableCell>
+                      <TableCell>
+                        {evaluator.judgedPairs.length}/{totalPairs} pasangan
+                        {!isComplete(evaluator) && (
+                          <Badge variant="outline" className="ml-2 text-amber-700">Belum lengkap, tidak diikutkan</Badge>
+                        )}
+                      </TableCell>
+                      <TableCell className={evaluator.cr > CONSISTENCY_THRESHOLD ? 'text-red-600 font-semibold' : 'text-green-700'}>
+                        {(evaluator.cr * 100).toFixed(2)}%
+                      </TableCell>
+                      <TableCell>
+                        <Input
+                          type="number"
+                          step="any"
+                          min="0"
+                          className="w-24"
+                          value={weightInputs[evaluator.id] ?? String(evaluator.weight)}
+                          aria-label={`Bobot ${evaluator.name}`}
+                          onChange={(e) => setWeightInputs({ ...weightInputs, [evaluator.id]: e.target.value })}
+                          onBlur={(e) => {
+                            if (Number(e.target.value) !== evaluator.weight) {
+                              saveEvaluatorWeight(evaluator, e.target.value);
+                            }
+                          }}
+                        />
+                      </TableCell>
+                    </TableRow>
+                  ))}
+                </TableBody>
+              </Table>
+            </div>
+
+            <div>
+              <h4 className="font-semibold mb-2">Perbedaan Penilaian per Pasangan</h4>
+              <div className="overflow-x-auto">
+                <Table>
+                  <TableHeader>
+                    <TableRow>
+                      <TableHead>Pasangan</TableHead>
+                      {evaluators.map(evaluator => (
+                        <TableHead key={evaluator.id}>{evaluator.name}</TableHead>
+                      ))}
+                      <TableHead>Kelompok (AIJ)</TableHead>
+                      <TableHead>Perbedaan</TableHead>
+                    </TableRow>
+                  </TableHeader>
+                  <TableBody>
+                    {criteria.flatMap((row, i) =>
+                      criteria.slice(i + 1).map((col, offset) => {
+                        const j = i + 1 + offset;
+                        const dispersion = included.length > 0
+                          ? judgmentDispersion(included.map(e => e.matrix[i][j]), evaluatorWeights)
+                          : null;
+                        const level = dispersion === null ? null : getDisagreementLevel(dispersion);
+                        return (
+                          <TableRow key={`${row.id}-${col.id}`}>
+                            <TableCell className="font-medium">{row.name} vs {col.name}</TableCell>
+                            {evaluators.map(evaluator => (
+                              <TableCell key={evaluator.id} className={isComplete(evaluator) ? '' : 'text-gray-400'}>
+                                {evaluator.judgedPairs.includes(pairKey(row.id, col.id)) ? formatJudgment(evaluator.matrix[i][j]) : '-'}
+                              </TableCell>
+                            ))}
+                            <TableCell className="font-semibold">{groupMatrix ? formatJudgment(groupMatrix[i][j]) : '-'}</TableCell>
+                            <TableCell>
+                              {level ? <Badge variant={level.variant}>{level.label} ({dispersion.toFixed(2)})</Badge> : '-'}
+                            </TableCell>
+                          </TableRow>
+                        );
+                      })
+                    )}
+                  </TableBody>
+                </Table>
+              </div>
+            </div>
+
+            <div className="flex flex-col md:flex-row md:items-end gap-4">
+              <div className="w-full md:w-80">
+                <Label htmlFor="aggregation-method">Metode Agregasi</Label>
+                <Select value={method} onValueChange={(value) => setMethod(value as AggregationMethod)}>
+                  <SelectTrigger id="aggregation-method">
+                    <SelectValue />
+                  </SelectTrigger>
+                  <SelectContent>
+                    {(Object.keys(aggregationMethodLabels) as AggregationMethod[]).map(key => (
+                      <SelectItem key={key} value={key}>{aggregationMethodLabels[key]}</SelectItem>
+                    ))}
+                  </SelectContent>
+                </Select>
+                <p className="text-xs text-gray-500 mt-1">Metode prioritas: {priorityMethodLabels[priorityMethod]}</p>
+              </div>
+              <div className="flex-1 grid grid-cols-2 md:grid-cols-4 gap-2">
+                {criteria.map((criterion, index) => (
+                  <div key={criterion.id} className="p-2 bg-blue-50 rounded text-center">
+                    <div className="text-xs text-blue-700">{criterion.name}</div>
+                    <div className="font-bold text-blue-900">{((groupWeights[index] || 0) * 100).toFixed(2)}%</div>
+                  </div>
+                ))}
+              </div>
+            </div>
+
+            {incomplete.length > 0 && (
+              <p className="text-sm text-amber-700">
+                {included.length === 0
+                  ? 'Belum ada penilai yang melengkapi seluruh pasangan, bobot kelompok belum dapat dihitung.'
+                  : `Penilaian ${incomplete.map(e => e.name).join(', ')} belum lengkap dan tidak diikutkan dalam agregasi.`}
+              </p>
+            )}
+
+            {groupResult && (
+              <div className="flex flex-col md:flex-row items-center justify-between gap-4">
+                <p className={`text-sm ${groupResult.cr > CONSISTENCY_THRESHOLD ? 'text-amber-700' : 'text-green-700'}`}>
+                  CR matriks kelompok: <strong>{(groupResult.cr * 100).toFixed(2)}%</strong>
+                  {groupResult.cr > CONSISTENCY_THRESHOLD && ' - melebihi 10%, tinjau pasangan dengan perbedaan tinggi'}
+                </p>
+                <Button onClick={applyGroupWeights} disabled={saving}>
+                  {saving
+                    ? 'Menyimpan...'
+                    : groupResult.cr > CONSISTENCY_THRESHOLD
+                      ? 'Terapkan Meskipun Tidak Konsisten'
+                      : 'Terapkan Bobot Kelompok'}
+                </Button>
+              </div>
+            )}
+          </>
+        )}
+      </CardContent>
+    </Card>
+  );
+};
+
+export default GroupAHP;
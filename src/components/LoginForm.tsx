@@ -7,6 +7,7 @@ import { Label } from '@/components/ui/label';
 import { GraduationCap, Lock, User } from 'lucide-react';
 import { toast } from '@/hooks/use-toast';
 import { supabase } from '@/integrations/supabase/client';
+import { DEFAULT_ROLE } from '@/lib/permissions';
 
 interface LoginFormProps {
   onLogin: (userData: { username: string; role: string }) => void;
@@ -48,7 +49,7 @@ const LoginForm = ({ onLogin }: LoginFormProps) => {
         // Get user profile data
         const { data: profileData, error: profileError } = await supabase
           .from('profiles')
-          .select('username, role')
+          .select('username, role, is_active')
           .eq('id', data.user.id)
           .single();
           
@@ -58,9 +59,15 @@ const LoginForm = ({ onLogin }: LoginFormProps) => {
           return;
         }
 
+        if (profileData && !profileData.is_active) {
+          await supabase.auth.signOut();
+          setErrorMessage("Akun Anda telah dinonaktifkan. Hubungi admin sekolah.");
+          return;
+        }
+
         const userData = { 
           username: profileData?.username || data.user.email || 'Admin', 
-          role: profileData?.role || 'user' 
+          role: profileData?.role || DEFAULT_ROLE 
         };
         
         onLogin(userData);
@@ -0,0 +1,105 @@
+import { Card, CardContent, CardHeader, CardTitle } from '@/components/ui/card';
+import { Table, TableBody, TableCell, TableHead, TableHeader, TableRow } from '@/components/ui/table';
+import { ScoringCriterion, ScoreRow, rankingMethodLabels } from '@/lib/scoring';
+import { kendallTau, rankByScore, scoreByEngine, scoreEngines, spearmanCorrelation } from '@/lib/mcdm';
+
+interface MethodComparisonProps {
+  primaryMethod: string;
+  criteria: ScoringCriterion[];
+  students: { id: string; name: string; class: string }[];
+  scores: ScoreRow[];
+  // Skor sintesis AHP hanya tersedia bila perhitungan memakai metode AHP
+  ahpScores?: {[studentId: string]: number} | null;
+}
+
+// Peringkat seluruh sekolah dari setiap metode beserta korelasi peringkat antar metode
+const MethodComparison = ({ primaryMethod, criteria, students, scores, ahpScores }: MethodComparisonProps) => {
+  const studentIds = students.map(s => s.id);
+  const methodRanks: {[method: string]: {[studentId: string]: number}} = {};
+
+  scoreEngines.forEach(engine => {
+    methodRanks[engine] = rankByScore(scoreByEngine(engine, studentIds, criteria, scores));
+  });
+  if (ahpScores) {
+    methodRanks.ahp = rankByScore(ahpScores);
+  }
+
+  const methods = Object.keys(methodRanks);
+  const primary = methodRanks[primaryMethod] ? primaryMethod : methods[0];
+  const sortedStudents = [...students].sort((a, b) => methodRanks[primary][a.id] - methodRanks[primary][b.id]);
+
+  const pairs = methods.flatMap((a, i) => methods.slice(i + 1).map(b => {
+    const ranksA = studentIds.map(id => methodRanks[a][id]);
+    const ranksB = studentIds.map(id => methodRanks[b][id]);
+    return { a, b, spearman: spearmanCorrelation(ranksA, ranksB), kendall: kendallTau(ranksA, ranksB) };
+  }));
+
+  return (
+    <Card>
+      <CardHeader>
+        <CardTitle>Perbandingan Metode Ranking</CardTitle>
+      </CardHeader>
+      <CardContent className="space-y-6">
+        <div className="overflow-x-auto">
+          <Table>
+            <TableHeader>
+              <TableRow>
+                <TableHead>Metode</TableHead>
+                <TableHead>Metode</TableHead>
+                <TableHead>Spearman (ρ)</TableHead>
+                <TableHead>Kendall (τ)</TableHead>
+              </TableRow>
+            </TableHeader>
+            <TableBody>
+              {pairs.map(pair => (
+                <TableRow key={`${pair.a}-${pair.b}`}>
+                  <TableCell>{rankingMethodLabels[pair.a]}</TableCell>
+                  <TableCell>{rankingMethodLabels[pair.b]}</TableCell>
+                  <TableCell className="font-semibold">{pair.spearman.toFixed(4)}</TableCell>
+                  <TableCell className="font-semibold">{pair.kendall.toFixed(4)}</TableCell>
+                </TableRow>
+              ))}
+            </TableBody>
+          </Table>
+          <p className="text-xs text-gray-500 mt-2">
+            Nilai 1 berarti urutan identik, 0 tidak berkorelasi, dan -1 urutan terbalik.
+            Siswa dengan skor seri mendapat peringkat rata-rata (mis. #1.5).
+          </p>
+        </div>
+
+        <div className="overflow-x-auto max-h-96 overflow-y-auto">
+          <Table>
+            <TableHeader>
+              <TableRow>
+                <TableHead>Nama Siswa</TableHead>
+                <TableHead>Kelas</TableHead>
+                {methods.map(method => (
+                  <TableHead key={method}>{rankingMethodLabels[method]}</TableHead>
+                ))}
+              </TableRow>
+            </TableHeader>
+            <TableBody>
+              {sortedStudents.map(student => (
+                <TableRow key={student.id}>
+                  <TableCell className="font-medium">{student.name}</TableCell>
+                  <TableCell>{student.class}</TableCell>
+                  {methods.map(method => {
+                    const rank = methodRanks[method][student.id];
+                    const differs = rank !== methodRanks[primary][student.id];
+                    return (
+                      <TableCell key={method} className={differs ? 'text-amber-700 font-semibold' : ''}>
+                        #{Number.isInteger(rank) ? rank : rank.toFixed(1)}
+                      </TableCell>
+                    );
+                  })}
+                </TableRow>
+              ))}
+            </TableBody>
+          </Table>
+        </div>
+      </CardContent>
+    </Card>
+  );
+};
+
+export default MethodComparison;
@@ -0,0 +1,272 @@
+import { useState } from 'react';
+import { Button } from '@/components/ui/button';
+import { Input } from '@/components/ui/input';
+import { Label } from '@/components/ui/label';
+import { Badge } from '@/components/ui/badge';
+import { Dialog, DialogContent, DialogHeader, DialogTitle, DialogTrigger } from '@/components/ui/dialog';
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from '@/components/ui/select';
+import { Table, TableBody, TableCell, TableHead, TableHeader, TableRow } from '@/components/ui/table';
+import { CalendarRange, ArrowRightCircle } from 'lucide-react';
+import { toast } from '@/hooks/use-toast';
+import { supabase } from '@/integrations/supabase/client';
+import {
+  AcademicPeriod,
+  formatPeriod,
+  getNextPeriod,
+  isValidAcademicYear,
+  promoteClass,
+  semesterLabels
+} from '@/lib/periods';
+
+interface PeriodManagementProps {
+  periods: AcademicPeriod[];
+  onChanged: () => void;
+}
+
+const PeriodManagement = ({ periods, onChanged }: PeriodManagementProps) => {
+  const [isDialogOpen, setIsDialogOpen] = useState(false);
+  const [formData, setFormData] = useState({ academicYear: '', semester: '1' });
+  const [processing, setProcessing] = useState(false);
+
+  const handleCreate = async (e: React.FormEvent) => {
+    e.preventDefault();
+
+    const academicYear = formData.academicYear.trim();
+    if (!isValidAcademicYear(academicYear)) {
+      toast({
+        title: "Validasi Gagal",
+        description: "Tahun ajaran harus berformat YYYY/YYYY, mis. 2026/2027",
+        variant: "destructive",
+      });
+      return;
+    }
+
+    try {
+      setProcessing(true);
+
+      const { error } = await supabase
+        .from('academic_periods')
+        .insert({ academic_year: academicYear, semester: Number(formData.semester) });
+
+      if (error) throw error;
+
+      toast({
+        title: "Periode Ditambahkan",
+        description: `Periode ${formatPeriod({ academic_year: academicYear, semester: Number(formData.semester) })} berhasil dibuat`,
+      });
+
+      setFormData({ academicYear: '', semester: '1' });
+      onChanged();
+    } catch (error) {
+      console.error('Error creating period:', error);
+      toast({
+        title: "Error",
+        description: "Gagal membuat periode. Pastikan periode belum ada.",
+        variant: "destructive",
+      });
+    } finally {
+      setProcessing(false);
+    }
+  };
+
+  const setActive = async (period: AcademicPeriod) => {
+    try {
+      setProcessing(true);
+
+      const { error: resetError } = await supabase
+        .from('academic_periods')
+        .update({ is_active: false })
+        .eq('is_active', true);
+
+      if (resetError) throw resetError;
+
+      const { error } = await supabase
+        .from('academic_periods')
+        .update({ is_active: true })
+        .eq('id', period.id);
+
+      if (error) throw error;
+
+      toast({
+        title: "Periode Aktif Diubah",
+        description: `${formatPeriod(period)} sekarang menjadi periode aktif`,
+      });
+
+      onChanged();
+    } catch (error) {
+      console.error('Error activating period:', error);
+      toast({
+        title: "Error",
+        description: "Gagal mengubah periode aktif",
+        variant: "destructive",
+      });
+    } finally {
+      setProcessing(false);
+    }
+  };
+
+  // Salin siswa ke periode berikutnya; naik kelas bila berganti tahun ajaran
+  const rollover = async (period: AcademicPeriod) => {
+    const next = getNextPeriod(period);
+
+    try {
+      setProcessing(true);
+
+      let target = periods.find(p => p.academic_year === next.academic_year && p.semester === next.semester);
+      if (!target) {
+        const { data, error } = await supabase
+          .from('academic_periods')
+          .insert({ academic_year: next.academic_year, semester: next.semester })
+          .select()
+          .single();
+
+        if (error) throw error;
+        target = data;
+      }
+
+      const [sourceResult, targetResult] = await Promise.all([
+        supabase.from('students').select('name, nis, class').eq('period_id', period.id),
+        supabase.from('students').select('nis').eq('period_id', target.id)
+      ]);
+
+      if (sourceResult.error) throw sourceResult.error;
+      if (targetResult.error) throw targetResult.error;
+
+      const existingNis = new Set((targetResult.data || []).map(s => s.nis));
+      let graduated = 0;
+      let skipped = 0;
+
+      const studentsToInsert = (sourceResult.data || []).flatMap(student => {
+        if (existingNis.has(student.nis)) {
+          skipped++;
+          return [];
+        }
+
+        const newClass = next.promotes ? promoteClass(student.class) : student.class;
+        if (newClass === null) {
+          graduated++;
+          return [];
+        }
+
+        return [{ name: student.name, nis: student.nis, class: newClass, period_id: target.id }];
+      });
+
+      if (studentsToInsert.length > 0) {
+        const { error } = await supabase
+          .from('students')
+          .insert(studentsToInsert);
+
+        if (error) throw error;
+      }
+
+      toast({
+        title: "Rollover Selesai",
+        description: `${studentsToInsert.length} siswa dipindahkan ke ${formatPeriod(target)}` +
+          (graduated > 0 ? `, ${graduated} siswa lulus` : '') +
+          (skipped > 0 ? `, ${skipped} siswa sudah terdaftar` : ''),
+      });
+
+      onChanged();
+    } catch (error) {
+      console.error('Error rolling over period:', error);
+      toast({
+        title: "Error",
+        description: "Gagal memindahkan siswa ke periode berikutnya",
+        variant: "destructive",
+      });
+    } finally {
+      setProcessing(false);
+    }
+  };
+
+  return (
+    <Dialog open={isDialogOpen} onOpenChange={setIsDialogOpen}>
+      <DialogTrigger asChild>
+        <Button variant="outline" size="sm" className="flex items-center">
+          <CalendarRange className="h-4 w-4 mr-2" />
+          Kelola Periode
+        </Button>
+      </DialogTrigger>
+      <DialogContent className="max-w-2xl max-h-[90vh] overflow-y-auto">
+        <DialogHeader>
+          <DialogTitle>Periode Penilaian</DialogTitle>
+        </DialogHeader>
+
+        <form onSubmit={handleCreate} className="grid grid-cols-1 md:grid-cols-3 gap-2 items-end">
+          <div>
+            <Label htmlFor="academic-year">Tahun Ajaran</Label>
+            <Input
+              id="academic-year"
+              placeholder="2026/2027"
+              value={formData.academicYear}
+              onChange={(e) => setFormData({...formData, academicYear: e.target.value})}
+              required
+            />
+          </div>
+          <div>
+            <Label htmlFor="semester">Semester</Label>
+            <Select
+              value={formData.semester}
+              onValueChange={(value) => setFormData({...formData, semester: value})}
+            >
+              <SelectTrigger id="semester">
+                <SelectValue />
+              </SelectTrigger>
+              <SelectContent>
+                <SelectItem value="1">{semesterLabels[1]}</SelectItem>
+                <SelectItem value="2">{semesterLabels[2]}</SelectItem>
+              </SelectContent>
+            </Select>
+          </div>
+          <Button type="submit" disabled={processing}>
+            Tambah Periode
+          </Button>
+        </form>
+
+        <Table>
+          <TableHeader>
+            <TableRow>
+              <TableHead>Periode</TableHead>
+              <TableHead>Status</TableHead>
+              <TableHead>Aksi</TableHead>
+            </TableRow>
+          </TableHeader>
+          <TableBody>
+            {periods.map(period => {
+              const next = getNextPeriod(period);
+              return (
+                <TableRow key={period.id}>
+                  <TableCell className="font-medium">{formatPeriod(period)}</TableCell>
+                  <TableCell>
+                    {period.is_active ? <Badge>Aktif</Badge> : <Badge variant="outline">Tidak aktif</Badge>}
+                  </TableCell>
+                  <TableCell>
+                    <div className="flex flex-wrap gap-2">
+                      {!period.is_active && (
+                        <Button variant="outline" size="sm" onClick={() => setActive(period)} disabled={processing}>
+                          Jadikan Aktif
+                        </Button>
+                      )}
+                      <Button
+                        variant="outline"
+                        size="sm"
+                        onClick={() => rollover(period)}
+                        disabled={processing}
+                        title={next.promotes ? 'Siswa naik kelas; kelas 9 lulus' : 'Kelas siswa tetap'}
+                      >
+                        <ArrowRightCircle className="h-4 w-4 mr-1" />
+                        Lanjut ke {formatPeriod(next)}
+                      </Button>
+                    </div>
+                  </TableCell>
+                </TableRow>
+              );
+            })}
+          </TableBody>
+        </Table>
+      </DialogContent>
+    </Dialog>
+  );
+};
+
+export default PeriodManagement;
@@ -1,14 +1,59 @@
 import { useState, useEffect } from 'react';
 import { Card, CardContent, CardHeader, CardTitle } from '@/components/ui/card';
 import { Badge } from '@/components/ui/badge';
-import { Trophy, Medal, Award, Star } from 'lucide-react';
+import { Button } from '@/components/ui/button';
+import { Trophy, Medal, Award, Star, FileDown } from 'lucide-react';
 import { supabase } from '@/integrations/supabase/client';
+import { getLeafCriteria } from '@/lib/criteriaTree';
 import { toast } from '@/hooks/use-toast';
+import {
+  calculateScoreStats,
+  isCostCriterion,
+  normalizationLabels,
+  scoreStudent,
+  filterByScope,
+  getScopeGroups,
+  getScopeRank,
+  formatTieBreak,
+  rankingScopeLabels,
+  rankingMethodLabels,
+  CriterionBreakdown,
+  RankingScope,
+  ScoreRow
+} from '@/lib/scoring';
+import { buildDecisionMatrix, topsisSteps, wpSteps } from '@/lib/mcdm';
+import {
+  AlternativePrioritiesSnapshot,
+  CalculationSession,
+  PeriodRank,
+  fetchActiveSession,
+  fetchRankHistory,
+  getAlternativePriorities,
+  getCriteriaSnapshot,
+  getScoresSnapshot,
+  getWeightsSnapshot
+} from '@/lib/sessions';
+import { AcademicPeriod, formatPeriod, sortPeriods } from '@/lib/periods';
+import { exportRankingPdf } from '@/lib/reports';
+import { Role, can } from '@/lib/permissions';
+import RankingScopeSelector from './RankingScopeSelector';
 
 interface Student {
   id: string;
   name: string;
   class: string;
+  nis: string;
+}
+
+interface Criteria {
+  id: string;
+  name: string;
+  weight: number | null;
+  type?: string | null;
+  normalization?: string | null;
+  rubric?: unknown;
+  min_score?: number;
+  max_score?: number;
 }
 
 interface AhpResult {
@@ -17,19 +62,109 @@ interface AhpResult {
   student: Student;
   final_score: number;
   rank: number;
-  criteria: {
-    academic: number;
-    behavior: number;
-    achievement: number;
-    leadership: number;
-    attendance: number;
-  };
+  class_rank: number | null;
+  grade_rank: number | null;
+  tie_break: string | null;
+  criteria: {[criteriaId: string]: CriterionBreakdown};
+  // Langkah perhitungan metode sesi per kriteria dan per siswa (kosong untuk SAW)
+  methodDetails: {[criteriaId: string]: MethodDetail[]};
+  methodSummary: MethodDetail[];
+  // Kriteria yang nilainya diisi oleh kebijakan nilai kosong
+  imputedCriteria: string[];
+}
+
+interface MethodDetail {
+  label: string;
+  value: string;
+}
+
+interface StudentMethodDetails {
+  criteria: {[criteriaId: string]: MethodDetail[]};
+  summary: MethodDetail[];
+}
+
+// Rincian TOPSIS, WP, dan AHP dihitung ulang dari snapshot sesi; SAW memakai rincian scoreStudent.
+// Sesi AHP lama tanpa prioritas lokal tersimpan tidak memiliki rincian.
+const getMethodDetails = (
+  method: string,
+  studentIds: string[],
+  criteria: Criteria[],
+  scores: ScoreRow[],
+  alternativePriorities: AlternativePrioritiesSnapshot | null
+): {[studentId: string]: StudentMethodDetails} => {
+  const weights = criteria.map(c => c.weight || 0);
+  const costs = criteria.map(isCostCriterion);
+
+  if (method === 'topsis') {
+    const steps = topsisSteps(buildDecisionMatrix(studentIds, criteria, scores), weights, costs);
+    return Object.fromEntries(studentIds.map((studentId, i) => [studentId, {
+      criteria: Object.fromEntries(criteria.map((criterion, j) => [criterion.id, [
+        { label: 'Normalisasi vektor', value: steps.normalized[i][j].toFixed(3) },
+        { label: 'Terbobot', value: steps.weighted[i][j].toFixed(4) }
+      ]])),
+      summary: [
+        { label: 'D+', value: steps.toBest[i].toFixed(4) },
+        { label: 'D-', value: steps.toWorst[i].toFixed(4) }
+      ]
+    }]));
+  }
+
+  if (method === 'wp') {
+    const steps = wpSteps(buildDecisionMatrix(studentIds, criteria, scores), weights, costs);
+    return Object.fromEntries(studentIds.map((studentId, i) => [studentId, {
+      criteria: Object.fromEntries(criteria.map((criterion, j) => [criterion.id, [
+        { label: 'Pangkat', value: steps.exponents[j].toFixed(3) }
+      ]])),
+      summary: [{ label: 'Vektor S', value: steps.products[i].toFixed(4) }]
+    }]));
+  }
+
+  if (method === 'ahp' && alternativePriorities) {
+    return Object.fromEntries(studentIds.map(studentId => [studentId, {
+      criteria: Object.fromEntries(criteria.map((criterion, j) => {
+        const priority = alternativePriorities[criterion.id]?.priorities[studentId] ?? 0;
+        return [criterion.id, [
+          { label: 'Prioritas lokal', value: `${(priority * 100).toFixed(2)}%` },
+          { label: 'Kontribusi', value: `${(weights[j] * priority * 100).toFixed(2)}%` }
+        ]];
+      })),
+      summary: []
+    }]));
+  }
+
+  return {};
+};
+
+const criteriaColors = [
+  { box: 'bg-blue-50', label: 'text-blue-700', value: 'text-blue-900' },
+  { box: 'bg-green-50', label: 'text-green-700', value: 'text-green-900' },
+  { box: 'bg-purple-50', label: 'text-purple-700', value: 'text-purple-900' },
+  { box: 'bg-orange-50', label: 'text-orange-700', value: 'text-orange-900' },
+  { box: 'bg-red-50', label: 'text-red-700', value: 'text-red-900' },
+  { box: 'bg-teal-50', label: 'text-teal-700', value: 'text-teal-900' },
+];
+
+const podium = [
+  { rank: 1, icon: Trophy, color: 'from-yellow-400 to-yellow-600' },
+  { rank: 2, icon: Medal, color: 'from-gray-300 to-gray-500' },
+  { rank: 3, icon: Award, color: 'from-amber-400 to-amber-600' }
+];
+
+interface RankingResultsProps {
+  periodId: string;
+  periods: AcademicPeriod[];
+  role: Role;
 }
 
-const RankingResults = () => {
+const RankingResults = ({ periodId, periods, role }: RankingResultsProps) => {
   const [results, setResults] = useState<AhpResult[]>([]);
   const [loading, setLoading] = useState(true);
-  const [criteriaMap, setCriteriaMap] = useState<{[key: string]: string}>({});
+  const [criteria, setCriteria] = useState<Criteria[]>([]);
+  const [session, setSession] = useState<CalculationSession | null>(null);
+  const [rankHistory, setRankHistory] = useState<{[nis: string]: PeriodRank[]}>({});
+  const [scope, setScope] = useState<RankingScope>('global');
+  const [scopeGroup, setScopeGroup] = useState('');
+  const [exporting, setExporting] = useState(false);
 
   useEffect(() => {
     fetchResults();
@@ -38,39 +173,53 @@ const RankingResults = () => {
   const fetchResults = async () => {
     try {
       console.log('Fetching ranking results...');
-      
-      // Get criteria mapping first
-      const { data: criteriaData, error: criteriaError } = await supabase
-        .from('criteria')
-        .select('id, name');
-
-      if (criteriaError) {
-        console.error('Error fetching criteria:', criteriaError);
-        throw criteriaError;
+
+      // Sesi resmi bila sudah ditandai, selain itu perhitungan terbaru
+      const activeSession = await fetchActiveSession(periodId);
+      if (!activeSession) {
+        console.log('No calculation session found');
+        setLoading(false);
+        return;
       }
+      setSession(activeSession);
 
-      // Create a map of criteria names to IDs
-      const criteriaMapping: {[key: string]: string} = {};
-      criteriaData?.forEach(criteria => {
-        criteriaMapping[criteria.name] = criteria.id;
-      });
-      setCriteriaMap(criteriaMapping);
-      console.log('Criteria mapping:', criteriaMapping);
+      // Ambil kriteria beserta bobotnya lebih dulu (snapshot sesi bila tersedia)
+      let loadedCriteria: Criteria[] = getCriteriaSnapshot(activeSession);
+      if (loadedCriteria.length === 0) {
+        const { data: criteriaData, error: criteriaError } = await supabase
+          .from('criteria')
+          .select('id, name, weight, type, normalization, rubric, min_score, max_score, parent_id')
+          .order('name');
+
+        if (criteriaError) {
+          console.error('Error fetching criteria:', criteriaError);
+          throw criteriaError;
+        }
+
+        loadedCriteria = getLeafCriteria(criteriaData || []);
+      }
+      setCriteria(loadedCriteria);
+      console.log('Criteria:', loadedCriteria);
 
-      // Get AHP results
+      // Ambil hasil AHP
       const { data: ahpData, error: ahpError } = await supabase
         .from('ahp_results')
         .select(`
           id, 
           final_score, 
           rank,
+          class_rank,
+          grade_rank,
+          tie_break,
           student_id, 
           students (
             id, 
             name, 
-            class
+            class,
+            nis
           )
         `)
+        .eq('session_id', activeSession.id)
         .order('rank');
 
       if (ahpError) {
@@ -86,21 +235,33 @@ const RankingResults = () => {
         return;
       }
 
-      // Get all student scores
-      const studentIds = ahpData.map(result => result.student_id);
-      const { data: scoresData, error: scoresError } = await supabase
-        .from('student_scores')
-        .select('student_id, criteria_id, score')
-        .in('student_id', studentIds);
+      // Ambil semua nilai siswa pada periode sesi (normalisasi memakai nilai maksimum seluruh siswa)
+      let loadedScores = getScoresSnapshot(activeSession);
+      if (loadedScores.length === 0) {
+        const { data: scoresData, error: scoresError } = await supabase
+          .from('student_scores')
+          .select('student_id, criteria_id, score, students!inner(period_id)')
+          .eq('students.period_id', activeSession.period_id);
+
+        if (scoresError) {
+          console.error('Error fetching scores:', scoresError);
+          throw scoresError;
+        }
 
-      if (scoresError) {
-        console.error('Error fetching scores:', scoresError);
-        throw scoresError;
+        loadedScores = (scoresData || []).map(({ student_id, criteria_id, score }) => ({ student_id, criteria_id, score }));
       }
 
-      console.log('Scores data:', scoresData);
+      console.log('Scores data:', loadedScores);
 
-      // Process the results
+      // Olah hasil
+      const scoreStats = calculateScoreStats(loadedCriteria, loadedScores);
+      const methodDetails = getMethodDetails(
+        activeSession.method,
+        ahpData.map(result => result.student_id),
+        loadedCriteria,
+        loadedScores,
+        getAlternativePriorities(activeSession)
+      );
       const processedResults: AhpResult[] = [];
       
       for (const result of ahpData) {
@@ -111,22 +272,7 @@ const RankingResults = () => {
           continue;
         }
         
-        // Get scores for this student
-        const studentScores = scoresData?.filter(
-          score => score.student_id === student.id
-        ) || [];
-        
-        // Map scores to criteria
-        const academicId = criteriaMapping['Akademik'];
-        const behaviorId = criteriaMapping['Perilaku'];
-        const achievementId = criteriaMapping['Prestasi'];
-        const leadershipId = criteriaMapping['Kepemimpinan'];
-        const attendanceId = criteriaMapping['Kehadiran'];
-
-        const getScore = (criteriaId: string) => {
-          const score = studentScores.find(s => s.criteria_id === criteriaId);
-          return score ? score.score : 0;
-        };
+        const { breakdown } = scoreStudent(student.id, loadedCriteria, loadedScores, scoreStats);
 
         processedResults.push({
           id: result.id,
@@ -134,18 +280,23 @@ const RankingResults = () => {
           student,
           final_score: result.final_score,
           rank: result.rank,
-          criteria: {
-            academic: getScore(academicId),
-            behavior: getScore(behaviorId),
-            achievement: getScore(achievementId),
-            leadership: getScore(leadershipId),
-            attendance: getScore(attendanceId)
-          }
+          class_rank: result.class_rank,
+          grade_rank: result.grade_rank,
+          tie_break: result.tie_break,
+          criteria: breakdown,
+          methodDetails: methodDetails[student.id]?.criteria ?? {},
+          methodSummary: methodDetails[student.id]?.summary ?? [],
+          imputedCriteria: loadedScores
+            .filter(score => score.student_id === student.id && score.imputed)
+            .map(score => score.criteria_id)
         });
       }
       
       console.log('Processed results:', processedResults);
       setResults(processedResults);
+
+      // Peringkat siswa yang sama (berdasarkan NIS) pada periode lain
+      setRankHistory(await fetchRankHistory(periodId));
     } catch (error) {
       console.error('Error fetching ranking results:', error);
       toast({
@@ -158,6 +309,57 @@ const RankingResults = () => {
     }
   };
 
+  const getOtherPeriodRanks = (nis: string) =>
+    sortPeriods(periods)
+      .map(period => ({
+        period,
+        rank: rankHistory[nis]?.find(entry => entry.periodId === period.id)?.rank
+      }))
+      .filter(entry => entry.rank !== undefined);
+
+  const exportPdf = () => {
+    if (!session) return;
+
+    try {
+      setExporting(true);
+
+      const period = periods.find(p => p.id === periodId);
+      const group = scopeGroup || scopeGroups[0];
+
+      exportRankingPdf({
+        periodLabel: period ? formatPeriod(period) : '-',
+        scopeLabel: scope === 'global'
+          ? rankingScopeLabels.global
+          : `${scope === 'class' ? 'Kelas' : 'Tingkat'} ${group}`,
+        sessionName: session.name,
+        sessionDate: new Date(session.created_at).toLocaleString('id-ID'),
+        isOfficial: session.is_official,
+        criteria,
+        consistencyRatio: session.consistency_ratio,
+        weightNodes: getWeightsSnapshot(session),
+        results: visibleResults.map(result => ({
+          rank: getScopeRank(result, scope),
+          name: result.student.name,
+          nis: result.student.nis,
+          class: result.student.class,
+          finalScore: result.final_score,
+          scores: Object.fromEntries(
+            Object.entries(result.criteria).map(([criteriaId, detail]) => [criteriaId, detail.raw])
+          )
+        }))
+      });
+    } catch (error) {
+      console.error('Error exporting PDF report:', error);
+      toast({
+        title: "Error",
+        description: "Gagal membuat laporan PDF",
+        variant: "destructive",
+      });
+    } finally {
+      setExporting(false);
+    }
+  };
+
   const getRankIcon = (rank: number) => {
     switch (rank) {
       case 1:
@@ -204,102 +406,177 @@ const RankingResults = () => {
     );
   }
 
+  const scopeGroups = getScopeGroups(results, scope);
+  const visibleResults = filterByScope(results, scope, scopeGroup || scopeGroups[0]);
+  const isSawSession = !session || session.method === 'saw';
+
   return (
     <div className="space-y-6">
       <Card>
         <CardHeader>
-          <CardTitle className="flex items-center">
-            <Trophy className="h-5 w-5 mr-2 text-yellow-500" />
-            Hasil Ranking Siswa Berprestasi
-          </CardTitle>
+          <div className="flex items-center justify-between">
+            <CardTitle className="flex items-center">
+              <Trophy className="h-5 w-5 mr-2 text-yellow-500" />
+              Hasil Ranking Siswa Berprestasi
+            </CardTitle>
+            {can(role, 'reports.export') && (
+              <Button variant="outline" onClick={exportPdf} disabled={exporting} className="flex items-center">
+                <FileDown className="h-4 w-4 mr-2" />
+                {exporting ? 'Membuat PDF...' : 'Unduh PDF'}
+              </Button>
+            )}
+          </div>
           <p className="text-sm text-gray-600">
-            Berdasarkan perhitungan metode AHP dengan 5 kriteria penilaian
+            Berdasarkan perhitungan metode AHP dengan {criteria.length} kriteria penilaian
+            {session && ` · Peringkat: ${rankingMethodLabels[session.method] || session.method}`}
           </p>
+          {session && (
+            <div className="flex items-center gap-2 text-sm text-gray-600">
+              <span>
+                {session.name} · {new Date(session.created_at).toLocaleString('id-ID')}
+              </span>
+              {session.is_official ? (
+                <Badge>Hasil Resmi</Badge>
+              ) : (
+                <Badge variant="outline">Perhitungan Terbaru (belum resmi)</Badge>
+              )}
+            </div>
+          )}
+          <div className="pt-2">
+            <RankingScopeSelector
+              scope={scope}
+              group={scopeGroup}
+              groups={scopeGroups}
+              onChange={(newScope, newGroup) => {
+                setScope(newScope);
+                setScopeGroup(newGroup);
+              }}
+            />
+          </div>
         </CardHeader>
         <CardContent>
           <div className="space-y-4">
-            {results.map((student) => (
-              <Card key={student.id} className={`${student.rank <= 3 ? 'ring-2 ring-yellow-200' : ''}`}>
-                <CardContent className="p-6">
-                  <div className="flex items-start justify-between">
-                    <div className="flex items-center space-x-4">
-                      <div className={`p-3 rounded-full bg-gradient-to-r ${getRankColor(student.rank)}`}>
-                        {getRankIcon(student.rank)}
-                      </div>
-                      <div>
-                        <div className="flex items-center space-x-2">
-                          <h3 className="text-xl font-bold text-gray-900">{student.student.name}</h3>
-                          <Badge variant={student.rank <= 3 ? 'default' : 'secondary'}>
-                            Rank #{student.rank}
-                          </Badge>
+            {visibleResults.map((student) => {
+              const rank = getScopeRank(student, scope);
+              return (
+                <Card key={student.id} className={`${rank <= 3 ? 'ring-2 ring-yellow-200' : ''}`}>
+                  <CardContent className="p-6">
+                    <div className="flex items-start justify-between">
+                      <div className="flex items-center space-x-4">
+                        <div className={`p-3 rounded-full bg-gradient-to-r ${getRankColor(rank)}`}>
+                          {getRankIcon(rank)}
+                        </div>
+                        <div>
+                          <div className="flex items-center space-x-2">
+                            <h3 className="text-xl font-bold text-gray-900">{student.student.name}</h3>
+                            <Badge variant={rank <= 3 ? 'default' : 'secondary'}>
+                              Rank #{rank}
+                            </Badge>
+                            {scope !== 'global' && (
+                              <span className="text-xs text-gray-500">(sekolah #{student.rank})</span>
+                            )}
+                            {student.tie_break && (
+                              <Badge variant="outline" className="border-amber-300 text-amber-700 font-normal">
+                                {formatTieBreak(student.tie_break, criteria)}
+                              </Badge>
+                            )}
+                          </div>
+                          <p className="text-gray-600">Kelas {student.student.class}</p>
+                          {getOtherPeriodRanks(student.student.nis).length > 0 && (
+                            <div className="flex flex-wrap gap-1 mt-1">
+                              {getOtherPeriodRanks(student.student.nis).map(({ period, rank }) => (
+                                <Badge key={period.id} variant="outline" className="font-normal">
+                                  {formatPeriod(period)}: #{rank}
+                                </Badge>
+                              ))}
+                            </div>
+                          )}
                         </div>
-                        <p className="text-gray-600">Kelas {student.student.class}</p>
                       </div>
-                    </div>
-                    <div className="text-right">
-                      <div className="text-3xl font-bold text-green-600">
-                        {(student.final_score * 100).toFixed(2)}%
+                      <div className="text-right">
+                        <div className="text-3xl font-bold text-green-600">
+                          {(student.final_score * 100).toFixed(2)}%
+                        </div>
+                        <p className="text-sm text-gray-500">
+                          Skor akhir{session ? ` (${rankingMethodLabels[session.method] || session.method})` : ''}
+                        </p>
+                        {student.methodSummary.map(item => (
+                          <p key={item.label} className="text-xs text-gray-500">
+                            {item.label}: {item.value}
+                          </p>
+                        ))}
                       </div>
-                      <p className="text-sm text-gray-500">Skor AHP</p>
                     </div>
-                  </div>
 
-                  <div className="mt-6 grid grid-cols-5 gap-4">
-                    <div className="text-center p-3 bg-blue-50 rounded-lg">
-                      <div className="text-sm font-medium text-blue-700">Akademik</div>
-                      <div className="text-lg font-bold text-blue-900">{student.criteria.academic}</div>
+                    <div className="mt-6 grid grid-cols-2 md:grid-cols-3 lg:grid-cols-5 gap-4">
+                      {criteria.map((criterion, index) => {
+                        const color = criteriaColors[index % criteriaColors.length];
+                        const detail = student.criteria[criterion.id];
+                        const imputed = student.imputedCriteria.includes(criterion.id);
+                        return (
+                          <div key={criterion.id} className={`text-center p-3 rounded-lg ${color.box}`}>
+                            <div className={`text-sm font-medium ${color.label}`}>{criterion.name}</div>
+                            <div className={`text-lg font-bold ${color.value}`}>
+                              {detail ? (imputed ? detail.raw.toFixed(2) : detail.raw) : '-'}
+                              {imputed && (
+                                <span className="ml-1 text-xs font-normal text-amber-700" title="Nilai hasil imputasi">*</span>
+                              )}
+                            </div>
+                            <div className="mt-1 space-y-0.5 text-xs text-gray-600">
+                              <div>Bobot: {((criterion.weight || 0) * 100).toFixed(1)}%</div>
+                              {isSawSession ? (
+                                <>
+                                  <div>
+                                    Normalisasi{isCostCriterion(criterion) ? ' (cost)' : ''}: {detail ? detail.normalized.toFixed(3) : '-'}
+                                    {detail && <span className="block text-[10px] text-gray-500">{normalizationLabels[detail.strategy]}</span>}
+                                  </div>
+                                  <div>Kontribusi: {detail ? (detail.weighted * 100).toFixed(2) : '-'}%</div>
+                                </>
+                              ) : (
+                                (student.methodDetails[criterion.id] || []).map(item => (
+                                  <div key={item.label}>
+                                    {item.label}: {item.value}
+                                  </div>
+                                ))
+                              )}
+                            </div>
+                          </div>
+                        );
+                      })}
                     </div>
-                    <div className="text-center p-3 bg-green-50 rounded-lg">
-                      <div className="text-sm font-medium text-green-700">Perilaku</div>
-                      <div className="text-lg font-bold text-green-900">{student.criteria.behavior}</div>
-                    </div>
-                    <div className="text-center p-3 bg-purple-50 rounded-lg">
-                      <div className="text-sm font-medium text-purple-700">Prestasi</div>
-                      <div className="text-lg font-bold text-purple-900">{student.criteria.achievement}</div>
-                    </div>
-                    <div className="text-center p-3 bg-orange-50 rounded-lg">
-                      <div className="text-sm font-medium text-orange-700">Kepemimpinan</div>
-                      <div className="text-lg font-bold text-orange-900">{student.criteria.leadership}</div>
-                    </div>
-                    <div className="text-center p-3 bg-red-50 rounded-lg">
-                      <div className="text-sm font-medium text-red-700">Kehadiran</div>
-                      <div className="text-lg font-bold text-red-900">{student.criteria.attendance}</div>
-                    </div>
-                  </div>
-                </CardContent>
-              </Card>
-            ))}
+                  </CardContent>
+                </Card>
+              );
+            })}
           </div>
         </CardContent>
       </Card>
 
-      {results.length >= 3 && (
+      {visibleResults.length >= 3 && (
         <Card>
           <CardHeader>
             <CardTitle>Ringkasan Hasil</CardTitle>
           </CardHeader>
           <CardContent>
+            {/* Juara mengikuti peringkat bersama: siswa seri tampil bersama, peringkat yang terlewati tidak ditampilkan */}
             <div className="grid grid-cols-1 md:grid-cols-3 gap-6">
-              <div className="text-center p-6 bg-gradient-to-r from-yellow-400 to-yellow-600 rounded-lg text-white">
-                <Trophy className="h-12 w-12 mx-auto mb-4" />
-                <h3 className="text-xl font-bold">Juara 1</h3>
-                <p className="text-lg">{results[0].student.name}</p>
-                <p className="text-sm opacity-90">Skor: {(results[0].final_score * 100).toFixed(2)}%</p>
-              </div>
-              
-              <div className="text-center p-6 bg-gradient-to-r from-gray-300 to-gray-500 rounded-lg text-white">
-                <Medal className="h-12 w-12 mx-auto mb-4" />
-                <h3 className="text-xl font-bold">Juara 2</h3>
-                <p className="text-lg">{results[1].student.name}</p>
-                <p className="text-sm opacity-90">Skor: {(results[1].final_score * 100).toFixed(2)}%</p>
-              </div>
-              
-              <div className="text-center p-6 bg-gradient-to-r from-amber-400 to-amber-600 rounded-lg text-white">
-                <Award className="h-12 w-12 mx-auto mb-4" />
-                <h3 className="text-xl font-bold">Juara 3</h3>
-                <p className="text-lg">{results[2].student.name}</p>
-                <p className="text-sm opacity-90">Skor: {(results[2].final_score * 100).toFixed(2)}%</p>
-              </div>
+              {podium.map(({ rank, icon: Icon, color }) => {
+                const winners = visibleResults.filter(result => getScopeRank(result, scope) === rank);
+                if (winners.length === 0) return null;
+
+                return (
+                  <div key={rank} className={`text-center p-6 bg-gradient-to-r ${color} rounded-lg text-white`}>
+                    <Icon className="h-12 w-12 mx-auto mb-4" />
+                    <h3 className="text-xl font-bold">Juara {rank}</h3>
+                    {winners.map(winner => (
+                      <div key={winner.id}>
+                        <p className="text-lg">{winner.student.name}</p>
+                        <p className="text-sm opacity-90">Skor: {(winner.final_score * 100).toFixed(2)}%</p>
+                      </div>
+                    ))}
+                  </div>
+                );
+              })}
             </div>
 
             <div className="mt-8 p-6 bg-blue-50 rounded-lg">
@@ -0,0 +1,45 @@
+import { Label } from '@/components/ui/label';
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from '@/components/ui/select';
+import { RankingScope, rankingScopeLabels } from '@/lib/scoring';
+
+interface RankingScopeSelectorProps {
+  scope: RankingScope;
+  group: string;
+  groups: string[];
+  onChange: (scope: RankingScope, group: string) => void;
+}
+
+const RankingScopeSelector = ({ scope, group, groups, onChange }: RankingScopeSelectorProps) => (
+  <div className="flex flex-col md:flex-row gap-2">
+    <div className="w-full md:w-48">
+      <Label htmlFor="ranking-scope">Cakupan Ranking</Label>
+      <Select value={scope} onValueChange={(value) => onChange(value as RankingScope, '')}>
+        <SelectTrigger id="ranking-scope">
+          <SelectValue />
+        </SelectTrigger>
+        <SelectContent>
+          {(Object.keys(rankingScopeLabels) as RankingScope[]).map(key => (
+            <SelectItem key={key} value={key}>{rankingScopeLabels[key]}</SelectItem>
+          ))}
+        </SelectContent>
+      </Select>
+    </div>
+    {scope !== 'global' && (
+      <div className="w-full md:w-40">
+        <Label htmlFor="ranking-group">{scope === 'class' ? 'Kelas' : 'Tingkat'}</Label>
+        <Select value={group || groups[0]} onValueChange={(value) => onChange(scope, value)}>
+          <SelectTrigger id="ranking-group">
+            <SelectValue />
+          </SelectTrigger>
+          <SelectContent>
+            {groups.map(g => (
+              <SelectItem key={g} value={g}>{scope === 'class' ? `Kelas ${g}` : `Tingkat ${g}`}</SelectItem>
+            ))}
+          </SelectContent>
+        </Select>
+      </div>
+    )}
+  </div>
+);
+
+export default RankingScopeSelector;
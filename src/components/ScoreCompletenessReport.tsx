@@ -0,0 +1,116 @@
+import { Alert, AlertDescription, AlertTitle } from '@/components/ui/alert';
+import { Progress } from '@/components/ui/progress';
+import { Table, TableBody, TableCell, TableHead, TableHeader, TableRow } from '@/components/ui/table';
+import { AlertTriangle, CheckCircle } from 'lucide-react';
+import { CompletenessReport, MissingScorePolicy } from '@/lib/missingScores';
+
+interface ScoreCompletenessReportProps {
+  report: CompletenessReport;
+  policy: MissingScorePolicy;
+  students: { id: string; name: string; class: string }[];
+  criteria: { id: string; name: string }[];
+  blockingIssues: string[];
+}
+
+// Laporan kelengkapan nilai sebelum perhitungan dijalankan, per siswa dan per kriteria
+const ScoreCompletenessReport = ({ report, policy, students, criteria, blockingIssues }: ScoreCompletenessReportProps) => {
+  const percent = report.total > 0 ? (report.filled / report.total) * 100 : 0;
+  const missingCount = report.total - report.filled;
+
+  const consequence = policy === 'exclude'
+    ? `${report.students.length} siswa tidak diikutkan dalam perhitungan.`
+    : policy === 'zero'
+      ? `${missingCount} nilai kosong dihitung sebagai 0.`
+      : `${missingCount} nilai kosong diisi dengan rata-rata ${policy === 'class-mean' ? 'kelas' : 'kriteria'}.`;
+
+  return (
+    <div className="space-y-4 text-left">
+      <div>
+        <div className="flex justify-between text-sm mb-1">
+          <span className="font-medium">Kelengkapan Nilai</span>
+          <span>{report.filled}/{report.total} ({percent.toFixed(1)}%)</span>
+        </div>
+        <Progress value={percent} />
+      </div>
+
+      {blockingIssues.length > 0 ? (
+        <Alert variant="destructive">
+          <AlertTriangle className="h-4 w-4" />
+          <AlertTitle>Perhitungan Tidak Dapat Dijalankan</AlertTitle>
+          <AlertDescription>
+            <ul className="list-disc ml-5 space-y-1">
+              {blockingIssues.map(issue => <li key={issue}>{issue}</li>)}
+            </ul>
+          </AlertDescription>
+        </Alert>
+      ) : missingCount === 0 ? (
+        <Alert className="bg-green-50">
+          <CheckCircle className="h-4 w-4 text-green-600" />
+          <AlertTitle className="text-green-800">Nilai Lengkap</AlertTitle>
+          <AlertDescription className="text-green-700">Semua siswa memiliki nilai untuk setiap kriteria.</AlertDescription>
+        </Alert>
+      ) : (
+        <Alert className="bg-amber-50">
+          <AlertTriangle className="h-4 w-4 text-amber-600" />
+          <AlertTitle className="text-amber-800">Nilai Belum Lengkap</AlertTitle>
+          <AlertDescription className="text-amber-700">
+            {report.students.length} siswa memiliki {missingCount} nilai kosong. {consequence}
+          </AlertDescription>
+        </Alert>
+      )}
+
+      {missingCount > 0 && (
+        <div className="grid grid-cols-1 md:grid-cols-2 gap-4">
+          <div className="overflow-x-auto">
+            <Table>
+              <TableHeader>
+                <TableRow>
+                  <TableHead>Kriteria</TableHead>
+                  <TableHead>Terisi</TableHead>
+                </TableRow>
+              </TableHeader>
+              <TableBody>
+                {report.criteria.map(row => (
+                  <TableRow key={row.criterionId}>
+                    <TableCell>{criteria.find(c => c.id === row.criterionId)?.name}</TableCell>
+                    <TableCell className={row.filled < students.length ? 'text-amber-700 font-semibold' : ''}>
+                      {row.filled}/{students.length}
+                    </TableCell>
+                  </TableRow>
+                ))}
+              </TableBody>
+            </Table>
+          </div>
+          <div className="overflow-x-auto max-h-64 overflow-y-auto">
+            <Table>
+              <TableHeader>
+                <TableRow>
+                  <TableHead>Siswa</TableHead>
+                  <TableHead>Nilai Kosong</TableHead>
+                </TableRow>
+              </TableHeader>
+              <TableBody>
+                {report.students.map(row => {
+                  const student = students.find(s => s.id === row.studentId);
+                  return (
+                    <TableRow key={row.studentId}>
+                      <TableCell>
+                        {student?.name}
+                        <span className="block text-xs text-gray-500">{student?.class}</span>
+                      </TableCell>
+                      <TableCell className="text-sm">
+                        {row.missing.map(id => criteria.find(c => c.id === id)?.name).join(', ')}
+                      </TableCell>
+                    </TableRow>
+                  );
+                })}
+              </TableBody>
+            </Table>
+          </div>
+        </div>
+      )}
+    </div>
+  );
+};
+
+export default ScoreCompletenessReport;
@@ -0,0 +1,362 @@
+import { useState, useEffect, useRef } from 'react';
+import { Card, CardContent, CardHeader, CardTitle } from '@/components/ui/card';
+import { Button } from '@/components/ui/button';
+import { Input } from '@/components/ui/input';
+import { Label } from '@/components/ui/label';
+import { Badge } from '@/components/ui/badge';
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from '@/components/ui/select';
+import { Save, Undo2 } from 'lucide-react';
+import { toast } from '@/hooks/use-toast';
+import { supabase } from '@/integrations/supabase/client';
+import { getLeafCriteria } from '@/lib/criteriaTree';
+import { Role, can } from '@/lib/permissions';
+import { normalizeScoreInput, parseScoreInput, saveScoreChanges, validateScoreInput } from '@/lib/studentScores';
+
+interface Student {
+  id: string;
+  name: string;
+  nis: string;
+  class: string;
+}
+
+interface Criteria {
+  id: string;
+  name: string;
+  min_score: number;
+  max_score: number;
+}
+
+interface StoredScore {
+  id: string;
+  score: number;
+}
+
+interface ScoreGridProps {
+  periodId: string;
+  role: Role;
+}
+
+const ALL_CLASSES = 'all';
+
+const cellKey = (studentId: string, criteriaId: string) => `${studentId}:${criteriaId}`;
+
+
+// Tabel nilai ala spreadsheet: siswa sebagai baris, kriteria sebagai kolom, disimpan sekaligus
+const ScoreGrid = ({ periodId, role }: ScoreGridProps) => {
+  const canEditScores = can(role, 'scores.edit');
+
+  const [students, setStudents] = useState<Student[]>([]);
+  const [criteria, setCriteria] = useState<Criteria[]>([]);
+  const [stored, setStored] = useState<{[key: string]: StoredScore}>({});
+  const [edits, setEdits] = useState<{[key: string]: string}>({});
+  const [classFilter, setClassFilter] = useState(ALL_CLASSES);
+  const [loading, setLoading] = useState(true);
+  const [saving, setSaving] = useState(false);
+  const inputRefs = useRef<{[position: string]: HTMLInputElement | null}>({});
+
+  useEffect(() => {
+    fetchData();
+  }, []);
+
+  const fetchData = async () => {
+    try {
+      const [studentsResult, criteriaResult, scoresResult] = await Promise.all([
+        supabase.from('students').select('id, name, nis, class').eq('period_id', periodId).order('name'),
+        supabase.from('criteria').select('id, name, min_score, max_score, parent_id').order('name'),
+        supabase
+          .from('student_scores')
+          .select('id, student_id, criteria_id, score, students!inner(period_id)')
+          .eq('students.period_id', periodId)
+      ]);
+
+      if (studentsResult.error) throw studentsResult.error;
+      if (criteriaResult.error) throw criteriaResult.error;
+      if (scoresResult.error) throw scoresResult.error;
+
+      const storedScores: {[key: string]: StoredScore} = {};
+      (scoresResult.data || []).forEach(score => {
+        storedScores[cellKey(score.student_id, score.criteria_id)] = { id: score.id, score: score.score };
+      });
+
+      setStudents(studentsResult.data || []);
+      // Nilai hanya diisi pada kriteria daun
+      setCriteria(getLeafCriteria(criteriaResult.data || []));
+      setStored(storedScores);
+      setEdits({});
+    } catch (error) {
+      console.error('Error fetching score grid:', error);
+      toast({
+        title: "Error",
+        description: "Gagal memuat data nilai",
+        variant: "destructive",
+      });
+    } finally {
+      setLoading(false);
+    }
+  };
+
+  const classes = Array.from(new Set(students.map(s => s.class)))
+    .sort((a, b) => a.localeCompare(b, 'id', { numeric: true }));
+  const visibleStudents = classFilter === ALL_CLASSES ? students : students.filter(s => s.class === classFilter);
+
+  const storedValue = (key: string) => (stored[key] ? String(stored[key].score) : '');
+  const cellValue = (key: string) => edits[key] ?? storedValue(key);
+
+  // Sel berubah bila isinya berbeda dari nilai tersimpan (dibandingkan sebagai angka)
+  const isDirty = (key: string) => {
+    if (edits[key] === undefined) return false;
+    const edited = normalizeScoreInput(edits[key]);
+    const original = storedValue(key);
+    return edited === '' || original === '' ? edited !== original : parseScoreInput(edits[key]) !== Number(original);
+  };
+
+  // Perubahan tetap disimpan walau kelasnya sedang tidak ditampilkan
+  const dirtyCells = Object.keys(edits).filter(isDirty);
+  const invalidCells = dirtyCells.filter(key => {
+    const criterion = criteria.find(c => c.id === key.split(':')[1]);
+    return criterion && validateScoreInput(edits[key], criterion) !== null;
+  });
+
+  const setCell = (key: string, value: string) => setEdits(current => ({ ...current, [key]: value }));
+
+  const focusCell = (row: number, col: number) => {
+    const input = inputRefs.current[`${row}:${col}`];
+    if (input) {
+      input.focus();
+      input.select();
+    }
+  };
+
+  // Panah atas/bawah dan Enter berpindah baris; panah kiri/kanan berpindah kolom di tepi teks
+  const handleKeyDown = (e: React.KeyboardEvent<HTMLInputElement>, row: number, col: number) => {
+    const input = e.currentTarget;
+    const atStart = input.selectionStart === 0 && input.selectionEnd === 0;
+    const atEnd = input.selectionStart === input.value.length;
+
+    if (e.key === 'ArrowDown' || e.key === 'Enter') {
+      e.preventDefault();
+      focusCell(row + 1, col);
+    } else if (e.key === 'ArrowUp') {
+      e.preventDefault();
+      focusCell(row - 1, col);
+    } else if (e.key === 'ArrowLeft' && atStart) {
+      e.preventDefault();
+      focusCell(row, col - 1);
+    } else if (e.key === 'ArrowRight' && atEnd) {
+      e.preventDefault();
+      focusCell(row, col + 1);
+    } else if (e.key === 'Escape') {
+      if (!canEditScores) return;
+      const key = cellKey(visibleStudents[row].id, criteria[col].id);
+      setEdits(current => {
+        const next = { ...current };
+        delete next[key];
+        return next;
+      });
+    }
+  };
+
+  // Tempel blok sel dari Excel (baris dipisah baris baru, kolom dipisah tab) mulai dari sel aktif
+  const handlePaste = (e: React.ClipboardEvent<HTMLInputElement>, row: number, col: number) => {
+    if (!canEditScores) return;
+    const text = e.clipboardData.getData('text');
+    if (!text.includes('\t') && !text.includes('\n')) return;
+
+    e.preventDefault();
+    const pastedRows = text.replace(/\r/g, '').split('\n');
+    if (pastedRows[pastedRows.length - 1] === '') pastedRows.pop();
+
+    const pasted: {[key: string]: string} = {};
+    pastedRows.forEach((line, i) => {
+      const student = visibleStudents[row + i];
+      if (!student) return;
+      line.split('\t').forEach((value, j) => {
+        const criterion = criteria[col + j];
+        if (criterion) pasted[cellKey(student.id, criterion.id)] = value.trim();
+      });
+    });
+
+    setEdits(current => ({ ...current, ...pasted }));
+    toast({
+      title: "Nilai Ditempel",
+      description: `${Object.keys(pasted).length} sel diisi dari clipboard`,
+    });
+  };
+
+  const discardChanges = () => setEdits({});
+
+  // Satu kali simpan: upsert untuk sel yang diubah, hapus untuk sel yang dikosongkan
+  const saveChanges = async () => {
+    if (!canEditScores) return;
+    const changed = Object.keys(edits).filter(isDirty);
+    if (changed.length === 0) return;
+
+    const invalid = changed.filter(key => {
+      const criterion = criteria.find(c => c.id === key.split(':')[1]);
+      return !criterion || validateScoreInput(edits[key], criterion) !== null;
+    });
+    if (invalid.length > 0) {
+      toast({
+        title: "Validasi Gagal",
+        description: `${invalid.length} sel memiliki nilai tidak valid`,
+        variant: "destructive",
+      });
+      return;
+    }
+
+    const upserts = changed
+      .filter(key => normalizeScoreInput(edits[key]) !== '')
+      .map(key => {
+        const [studentId, criteriaId] = key.split(':');
+        return { student_id: studentId, criteria_id: criteriaId, score: parseScoreInput(edits[key]) };
+      });
+    const deletedIds = changed
+      .filter(key => normalizeScoreInput(edits[key]) === '' && stored[key])
+      .map(key => stored[key].id);
+
+    try {
+      setSaving(true);
+
+      await saveScoreChanges(upserts, deletedIds);
+
+      toast({
+        title: "Nilai Disimpan",
+        description: `${upserts.length} nilai disimpan${deletedIds.length > 0 ? `, ${deletedIds.length} nilai dihapus` : ''}`,
+      });
+
+      await fetchData();
+    } catch (error) {
+      console.error('Error saving score grid:', error);
+      toast({
+        title: "Error",
+        description: "Gagal menyimpan nilai",
+        variant: "destructive",
+      });
+    } finally {
+      setSaving(false);
+    }
+  };
+
+  if (loading) {
+    return (
+      <div className="flex justify-center p-8">
+        <div className="animate-spin rounded-full h-8 w-8 border-b-2 border-blue-600"></div>
+      </div>
+    );
+  }
+
+  return (
+    <Card>
+      <CardHeader className="flex flex-col md:flex-row md:items-center justify-between gap-4">
+        <div>
+          <CardTitle>Input Nilai</CardTitle>
+          <p className="text-sm text-gray-600">
+            Gunakan panah atau Enter untuk berpindah sel, Esc untuk membatalkan sel, dan tempel langsung dari Excel.
+          </p>
+        </div>
+        <div className="flex flex-col md:flex-row md:items-end gap-2">
+          <div className="w-full md:w-40">
+            <Label htmlFor="score-grid-class">Kelas</Label>
+            <Select value={classFilter} onValueChange={setClassFilter}>
+              <SelectTrigger id="score-grid-class">
+                <SelectValue />
+              </SelectTrigger>
+              <SelectContent>
+                <SelectItem value={ALL_CLASSES}>Semua Kelas</SelectItem>
+                {classes.map(className => (
+                  <SelectItem key={className} value={className}>{className}</SelectItem>
+                ))}
+              </SelectContent>
+            </Select>
+          </div>
+          {canEditScores && (
+            <>
+              <Button variant="outline" onClick={discardChanges} disabled={saving || dirtyCells.length === 0}>
+                <Undo2 className="h-4 w-4 mr-2" />
+                Batalkan
+              </Button>
+              <Button onClick={saveChanges} disabled={saving || dirtyCells.length === 0 || invalidCells.length > 0}>
+                <Save className="h-4 w-4 mr-2" />
+                {saving ? 'Menyimpan...' : `Simpan (${dirtyCells.length})`}
+              </Button>
+            </>
+          )}
+        </div>
+      </CardHeader>
+      <CardContent>
+        {invalidCells.length > 0 && (
+          <p className="text-sm text-red-600 mb-2">
+            {invalidCells.length} sel tidak valid. Arahkan kursor ke sel bertanda merah untuk melihat pesannya.
+          </p>
+        )}
+        {visibleStudents.length === 0 || criteria.length === 0 ? (
+          <p className="text-center py-6 text-gray-500">Belum ada data siswa atau kriteria untuk diisi.</p>
+        ) : (
+          <div className="overflow-auto max-h-[70vh] border rounded-lg">
+            <table className="w-full border-collapse text-sm">
+              <thead className="sticky top-0 z-10 bg-gray-50">
+                <tr>
+                  <th className="border p-2 text-left">Nama Siswa</th>
+                  <th className="border p-2 text-left">Kelas</th>
+                  {criteria.map(criterion => (
+                    <th key={criterion.id} className="border p-2 min-w-[7rem]">
+                      {criterion.name}
+                      <span className="block text-xs font-normal text-gray-500">
+                        {criterion.min_score}–{criterion.max_score}
+                      </span>
+                    </th>
+                  ))}
+                </tr>
+              </thead>
+              <tbody>
+                {visibleStudents.map((student, row) => (
+                  <tr key={student.id}>
+                    <td className="border p-2 font-medium whitespace-nowrap">
+                      {student.name}
+                      <span className="block text-xs text-gray-500">{student.nis}</span>
+                    </td>
+                    <td className="border p-2">{student.class}</td>
+                    {criteria.map((criterion, col) => {
+                      const key = cellKey(student.id, criterion.id);
+                      const dirty = isDirty(key);
+                      const error = dirty ? validateScoreInput(edits[key], criterion) : null;
+                      return (
+                        <td key={criterion.id} className="border p-0">
+                          <Input
+                            ref={(input) => {
+                              inputRefs.current[`${row}:${col}`] = input;
+                            }}
+                            value={cellValue(key)}
+                            onChange={(e) => setCell(key, e.target.value)}
+                            onKeyDown={(e) => handleKeyDown(e, row, col)}
+                            onPaste={(e) => handlePaste(e, row, col)}
+                            onFocus={(e) => e.target.select()}
+                            readOnly={!canEditScores}
+                            inputMode="decimal"
+                            aria-label={`${criterion.name} ${student.name}`}
+                            title={error || undefined}
+                            className={`h-9 rounded-none border-0 text-center focus-visible:ring-inset ${
+                              error ? 'bg-red-50 ring-1 ring-inset ring-red-500' : dirty ? 'bg-yellow-50' : ''
+                            }`}
+                          />
+                        </td>
+                      );
+                    })}
+                  </tr>
+                ))}
+              </tbody>
+            </table>
+          </div>
+        )}
+        {dirtyCells.length > 0 && (
+          <div className="flex items-center gap-2 mt-3 text-sm text-gray-600">
+            <Badge variant="outline" className="bg-yellow-50">{dirtyCells.length} sel diubah</Badge>
+            Perubahan belum tersimpan. Sel yang dikosongkan akan dihapus saat disimpan.
+          </div>
+        )}
+      </CardContent>
+    </Card>
+  );
+};
+
+export default ScoreGrid;
@@ -0,0 +1,279 @@
+import { useState, useEffect } from 'react';
+import { Card, CardContent, CardHeader, CardTitle } from '@/components/ui/card';
+import { Button } from '@/components/ui/button';
+import { Label } from '@/components/ui/label';
+import { Badge } from '@/components/ui/badge';
+import { Slider } from '@/components/ui/slider';
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from '@/components/ui/select';
+import { Table, TableBody, TableCell, TableHead, TableHeader, TableRow } from '@/components/ui/table';
+import { ArrowDown, ArrowUp } from 'lucide-react';
+import {
+  ScoringCriterion,
+  ScoreRow,
+  TiePolicy,
+  calculateScoreStats,
+  isCostCriterion,
+  scoreStudent,
+  tieBreakValue
+} from '@/lib/scoring';
+import { buildDecisionMatrix } from '@/lib/mcdm';
+import {
+  CriticalWeightChange,
+  SensitivityModel,
+  WeightThreshold,
+  findCriticalWeightChanges,
+  rankOrder,
+  redistributeWeights,
+  scoreWithWeights
+} from '@/lib/sensitivity';
+
+interface SensitivityAnalysisProps {
+  method: string;
+  criteria: (ScoringCriterion & { name: string })[];
+  students: { id: string; name: string; class: string }[];
+  scores: ScoreRow[];
+  // Prioritas lokal alternatif, hanya tersedia langsung setelah perhitungan metode AHP
+  localPriorities?: {[criteriaId: string]: { priorities: {[studentId: string]: number} }} | null;
+  // Aturan seri sesi agar urutan top-N sama dengan tabel hasil; null untuk sesi lama
+  tiePolicy?: TiePolicy | null;
+}
+
+const topNOptions = [1, 3, 5, 10];
+
+// Jumlah baris tabel perubahan peringkat
+const VISIBLE_RANKS = 10;
+
+const formatThreshold = (threshold: WeightThreshold | null) =>
+  threshold
+    ? `${threshold.delta > 0 ? '+' : ''}${(threshold.delta * 100).toFixed(2)} poin (→ ${(threshold.weight * 100).toFixed(2)}%)`
+    : '—';
+
+// Geser bobot satu kriteria dan lihat dampaknya pada peringkat, beserta batas kritis tiap kriteria
+const SensitivityAnalysis = ({ method, criteria, students, scores, localPriorities, tiePolicy }: SensitivityAnalysisProps) => {
+  const [selectedId, setSelectedId] = useState(criteria[0]?.id || '');
+  const [adjustedWeight, setAdjustedWeight] = useState<number | null>(null);
+  const [topN, setTopN] = useState(3);
+  const [criticalChanges, setCriticalChanges] = useState<CriticalWeightChange[]>([]);
+
+  const studentIds = students.map(s => s.id);
+  const baseWeights = criteria.map(c => c.weight || 0);
+  const costs = criteria.map(isCostCriterion);
+  // Daftar siswa dari induk dibentuk ulang setiap render; id dipakai sebagai dependensi yang stabil
+  const studentKey = studentIds.join(',');
+
+  // Skor seri dipisahkan oleh kriteria prioritas sesi, lalu nama siswa, sama seperti perhitungan
+  const tieBreakers = (tiePolicy?.mode === 'criteria' ? tiePolicy.criteria : [])
+    .map(id => criteria.find(c => c.id === id))
+    .filter(criterion => criterion !== undefined);
+  const rawScore = (studentIndex: number, criteriaId: string) =>
+    scores.find(s => s.student_id === studentIds[studentIndex] && s.criteria_id === criteriaId)?.score ?? 0;
+  const compareTies = (a: number, b: number) => {
+    for (const criterion of tieBreakers) {
+      const difference = tieBreakValue(criterion, rawScore(b, criterion.id)) - tieBreakValue(criterion, rawScore(a, criterion.id));
+      if (difference !== 0) return difference;
+    }
+    return students[a].name.localeCompare(students[b].name);
+  };
+
+  // Matriks nilai tidak bergantung pada bobot sehingga cukup disusun sekali per render
+  const useSynthesis = method === 'ahp' && !!localPriorities;
+  const model: SensitivityModel = method === 'topsis' || method === 'wp' ? method : 'additive';
+  const buildMatrix = () => {
+    if (useSynthesis) {
+      return studentIds.map(id => criteria.map(c => localPriorities[c.id]?.priorities[id] ?? 0));
+    }
+    if (model !== 'additive') {
+      return buildDecisionMatrix(studentIds, criteria, scores);
+    }
+    const stats = calculateScoreStats(criteria, scores);
+    return studentIds.map(id => {
+      const { breakdown } = scoreStudent(id, criteria, scores, stats);
+      return criteria.map(c => breakdown[c.id].normalized);
+    });
+  };
+  const matrix = buildMatrix();
+
+  useEffect(() => {
+    setCriticalChanges(findCriticalWeightChanges(model, matrix, baseWeights, costs, topN, compareTies));
+  }, [criteria, scores, studentKey, localPriorities, method, topN, tiePolicy]);
+
+  const selectedIndex = Math.max(criteria.findIndex(c => c.id === selectedId), 0);
+  const weights = adjustedWeight === null
+    ? baseWeights
+    : redistributeWeights(baseWeights, selectedIndex, adjustedWeight);
+
+  const baseRanks: {[studentId: string]: number} = {};
+  rankOrder(scoreWithWeights(model, matrix, baseWeights, costs), compareTies).forEach((i, position) => {
+    baseRanks[studentIds[i]] = position + 1;
+  });
+  const newScores = scoreWithWeights(model, matrix, weights, costs);
+  const newOrder = rankOrder(newScores, compareTies);
+  const changedCount = newOrder.filter((i, position) => baseRanks[studentIds[i]] !== position + 1).length;
+
+  if (criteria.length < 2 || students.length < 2) return null;
+
+  return (
+    <Card>
+      <CardHeader>
+        <CardTitle>Analisis Sensitivitas Bobot</CardTitle>
+        <p className="text-sm text-gray-600">
+          Ubah bobot satu kriteria; bobot kriteria lain diskalakan proporsional sehingga total tetap 100%.
+        </p>
+        {method === 'ahp' && !localPriorities && (
+          <p className="text-xs text-amber-700">
+            Sesi lama tidak menyimpan prioritas lokal alternatif, sehingga analisis memakai skor SAW.
+          </p>
+        )}
+      </CardHeader>
+      <CardContent className="space-y-6">
+        <div className="flex flex-col md:flex-row gap-4 md:items-end">
+          <div className="w-full md:w-64">
+            <Label htmlFor="sensitivity-criterion">Kriteria</Label>
+            <Select
+              value={criteria[selectedIndex].id}
+              onValueChange={(value) => {
+                setSelectedId(value);
+                setAdjustedWeight(null);
+              }}
+            >
+              <SelectTrigger id="sensitivity-criterion">
+                <SelectValue />
+              </SelectTrigger>
+              <SelectContent>
+                {criteria.map(criterion => (
+                  <SelectItem key={criterion.id} value={criterion.id}>{criterion.name}</SelectItem>
+                ))}
+              </SelectContent>
+            </Select>
+          </div>
+          <div className="flex-1">
+            <Label>
+              Bobot {criteria[selectedIndex].name}: {(weights[selectedIndex] * 100).toFixed(1)}%
+              <span className="ml-1 text-xs font-normal text-gray-500">
+                (semula {(baseWeights[selectedIndex] * 100).toFixed(1)}%)
+              </span>
+            </Label>
+            <Slider
+              className="mt-3"
+              min={0}
+              max={100}
+              step={0.5}
+              value={[weights[selectedIndex] * 100]}
+              onValueChange={([value]) => setAdjustedWeight(value / 100)}
+            />
+          </div>
+          <Button variant="outline" onClick={() => setAdjustedWeight(null)} disabled={adjustedWeight === null}>
+            Reset Bobot
+          </Button>
+        </div>
+
+        <div className="flex flex-wrap gap-2">
+          {criteria.map((criterion, index) => (
+            <Badge key={criterion.id} variant={index === selectedIndex ? 'default' : 'secondary'}>
+              {criterion.name}: {(weights[index] * 100).toFixed(1)}%
+            </Badge>
+          ))}
+        </div>
+
+        <div className="overflow-x-auto">
+          <p className="text-sm text-gray-600 mb-2">
+            {changedCount === 0
+              ? 'Peringkat tidak berubah.'
+              : `${changedCount} siswa berpindah peringkat.`}
+          </p>
+          <Table>
+            <TableHeader>
+              <TableRow>
+                <TableHead>Rank Baru</TableHead>
+                <TableHead>Nama Siswa</TableHead>
+                <TableHead>Kelas</TableHead>
+                <TableHead>Rank Semula</TableHead>
+                <TableHead>Skor Baru</TableHead>
+              </TableRow>
+            </TableHeader>
+            <TableBody>
+              {newOrder.slice(0, VISIBLE_RANKS).map((i, position) => {
+                const student = students[i];
+                const shift = baseRanks[student.id] - (position + 1);
+                return (
+                  <TableRow key={student.id} className={shift !== 0 ? 'bg-amber-50' : ''}>
+                    <TableCell className="font-bold">#{position + 1}</TableCell>
+                    <TableCell className="font-medium">{student.name}</TableCell>
+                    <TableCell>{student.class}</TableCell>
+                    <TableCell>
+                      <div className="flex items-center">
+                        #{baseRanks[student.id]}
+                        {shift > 0 && <ArrowUp className="h-4 w-4 ml-1 text-green-600" />}
+                        {shift < 0 && <ArrowDown className="h-4 w-4 ml-1 text-red-600" />}
+                      </div>
+                    </TableCell>
+                    <TableCell>{(newScores[i] * 100).toFixed(2)}%</TableCell>
+                  </TableRow>
+                );
+              })}
+            </TableBody>
+          </Table>
+        </div>
+
+        <div className="overflow-x-auto">
+          <div className="flex items-center justify-between mb-2">
+            <h4 className="font-semibold">Perubahan Bobot Kritis</h4>
+            <div className="flex items-center gap-2">
+              <Label htmlFor="sensitivity-top-n" className="text-sm">Top</Label>
+              <Select value={String(topN)} onValueChange={(value) => setTopN(Number(value))}>
+                <SelectTrigger id="sensitivity-top-n" className="w-20">
+                  <SelectValue />
+                </SelectTrigger>
+                <SelectContent>
+                  {topNOptions.map(option => (
+                    <SelectItem key={option} value={String(option)}>{option}</SelectItem>
+                  ))}
+                </SelectContent>
+              </Select>
+            </div>
+          </div>
+          <Table>
+            <TableHeader>
+              <TableRow>
+                <TableHead>Kriteria</TableHead>
+                <TableHead>Bobot</TableHead>
+                <TableHead>Kenaikan Minimum</TableHead>
+                <TableHead>Penurunan Minimum</TableHead>
+                <TableHead>Perubahan Pertama</TableHead>
+              </TableRow>
+            </TableHeader>
+            <TableBody>
+              {criticalChanges.map(change => {
+                const criterion = criteria[change.index];
+                if (!criterion) return null;
+                // Ambang terdekat dari kedua arah
+                const nearest = [change.increase, change.decrease]
+                  .filter((threshold): threshold is WeightThreshold => threshold !== null)
+                  .sort((a, b) => Math.abs(a.delta) - Math.abs(b.delta))[0];
+                return (
+                  <TableRow key={criterion.id}>
+                    <TableCell className="font-medium">{criterion.name}</TableCell>
+                    <TableCell>{(baseWeights[change.index] * 100).toFixed(2)}%</TableCell>
+                    <TableCell>{formatThreshold(change.increase)}</TableCell>
+                    <TableCell>{formatThreshold(change.decrease)}</TableCell>
+                    <TableCell>
+                      {nearest
+                        ? `#${nearest.position + 1}: ${students[nearest.from]?.name} → ${students[nearest.to]?.name}`
+                        : <span className="text-green-700">Top {topN} stabil</span>}
+                    </TableCell>
+                  </TableRow>
+                );
+              })}
+            </TableBody>
+          </Table>
+          <p className="text-xs text-gray-500 mt-2">
+            Perubahan bobot terkecil (dalam poin persentase) pada satu kriteria yang mengubah urutan top {topN}.
+            Semakin kecil nilainya, semakin rapuh peringkat terhadap bobot kriteria tersebut.
+          </p>
+        </div>
+      </CardContent>
+    </Card>
+  );
+};
+
+export default SensitivityAnalysis;
@@ -0,0 +1,344 @@
+import { useState } from 'react';
+import { Button } from '@/components/ui/button';
+import { Input } from '@/components/ui/input';
+import { Label } from '@/components/ui/label';
+import { Badge } from '@/components/ui/badge';
+import { Alert, AlertDescription } from '@/components/ui/alert';
+import { Dialog, DialogContent, DialogHeader, DialogTitle, DialogTrigger } from '@/components/ui/dialog';
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from '@/components/ui/select';
+import { Table, TableBody, TableCell, TableHead, TableHeader, TableRow } from '@/components/ui/table';
+import { Upload, FileSpreadsheet, ArrowLeft } from 'lucide-react';
+import { toast } from '@/hooks/use-toast';
+import { supabase } from '@/integrations/supabase/client';
+import {
+  ColumnMapping,
+  IGNORED_COLUMN,
+  ImportCriterion,
+  ImportRow,
+  SpreadsheetData,
+  guessMapping,
+  parseSpreadsheet,
+  validateRows
+} from '@/lib/importer';
+
+interface StudentImportProps {
+  periodId: string;
+  criteria: ImportCriterion[];
+  onImported: () => void;
+}
+
+type ImportStep = 'upload' | 'mapping' | 'preview' | 'done';
+
+interface ImportSummary {
+  inserted: number;
+  updated: number;
+  skipped: number;
+  scores: number;
+}
+
+const StudentImport = ({ periodId, criteria, onImported }: StudentImportProps) => {
+  const [isDialogOpen, setIsDialogOpen] = useState(false);
+  const [step, setStep] = useState<ImportStep>('upload');
+  const [fileName, setFileName] = useState('');
+  const [data, setData] = useState<SpreadsheetData>({ headers: [], rows: [] });
+  const [mapping, setMapping] = useState<ColumnMapping | null>(null);
+  const [rows, setRows] = useState<ImportRow[]>([]);
+  const [summary, setSummary] = useState<ImportSummary | null>(null);
+  const [processing, setProcessing] = useState(false);
+
+  const resetWizard = () => {
+    setStep('upload');
+    setFileName('');
+    setData({ headers: [], rows: [] });
+    setMapping(null);
+    setRows([]);
+    setSummary(null);
+  };
+
+  const handleFile = async (e: React.ChangeEvent<HTMLInputElement>) => {
+    const file = e.target.files?.[0];
+    if (!file) return;
+
+    try {
+      setProcessing(true);
+      const parsed = await parseSpreadsheet(file);
+
+      if (parsed.headers.length === 0 || parsed.rows.length === 0) {
+        toast({
+          title: "File Kosong",
+          description: "File tidak berisi header atau baris data",
+          variant: "destructive",
+        });
+        return;
+      }
+
+      setFileName(file.name);
+      setData(parsed);
+      setMapping(guessMapping(parsed.headers, criteria));
+      setStep('mapping');
+    } catch (error) {
+      console.error('Error parsing import file:', error);
+      toast({
+        title: "Error",
+        description: "Gagal membaca file. Pastikan format CSV atau XLSX.",
+        variant: "destructive",
+      });
+    } finally {
+      setProcessing(false);
+      e.target.value = '';
+    }
+  };
+
+  const buildPreview = async () => {
+    if (!mapping) return;
+
+    if ([mapping.name, mapping.nis, mapping.class].includes(IGNORED_COLUMN)) {
+      toast({
+        title: "Pemetaan Belum Lengkap",
+        description: "Kolom Nama, NIS, dan Kelas wajib dipetakan",
+        variant: "destructive",
+      });
+      return;
+    }
+
+    try {
+      setProcessing(true);
+
+      const { data: existing, error } = await supabase
+        .from('students')
+        .select('nis')
+        .eq('period_id', periodId);
+
+      if (error) throw error;
+
+      const existingNis = new Set((existing || []).map(student => student.nis));
+      setRows(validateRows(data, mapping, criteria, existingNis));
+      setStep('preview');
+    } catch (error) {
+      console.error('Error validating import rows:', error);
+      toast({
+        title: "Error",
+        description: "Gagal memeriksa data siswa yang sudah ada",
+        variant: "destructive",
+      });
+    } finally {
+      setProcessing(false);
+    }
+  };
+
+  const runImport = async () => {
+    const validRows = rows.filter(row => row.errors.length === 0);
+    if (validRows.length === 0) return;
+
+    try {
+      setProcessing(true);
+
+      // Satu transaksi di database: siswa dengan NIS yang sudah ada diperbarui, bukan digandakan,
+      // dan bila ada baris yang gagal seluruh impor dibatalkan
+      const { data: result, error } = await supabase.rpc('import_students', {
+        p_period_id: periodId,
+        p_rows: validRows.map(row => ({ name: row.name, nis: row.nis, class: row.class, scores: row.scores }))
+      });
+
+      if (error) throw error;
+
+      const counts = result as { inserted: number; updated: number; scores: number };
+      console.log('Import result:', counts);
+      setSummary({
+        inserted: counts.inserted,
+        updated: counts.updated,
+        skipped: rows.length - validRows.length,
+        scores: counts.scores
+      });
+      setStep('done');
+
+      onImported();
+    } catch (error) {
+      console.error('Error importing students:', error);
+      toast({
+        title: "Error",
+        description: "Gagal mengimpor data siswa. Tidak ada data yang disimpan, perbaiki lalu ulangi impor.",
+        variant: "destructive",
+      });
+    } finally {
+      setProcessing(false);
+    }
+  };
+
+  const renderColumnSelect = (id: string, label: string, value: string, onChange: (value: string) => void) => (
+    <div key={id}>
+      <Label htmlFor={id}>{label}</Label>
+      <Select value={value} onValueChange={onChange}>
+        <SelectTrigger id={id}>
+          <SelectValue />
+        </SelectTrigger>
+        <SelectContent>
+          <SelectItem value={IGNORED_COLUMN}>— Tidak dipetakan —</SelectItem>
+          {data.headers.filter(header => header).map(header => (
+            <SelectItem key={header} value={header}>{header}</SelectItem>
+          ))}
+        </SelectContent>
+      </Select>
+    </div>
+  );
+
+  const errorCount = rows.filter(row => row.errors.length > 0).length;
+  const updateCount = rows.filter(row => row.errors.length === 0 && row.isUpdate).length;
+
+  return (
+    <Dialog
+      open={isDialogOpen}
+      onOpenChange={(open) => {
+        setIsDialogOpen(open);
+        if (!open) resetWizard();
+      }}
+    >
+      <DialogTrigger asChild>
+        <Button variant="outline" className="flex items-center">
+          <Upload className="h-4 w-4 mr-2" />
+          Impor Siswa
+        </Button>
+      </DialogTrigger>
+      <DialogContent className="max-w-4xl max-h-[90vh] overflow-y-auto">
+        <DialogHeader>
+          <DialogTitle>Impor Siswa dan Nilai</DialogTitle>
+        </DialogHeader>
+
+        {step === 'upload' && (
+          <div className="space-y-4">
+            <p className="text-sm text-gray-600">
+              Unggah file CSV atau XLSX. Baris pertama harus berisi header, mis. Nama, NIS, Kelas,
+              diikuti satu kolom untuk setiap kriteria penilaian.
+            </p>
+            <div>
+              <Label htmlFor="import-file">File</Label>
+              <Input
+                id="import-file"
+                type="file"
+                accept=".csv,.xlsx,.xls"
+                onChange={handleFile}
+                disabled={processing}
+              />
+            </div>
+          </div>
+        )}
+
+        {step === 'mapping' && mapping && (
+          <div className="space-y-4">
+            <div className="flex items-center text-sm text-gray-600">
+              <FileSpreadsheet className="h-4 w-4 mr-2" />
+              {fileName} — {data.rows.length} baris
+            </div>
+            <div className="grid grid-cols-1 md:grid-cols-3 gap-4">
+              {renderColumnSelect('map-name', 'Nama', mapping.name, value => setMapping({...mapping, name: value}))}
+              {renderColumnSelect('map-nis', 'NIS', mapping.nis, value => setMapping({...mapping, nis: value}))}
+              {renderColumnSelect('map-class', 'Kelas', mapping.class, value => setMapping({...mapping, class: value}))}
+            </div>
+            {criteria.length > 0 && (
+              <div className="grid grid-cols-1 md:grid-cols-3 gap-4">
+                {criteria.map(criterion => renderColumnSelect(
+                  `map-${criterion.id}`,
+                  `Nilai ${criterion.name}`,
+                  mapping.scores[criterion.id] || IGNORED_COLUMN,
+                  value => setMapping({...mapping, scores: {...mapping.scores, [criterion.id]: value}})
+                ))}
+              </div>
+            )}
+            <div className="flex justify-between">
+              <Button variant="outline" onClick={resetWizard}>
+                <ArrowLeft className="h-4 w-4 mr-2" />
+                Ganti File
+              </Button>
+              <Button onClick={buildPreview} disabled={processing}>
+                Pratinjau
+              </Button>
+            </div>
+          </div>
+        )}
+
+        {step === 'preview' && (
+          <div className="space-y-4">
+            <div className="flex flex-wrap gap-2">
+              <Badge variant="secondary">{rows.length - errorCount - updateCount} siswa baru</Badge>
+              <Badge variant="outline">{updateCount} diperbarui</Badge>
+              {errorCount > 0 && <Badge variant="destructive">{errorCount} baris bermasalah</Badge>}
+            </div>
+            {errorCount > 0 && (
+              <Alert>
+                <AlertDescription>
+                  Baris bermasalah tidak akan diimpor. Perbaiki file lalu unggah ulang bila perlu.
+                </AlertDescription>
+              </Alert>
+            )}
+            <div className="overflow-x-auto max-h-96">
+              <Table>
+                <TableHeader>
+                  <TableRow>
+                    <TableHead>Baris</TableHead>
+                    <TableHead>Nama</TableHead>
+                    <TableHead>NIS</TableHead>
+                    <TableHead>Kelas</TableHead>
+                    {criteria.map(criterion => (
+                      <TableHead key={criterion.id}>{criterion.name}</TableHead>
+                    ))}
+                    <TableHead>Keterangan</TableHead>
+                  </TableRow>
+                </TableHeader>
+                <TableBody>
+                  {rows.map(row => (
+                    <TableRow key={row.line} className={row.errors.length > 0 ? 'bg-red-50' : ''}>
+                      <TableCell>{row.line}</TableCell>
+                      <TableCell>{row.name || '-'}</TableCell>
+                      <TableCell>{row.nis || '-'}</TableCell>
+                      <TableCell>{row.class || '-'}</TableCell>
+                      {criteria.map(criterion => (
+                        <TableCell key={criterion.id}>{row.scores[criterion.id] ?? '-'}</TableCell>
+                      ))}
+                      <TableCell className="text-xs">
+                        {row.errors.map(message => (
+                          <p key={message} className="text-red-600">{message}</p>
+                        ))}
+                        {row.warnings.map(message => (
+                          <p key={message} className="text-yellow-700">{message}</p>
+                        ))}
+                        {row.errors.length === 0 && row.isUpdate && (
+                          <p className="text-gray-500">NIS sudah terdaftar, data diperbarui</p>
+                        )}
+                      </TableCell>
+                    </TableRow>
+                  ))}
+                </TableBody>
+              </Table>
+            </div>
+            <div className="flex justify-between">
+              <Button variant="outline" onClick={() => setStep('mapping')}>
+                <ArrowLeft className="h-4 w-4 mr-2" />
+                Ubah Pemetaan
+              </Button>
+              <Button onClick={runImport} disabled={processing || rows.length === errorCount}>
+                {processing ? 'Mengimpor...' : `Impor ${rows.length - errorCount} Siswa`}
+              </Button>
+            </div>
+          </div>
+        )}
+
+        {step === 'done' && summary && (
+          <div className="space-y-4">
+            <Alert>
+              <AlertDescription>
+                Impor selesai: {summary.inserted} siswa baru, {summary.updated} diperbarui,
+                {' '}{summary.skipped} baris dilewati, {summary.scores} nilai disimpan.
+              </AlertDescription>
+            </Alert>
+            <div className="flex justify-end space-x-2">
+              <Button variant="outline" onClick={resetWizard}>Impor File Lain</Button>
+              <Button onClick={() => { setIsDialogOpen(false); resetWizard(); }}>Selesai</Button>
+            </div>
+          </div>
+        )}
+      </DialogContent>
+    </Dialog>
+  );
+};
+
+export default StudentImport;
@@ -9,40 +9,46 @@ import { Dialog, DialogContent, DialogHeader, DialogTitle, DialogTrigger } from
 import { Plus, Edit, Trash2 } from 'lucide-react';
 import { toast } from '@/hooks/use-toast';
 import { supabase } from '@/integrations/supabase/client';
+import { getLeafCriteria } from '@/lib/criteriaTree';
+import { Role, can } from '@/lib/permissions';
+import { parseScoreInput, saveScoreChanges, validateScoreInput } from '@/lib/studentScores';
+import StudentImport from './StudentImport';
 
 interface Student {
   id: string;
   name: string;
   nis: string;
   class: string;
-  academicScore?: number;
-  behaviorScore?: number;
-  achievementScore?: number;
-  leadershipScore?: number;
-  attendanceScore?: number;
 }
 
-interface Score {
-  criteria_id: string;
-  score: number;
+interface Criteria {
+  id: string;
+  name: string;
+  min_score: number;
+  max_score: number;
+}
+
+interface StudentManagementProps {
+  periodId: string;
+  role: Role;
 }
 
-const StudentManagement = () => {
+const StudentManagement = ({ periodId, role }: StudentManagementProps) => {
+  const canManageStudents = can(role, 'students.manage');
+  const canEditScores = can(role, 'scores.edit');
+
   const [students, setStudents] = useState<Student[]>([]);
-  const [criteria, setCriteria] = useState<{id: string, name: string}[]>([]);
+  const [criteria, setCriteria] = useState<Criteria[]>([]);
   const [loading, setLoading] = useState(true);
   const [studentScores, setStudentScores] = useState<{[key: string]: {[criteriaId: string]: number}}>({});
 
   const [formData, setFormData] = useState({
     name: '',
     nis: '',
-    class: '',
-    academicScore: '',
-    behaviorScore: '',
-    achievementScore: '',
-    leadershipScore: '',
-    attendanceScore: ''
+    class: ''
   });
+  const [scoreInputs, setScoreInputs] = useState<{[criteriaId: string]: string}>({});
+  const [scoreErrors, setScoreErrors] = useState<{[criteriaId: string]: string}>({});
 
   const [editingId, setEditingId] = useState<string | null>(null);
   const [isDialogOpen, setIsDialogOpen] = useState(false);
@@ -56,16 +62,19 @@ const StudentManagement = () => {
     try {
       const { data: studentsData, error: studentsError } = await supabase
         .from('students')
-        .select('*');
+        .select('*')
+        .eq('period_id', periodId)
+        .order('name');
 
       if (studentsError) {
         throw studentsError;
       }
 
-      // Get all scores
+      // Get all scores of students in this period
       const { data: scoresData, error: scoresError } = await supabase
         .from('student_scores')
-        .select('student_id, criteria_id, score');
+        .select('student_id, criteria_id, score, students!inner(period_id)')
+        .eq('students.period_id', periodId);
 
       if (scoresError) {
         throw scoresError;
@@ -98,21 +107,49 @@ const StudentManagement = () => {
     try {
       const { data, error } = await supabase
         .from('criteria')
-        .select('id, name')
+        .select('id, name, min_score, max_score, parent_id')
         .order('name');
 
       if (error) {
         throw error;
       }
 
-      setCriteria(data || []);
+      // Nilai hanya diisi pada kriteria daun
+      setCriteria(getLeafCriteria(data || []));
     } catch (error) {
       console.error('Error fetching criteria:', error);
     }
   };
 
+  const validateScores = () => {
+    const errors: {[criteriaId: string]: string} = {};
+
+    criteria.forEach(criterion => {
+      const value = scoreInputs[criterion.id];
+      if (value === undefined || value.trim() === '') {
+        errors[criterion.id] = 'Nilai wajib diisi';
+        return;
+      }
+
+      const error = validateScoreInput(value, criterion);
+      if (error) errors[criterion.id] = error;
+    });
+
+    setScoreErrors(errors);
+    return Object.keys(errors).length === 0;
+  };
+
   const handleSubmit = async (e: React.FormEvent) => {
     e.preventDefault();
+
+    if (!validateScores()) {
+      toast({
+        title: "Validasi Gagal",
+        description: "Periksa kembali nilai kriteria yang ditandai",
+        variant: "destructive",
+      });
+      return;
+    }
     
     try {
       const studentData = {
@@ -124,55 +161,39 @@ const StudentManagement = () => {
       let studentId = editingId;
       
       if (editingId) {
-        // Update existing student
-        const { error } = await supabase
-          .from('students')
-          .update(studentData)
-          .eq('id', editingId);
-
-        if (error) throw error;
+        // Update existing student; guru penilai hanya mengubah nilai
+        if (canManageStudents) {
+          const { error } = await supabase
+            .from('students')
+            .update(studentData)
+            .eq('id', editingId);
+
+          if (error) throw error;
+        }
       } else {
         // Insert new student
         const { data, error } = await supabase
           .from('students')
-          .insert(studentData)
+          .insert({ ...studentData, period_id: periodId })
           .select();
 
         if (error) throw error;
         studentId = data[0].id;
       }
 
-      // Map criteria names to their IDs
-      const criteriaMap: {[key: string]: string} = {
-        'Akademik': criteria.find(c => c.name === 'Akademik')?.id || '',
-        'Perilaku': criteria.find(c => c.name === 'Perilaku')?.id || '',
-        'Prestasi': criteria.find(c => c.name === 'Prestasi')?.id || '',
-        'Kepemimpinan': criteria.find(c => c.name === 'Kepemimpinan')?.id || '',
-        'Kehadiran': criteria.find(c => c.name === 'Kehadiran')?.id || ''
-      };
-
-      // Update or insert scores
-      if (studentId) {
-        const scores = [
-          { student_id: studentId, criteria_id: criteriaMap['Akademik'], score: Number(formData.academicScore) },
-          { student_id: studentId, criteria_id: criteriaMap['Perilaku'], score: Number(formData.behaviorScore) },
-          { student_id: studentId, criteria_id: criteriaMap['Prestasi'], score: Number(formData.achievementScore) },
-          { student_id: studentId, criteria_id: criteriaMap['Kepemimpinan'], score: Number(formData.leadershipScore) },
-          { student_id: studentId, criteria_id: criteriaMap['Kehadiran'], score: Number(formData.attendanceScore) }
-        ];
-
-        // First delete existing scores
-        await supabase
-          .from('student_scores')
-          .delete()
-          .eq('student_id', studentId);
-
-        // Then insert new scores
-        const { error: scoreError } = await supabase
-          .from('student_scores')
-          .insert(scores.filter(s => s.criteria_id && !isNaN(s.score)));
-
-        if (scoreError) throw scoreError;
+      // Hanya nilai yang berubah yang disimpan, sama seperti tabel Input Nilai;
+      // semua nilai wajib diisi sehingga tidak ada nilai yang dihapus dari form ini
+      if (studentId && canEditScores) {
+        const stored = studentScores[studentId] || {};
+        const changed = criteria
+          .map(criterion => ({
+            student_id: studentId,
+            criteria_id: criterion.id,
+            score: parseScoreInput(scoreInputs[criterion.id])
+          }))
+          .filter(cell => stored[cell.criteria_id] !== cell.score);
+
+        await saveScoreChanges(changed, []);
       }
 
       toast({
@@ -197,13 +218,10 @@ const StudentManagement = () => {
     setFormData({
       name: '',
       nis: '',
-      class: '',
-      academicScore: '',
-      behaviorScore: '',
-      achievementScore: '',
-      leadershipScore: '',
-      attendanceScore: ''
+      class: ''
     });
+    setScoreInputs({});
+    setScoreErrors({});
     setEditingId(null);
   };
 
@@ -212,24 +230,19 @@ const StudentManagement = () => {
     
     // Get scores for this student
     const scores = studentScores[student.id] || {};
-    
-    // Find criteria IDs
-    const academicId = criteria.find(c => c.name === 'Akademik')?.id;
-    const behaviorId = criteria.find(c => c.name === 'Perilaku')?.id;
-    const achievementId = criteria.find(c => c.name === 'Prestasi')?.id;
-    const leadershipId = criteria.find(c => c.name === 'Kepemimpinan')?.id;
-    const attendanceId = criteria.find(c => c.name === 'Kehadiran')?.id;
 
     setFormData({
       name: student.name,
       nis: student.nis,
-      class: student.class,
-      academicScore: academicId && scores[academicId] ? scores[academicId].toString() : '',
-      behaviorScore: behaviorId && scores[behaviorId] ? scores[behaviorId].toString() : '',
-      achievementScore: achievementId && scores[achievementId] ? scores[achievementId].toString() : '',
-      leadershipScore: leadershipId && scores[leadershipId] ? scores[leadershipId].toString() : '',
-      attendanceScore: attendanceId && scores[attendanceId] ? scores[attendanceId].toString() : ''
+      class: student.class
+    });
+
+    const inputs: {[criteriaId: string]: string} = {};
+    criteria.forEach(criterion => {
+      inputs[criterion.id] = scores[criterion.id] !== undefined ? scores[criterion.id].toString() : '';
     });
+    setScoreInputs(inputs);
+    setScoreErrors({});
     
     setIsDialogOpen(true);
   };
@@ -259,9 +272,8 @@ const StudentManagement = () => {
     }
   };
 
-  const getStudentScore = (studentId: string, criteriaName: string) => {
-    const criteriaId = criteria.find(c => c.name === criteriaName)?.id;
-    if (criteriaId && studentScores[studentId] && studentScores[studentId][criteriaId]) {
+  const getStudentScore = (studentId: string, criteriaId: string) => {
+    if (studentScores[studentId] && studentScores[studentId][criteriaId] !== undefined) {
       return studentScores[studentId][criteriaId];
     }
     return '-';
@@ -280,115 +292,89 @@ const StudentManagement = () => {
       <Card>
         <CardHeader className="flex flex-row items-center justify-between">
           <CardTitle>Manajemen Data Siswa</CardTitle>
-          <Dialog open={isDialogOpen} onOpenChange={setIsDialogOpen}>
-            <DialogTrigger asChild>
-              <Button onClick={resetForm} className="flex items-center">
-                <Plus className="h-4 w-4 mr-2" />
-                Tambah Siswa
-              </Button>
-            </DialogTrigger>
-            <DialogContent className="max-w-md">
-              <DialogHeader>
-                <DialogTitle>
-                  {editingId ? 'Edit Data Siswa' : 'Tambah Data Siswa'}
-                </DialogTitle>
-              </DialogHeader>
-              <form onSubmit={handleSubmit} className="space-y-4">
-                <div>
-                  <Label htmlFor="name">Nama Lengkap</Label>
-                  <Input
-                    id="name"
-                    value={formData.name}
-                    onChange={(e) => setFormData({...formData, name: e.target.value})}
-                    required
-                  />
-                </div>
-                <div>
-                  <Label htmlFor="nis">NIS</Label>
-                  <Input
-                    id="nis"
-                    value={formData.nis}
-                    onChange={(e) => setFormData({...formData, nis: e.target.value})}
-                    required
-                  />
-                </div>
-                <div>
-                  <Label htmlFor="class">Kelas</Label>
-                  <Input
-                    id="class"
-                    value={formData.class}
-                    onChange={(e) => setFormData({...formData, class: e.target.value})}
-                    required
-                  />
-                </div>
-                <div className="grid grid-cols-2 gap-2">
+          <div className="flex space-x-2">
+            {canManageStudents && (
+              <StudentImport periodId={periodId} criteria={criteria} onImported={fetchStudents} />
+            )}
+            <Dialog open={isDialogOpen} onOpenChange={setIsDialogOpen}>
+              {canManageStudents && (
+                <DialogTrigger asChild>
+                  <Button onClick={resetForm} className="flex items-center">
+                    <Plus className="h-4 w-4 mr-2" />
+                    Tambah Siswa
+                  </Button>
+                </DialogTrigger>
+              )}
+              <DialogContent className="max-w-md max-h-[90vh] overflow-y-auto">
+                <DialogHeader>
+                  <DialogTitle>
+                    {editingId ? 'Edit Data Siswa' : 'Tambah Data Siswa'}
+                  </DialogTitle>
+                </DialogHeader>
+                <form onSubmit={handleSubmit} className="space-y-4">
                   <div>
-                    <Label htmlFor="academic">Nilai Akademik</Label>
+                    <Label htmlFor="name">Nama Lengkap</Label>
                     <Input
-                      id="academic"
-                      type="number"
-                      min="0"
-                      max="100"
-                      value={formData.academicScore}
-                      onChange={(e) => setFormData({...formData, academicScore: e.target.value})}
+                      id="name"
+                      value={formData.name}
+                      onChange={(e) => setFormData({...formData, name: e.target.value})}
+                      disabled={!canManageStudents}
                       required
                     />
                   </div>
                   <div>
-                    <Label htmlFor="behavior">Nilai Perilaku</Label>
+                    <Label htmlFor="nis">NIS</Label>
                     <Input
-                      id="behavior"
-                      type="number"
-                      min="0"
-                      max="100"
-                      value={formData.behaviorScore}
-                      onChange={(e) => setFormData({...formData, behaviorScore: e.target.value})}
+                      id="nis"
+                      value={formData.nis}
+                      onChange={(e) => setFormData({...formData, nis: e.target.value})}
+                      disabled={!canManageStudents}
                       required
                     />
                   </div>
                   <div>
-                    <Label htmlFor="achievement">Nilai Prestasi</Label>
+                    <Label htmlFor="class">Kelas</Label>
                     <Input
-                      id="achievement"
-                      type="number"
-                      min="0"
-                      max="100"
-                      value={formData.achievementScore}
-                      onChange={(e) => setFormData({...formData, achievementScore: e.target.value})}
+                      id="class"
+                      value={formData.class}
+                      onChange={(e) => setFormData({...formData, class: e.target.value})}
+                      disabled={!canManageStudents}
                       required
                     />
                   </div>
-                  <div>
-                    <Label htmlFor="leadership">Nilai Kepemimpinan</Label>
-                    <Input
-                      id="leadership"
-                      type="number"
-                      min="0"
-                      max="100"
-                      value={formData.leadershipScore}
-                      onChange={(e) => setFormData({...formData, leadershipScore: e.target.value})}
-                      required
-                    />
+                  <div className="grid grid-cols-2 gap-2">
+                    {criteria.map(criterion => (
+                      <div key={criterion.id}>
+                        <Label htmlFor={`score-${criterion.id}`}>Nilai {criterion.name}</Label>
+                        <Input
+                          id={`score-${criterion.id}`}
+                          type="number"
+                          step="any"
+                          min={criterion.min_score}
+                          max={criterion.max_score}
+                          value={scoreInputs[criterion.id] || ''}
+                          onChange={(e) => setScoreInputs({...scoreInputs, [criterion.id]: e.target.value})}
+                          disabled={!canEditScores}
+                          className={scoreErrors[criterion.id] ? 'border-red-500' : ''}
+                        />
+                        {scoreErrors[criterion.id] && (
+                          <p className="text-xs text-red-600 mt-1">{scoreErrors[criterion.id]}</p>
+                        )}
+                      </div>
+                    ))}
                   </div>
-                </div>
-                <div>
-                  <Label htmlFor="attendance">Nilai Kehadiran</Label>
-                  <Input
-                    id="attendance"
-                    type="number"
-                    min="0"
-                    max="100"
-                    value={formData.attendanceScore}
-                    onChange={(e) => setFormData({...formData, attendanceScore: e.target.value})}
-                    required
-                  />
-                </div>
-                <Button type="submit" className="w-full">
-                  {editingId ? 'Update' : 'Simpan'}
-                </Button>
-              </form>
-            </DialogContent>
-          </Dialog>
+                  {criteria.length === 0 && (
+                    <p className="text-sm text-gray-500">
+                      Belum ada kriteria penilaian. Tambahkan kriteria di halaman Kriteria.
+                    </p>
+                  )}
+                  <Button type="submit" className="w-full">
+                    {editingId ? 'Update' : 'Simpan'}
+                  </Button>
+                </form>
+              </DialogContent>
+            </Dialog>
+          </div>
         </CardHeader>
         <CardContent>
           <div className="overflow-x-auto">
@@ -398,18 +384,16 @@ const StudentManagement = () => {
                   <TableHead>Nama</TableHead>
                   <TableHead>NIS</TableHead>
                   <TableHead>Kelas</TableHead>
-                  <TableHead>Akademik</TableHead>
-                  <TableHead>Perilaku</TableHead>
-                  <TableHead>Prestasi</TableHead>
-                  <TableHead>Kepemimpinan</TableHead>
-                  <TableHead>Kehadiran</TableHead>
-                  <TableHead>Aksi</TableHead>
+                  {criteria.map(criterion => (
+                    <TableHead key={criterion.id}>{criterion.name}</TableHead>
+                  ))}
+                  {(canManageStudents || canEditScores) && <TableHead>Aksi</TableHead>}
                 </TableRow>
               </TableHeader>
               <TableBody>
                 {students.length === 0 ? (
                   <TableRow>
-                    <TableCell colSpan={9} className="text-center py-6 text-gray-500">
+                    <TableCell colSpan={criteria.length + 4} className="text-center py-6 text-gray-500">
                       Belum ada data siswa. Klik "Tambah Siswa" untuk menambahkan data.
                     </TableCell>
                   </TableRow>
@@ -419,29 +403,31 @@ const StudentManagement = () => {
                       <TableCell className="font-medium">{student.name}</TableCell>
                       <TableCell>{student.nis}</TableCell>
                       <TableCell>{student.class}</TableCell>
-                      <TableCell>{getStudentScore(student.id, 'Akademik')}</TableCell>
-                      <TableCell>{getStudentScore(student.id, 'Perilaku')}</TableCell>
-                      <TableCell>{getStudentScore(student.id, 'Prestasi')}</TableCell>
-                      <TableCell>{getStudentScore(student.id, 'Kepemimpinan')}</TableCell>
-                      <TableCell>{getStudentScore(student.id, 'Kehadiran')}</TableCell>
-                      <TableCell>
-                        <div className="flex space-x-2">
-                          <Button
-                            variant="outline"
-                            size="sm"
-                            onClick={() => handleEdit(student)}
-                          >
-                            <Edit className="h-4 w-4" />
-                          </Button>
-                          <Button
-                            variant="outline"
-                            size="sm"
-                            onClick={() => handleDelete(student.id)}
-                          >
-                            <Trash2 className="h-4 w-4" />
-                          </Button>
-                        </div>
-                      </TableCell>
+                      {criteria.map(criterion => (
+                        <TableCell key={criterion.id}>{getStudentScore(student.id, criterion.id)}</TableCell>
+                      ))}
+                      {(canManageStudents || canEditScores) && (
+                        <TableCell>
+                          <div className="flex space-x-2">
+                            <Button
+                              variant="outline"
+                              size="sm"
+                              onClick={() => handleEdit(student)}
+                            >
+                              <Edit className="h-4 w-4" />
+                            </Button>
+                            {canManageStudents && (
+                              <Button
+                                variant="outline"
+                                size="sm"
+                                onClick={() => handleDelete(student.id)}
+                              >
+                                <Trash2 className="h-4 w-4" />
+                              </Button>
+                            )}
+                          </div>
+                        </TableCell>
+                      )}
                     </TableRow>
                   ))
                 )}
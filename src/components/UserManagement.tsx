@@ -0,0 +1,321 @@
+import { useState, useEffect } from 'react';
+import { Card, CardContent, CardHeader, CardTitle } from '@/components/ui/card';
+import { Button } from '@/components/ui/button';
+import { Input } from '@/components/ui/input';
+import { Label } from '@/components/ui/label';
+import { Badge } from '@/components/ui/badge';
+import { Alert, AlertDescription } from '@/components/ui/alert';
+import { Dialog, DialogContent, DialogHeader, DialogTitle, DialogTrigger } from '@/components/ui/dialog';
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from '@/components/ui/select';
+import { Table, TableBody, TableCell, TableHead, TableHeader, TableRow } from '@/components/ui/table';
+import { UserPlus, KeyRound, UserX, UserCheck } from 'lucide-react';
+import { toast } from '@/hooks/use-toast';
+import { supabase } from '@/integrations/supabase/client';
+import { Role, normalizeRole, roleLabels } from '@/lib/permissions';
+import { Profile, generateTemporaryPassword, inviteUser, sendPasswordReset } from '@/lib/users';
+
+const emptyInvite = {
+  email: '',
+  username: '',
+  role: 'guru_penilai' as Role
+};
+
+const UserManagement = () => {
+  const [profiles, setProfiles] = useState<Profile[]>([]);
+  const [loading, setLoading] = useState(true);
+  const [currentUserId, setCurrentUserId] = useState<string | null>(null);
+  const [updatingId, setUpdatingId] = useState<string | null>(null);
+
+  const [isDialogOpen, setIsDialogOpen] = useState(false);
+  const [inviteData, setInviteData] = useState(emptyInvite);
+  const [inviting, setInviting] = useState(false);
+  const [temporaryPassword, setTemporaryPassword] = useState<string | null>(null);
+
+  useEffect(() => {
+    fetchProfiles();
+  }, []);
+
+  const fetchProfiles = async () => {
+    try {
+      const { data: { user } } = await supabase.auth.getUser();
+      setCurrentUserId(user?.id || null);
+
+      const { data, error } = await supabase
+        .from('profiles')
+        .select('*')
+        .order('created_at');
+
+      if (error) throw error;
+
+      setProfiles(data || []);
+    } catch (error) {
+      console.error('Error fetching profiles:', error);
+      toast({
+        title: "Error",
+        description: "Gagal memuat daftar pengguna",
+        variant: "destructive",
+      });
+    } finally {
+      setLoading(false);
+    }
+  };
+
+  const updateProfile = async (profile: Profile, changes: Partial<Pick<Profile, 'role' | 'is_active'>>, message: string) => {
+    try {
+      setUpdatingId(profile.id);
+
+      const { error } = await supabase
+        .from('profiles')
+        .update(changes)
+        .eq('id', profile.id);
+
+      if (error) throw error;
+
+      setProfiles(profiles.map(p => p.id === profile.id ? { ...p, ...changes } : p));
+      toast({
+        title: "Pengguna Diperbarui",
+        description: message,
+      });
+    } catch (error) {
+      console.error('Error updating profile:', error);
+      toast({
+        title: "Error",
+        description: "Gagal memperbarui pengguna",
+        variant: "destructive",
+      });
+    } finally {
+      setUpdatingId(null);
+    }
+  };
+
+  const handleInvite = async (e: React.FormEvent) => {
+    e.preventDefault();
+
+    const email = inviteData.email.trim();
+    const username = inviteData.username.trim() || email;
+
+    try {
+      setInviting(true);
+
+      const password = generateTemporaryPassword();
+      await inviteUser(email, username, inviteData.role, password);
+
+      setTemporaryPassword(password);
+      toast({
+        title: "Pengguna Diundang",
+        description: `${email} terdaftar sebagai ${roleLabels[inviteData.role]}`,
+      });
+
+      fetchProfiles();
+    } catch (error) {
+      console.error('Error inviting user:', error);
+      toast({
+        title: "Error",
+        description: error instanceof Error && error.message ? error.message : "Gagal mengundang pengguna",
+        variant: "destructive",
+      });
+    } finally {
+      setInviting(false);
+    }
+  };
+
+  const handleResetPassword = async (profile: Profile) => {
+    if (!profile.email) return;
+
+    try {
+      setUpdatingId(profile.id);
+      await sendPasswordReset(profile.email);
+
+      toast({
+        title: "Email Reset Dikirim",
+        description: `Tautan reset password dikirim ke ${profile.email}`,
+      });
+    } catch (error) {
+      console.error('Error sending password reset:', error);
+      toast({
+        title: "Error",
+        description: "Gagal mengirim email reset password",
+        variant: "destructive",
+      });
+    } finally {
+      setUpdatingId(null);
+    }
+  };
+
+  const closeDialog = (open: boolean) => {
+    setIsDialogOpen(open);
+    if (!open) {
+      setInviteData(emptyInvite);
+      setTemporaryPassword(null);
+    }
+  };
+
+  if (loading) {
+    return (
+      <div className="flex justify-center p-8">
+        <div className="animate-spin rounded-full h-8 w-8 border-b-2 border-blue-600"></div>
+      </div>
+    );
+  }
+
+  return (
+    <Card>
+      <CardHeader className="flex flex-row items-center justify-between">
+        <CardTitle>Manajemen Pengguna</CardTitle>
+        <Dialog open={isDialogOpen} onOpenChange={closeDialog}>
+          <DialogTrigger asChild>
+            <Button className="flex items-center">
+              <UserPlus className="h-4 w-4 mr-2" />
+              Undang Pengguna
+            </Button>
+          </DialogTrigger>
+          <DialogContent className="max-w-md">
+            <DialogHeader>
+              <DialogTitle>Undang Pengguna</DialogTitle>
+            </DialogHeader>
+            {temporaryPassword ? (
+              <div className="space-y-4">
+                <Alert>
+                  <AlertDescription>
+                    Akun untuk <strong>{inviteData.email}</strong> telah dibuat. Berikan password sementara berikut
+                    dan minta pengguna menggantinya setelah login pertama.
+                  </AlertDescription>
+                </Alert>
+                <div className="p-3 bg-gray-100 rounded font-mono text-center text-lg select-all">
+                  {temporaryPassword}
+                </div>
+                <Button className="w-full" onClick={() => closeDialog(false)}>
+                  Selesai
+                </Button>
+              </div>
+            ) : (
+              <form onSubmit={handleInvite} className="space-y-4">
+                <div>
+                  <Label htmlFor="invite-email">Email</Label>
+                  <Input
+                    id="invite-email"
+                    type="email"
+                    value={inviteData.email}
+                    onChange={(e) => setInviteData({...inviteData, email: e.target.value})}
+                    required
+                  />
+                </div>
+                <div>
+                  <Label htmlFor="invite-username">Nama Pengguna</Label>
+                  <Input
+                    id="invite-username"
+                    placeholder="Default: email"
+                    value={inviteData.username}
+                    onChange={(e) => setInviteData({...inviteData, username: e.target.value})}
+                  />
+                </div>
+                <div>
+                  <Label htmlFor="invite-role">Peran</Label>
+                  <Select
+                    value={inviteData.role}
+                    onValueChange={(value) => setInviteData({...inviteData, role: value as Role})}
+                  >
+                    <SelectTrigger id="invite-role">
+                      <SelectValue />
+                    </SelectTrigger>
+                    <SelectContent>
+                      {(Object.keys(roleLabels) as Role[]).map(key => (
+                        <SelectItem key={key} value={key}>{roleLabels[key]}</SelectItem>
+                      ))}
+                    </SelectContent>
+                  </Select>
+                </div>
+                <Button type="submit" className="w-full" disabled={inviting}>
+                  {inviting ? 'Mengundang...' : 'Undang'}
+                </Button>
+              </form>
+            )}
+          </DialogContent>
+        </Dialog>
+      </CardHeader>
+      <CardContent>
+        <div className="overflow-x-auto">
+          <Table>
+            <TableHeader>
+              <TableRow>
+                <TableHead>Nama Pengguna</TableHead>
+                <TableHead>Email</TableHead>
+                <TableHead>Peran</TableHead>
+                <TableHead>Status</TableHead>
+                <TableHead>Aksi</TableHead>
+              </TableRow>
+            </TableHeader>
+            <TableBody>
+              {profiles.map(profile => {
+                // Admin tidak dapat menurunkan peran atau menonaktifkan akunnya sendiri
+                const isSelf = profile.id === currentUserId;
+                return (
+                  <TableRow key={profile.id}>
+                    <TableCell className="font-medium">
+                      {profile.username || '-'}
+                      {isSelf && <span className="ml-2 text-xs text-gray-500">(Anda)</span>}
+                    </TableCell>
+                    <TableCell>{profile.email || '-'}</TableCell>
+                    <TableCell>
+                      <Select
+                        value={normalizeRole(profile.role)}
+                        onValueChange={(value) => updateProfile(
+                          profile,
+                          { role: value },
+                          `Peran ${profile.username || profile.email} diubah menjadi ${roleLabels[value as Role]}`
+                        )}
+                        disabled={isSelf || updatingId !== null}
+                      >
+                        <SelectTrigger className="w-44" aria-label="Peran pengguna">
+                          <SelectValue />
+                        </SelectTrigger>
+                        <SelectContent>
+                          {(Object.keys(roleLabels) as Role[]).map(key => (
+                            <SelectItem key={key} value={key}>{roleLabels[key]}</SelectItem>
+                          ))}
+                        </SelectContent>
+                      </Select>
+                    </TableCell>
+                    <TableCell>
+                      {profile.is_active ? <Badge>Aktif</Badge> : <Badge variant="outline">Nonaktif</Badge>}
+                    </TableCell>
+                    <TableCell>
+                      <div className="flex space-x-2">
+                        <Button
+                          variant="outline"
+                          size="sm"
+                          onClick={() => handleResetPassword(profile)}
+                          disabled={!profile.email || updatingId !== null}
+                          title="Kirim email reset password"
+                        >
+                          <KeyRound className="h-4 w-4" />
+                        </Button>
+                        {!isSelf && (
+                          <Button
+                            variant="outline"
+                            size="sm"
+                            onClick={() => updateProfile(
+                              profile,
+                              { is_active: !profile.is_active },
+                              `${profile.username || profile.email} ${profile.is_active ? 'dinonaktifkan' : 'diaktifkan kembali'}`
+                            )}
+                            disabled={updatingId !== null}
+                            title={profile.is_active ? 'Nonaktifkan' : 'Aktifkan'}
+                          >
+                            {profile.is_active ? <UserX className="h-4 w-4" /> : <UserCheck className="h-4 w-4" />}
+                          </Button>
+                        )}
+                      </div>
+                    </TableCell>
+                  </TableRow>
+                );
+              })}
+            </TableBody>
+          </Table>
+        </div>
+      </CardContent>
+    </Card>
+  );
+};
+
+export default UserManagement;
@@ -9,29 +9,75 @@ export type Json =
 export type Database = {
   public: {
     Tables: {
+      academic_periods: {
+        Row: {
+          academic_year: string
+          created_at: string
+          id: string
+          is_active: boolean
+          semester: number
+        }
+        Insert: {
+          academic_year: string
+          created_at?: string
+          id?: string
+          is_active?: boolean
+          semester: number
+        }
+        Update: {
+          academic_year?: string
+          created_at?: string
+          id?: string
+          is_active?: boolean
+          semester?: number
+        }
+        Relationships: []
+      }
       ahp_results: {
         Row: {
           calculation_date: string | null
+          class_rank: number | null
           final_score: number
+          grade_rank: number | null
           id: string
+          method: string
           rank: number | null
+          session_id: string | null
           student_id: string | null
+          tie_break: string | null
         }
         Insert: {
           calculation_date?: string | null
+          class_rank?: number | null
           final_score: number
+          grade_rank?: number | null
           id?: string
+          method?: string
           rank?: number | null
+          session_id?: string | null
           student_id?: string | null
+          tie_break?: string | null
         }
         Update: {
           calculation_date?: string | null
+          class_rank?: number | null
           final_score?: number
+          grade_rank?: number | null
           id?: string
+          method?: string
           rank?: number | null
+          session_id?: string | null
           student_id?: string | null
+          tie_break?: string | null
         }
         Relationships: [
+          {
+            foreignKeyName: "ahp_results_session_id_fkey"
+            columns: ["session_id"]
+            isOneToOne: false
+            referencedRelation: "calculation_sessions"
+            referencedColumns: ["id"]
+          },
           {
             foreignKeyName: "ahp_results_student_id_fkey"
             columns: ["student_id"]
@@ -41,29 +87,175 @@ export type Database = {
           },
         ]
       }
+      alternative_comparison: {
+        Row: {
+          created_at: string | null
+          criteria_id: string | null
+          id: string
+          intensity: number
+          reciprocal: boolean
+          student1_id: string | null
+          student2_id: string | null
+        }
+        Insert: {
+          created_at?: string | null
+          criteria_id?: string | null
+          id?: string
+          intensity?: number
+          reciprocal?: boolean
+          student1_id?: string | null
+          student2_id?: string | null
+        }
+        Update: {
+          created_at?: string | null
+          criteria_id?: string | null
+          id?: string
+          intensity?: number
+          reciprocal?: boolean
+          student1_id?: string | null
+          student2_id?: string | null
+        }
+        Relationships: [
+          {
+            foreignKeyName: "alternative_comparison_criteria_id_fkey"
+            columns: ["criteria_id"]
+            isOneToOne: false
+            referencedRelation: "criteria"
+            referencedColumns: ["id"]
+          },
+          {
+            foreignKeyName: "alternative_comparison_student1_id_fkey"
+            columns: ["student1_id"]
+            isOneToOne: false
+            referencedRelation: "students"
+            referencedColumns: ["id"]
+          },
+          {
+            foreignKeyName: "alternative_comparison_student2_id_fkey"
+            columns: ["student2_id"]
+            isOneToOne: false
+            referencedRelation: "students"
+            referencedColumns: ["id"]
+          },
+        ]
+      }
+      calculation_sessions: {
+        Row: {
+          alternative_priorities: Json | null
+          consistency_ratio: number | null
+          created_at: string
+          created_by: string | null
+          created_by_name: string | null
+          criteria_snapshot: Json
+          id: string
+          is_official: boolean
+          method: string
+          missing_score_policy: string | null
+          name: string
+          period_id: string
+          scores_snapshot: Json
+          tie_policy: Json | null
+          weights_snapshot: Json | null
+        }
+        Insert: {
+          alternative_priorities?: Json | null
+          consistency_ratio?: number | null
+          created_at?: string
+          created_by?: string | null
+          created_by_name?: string | null
+          criteria_snapshot?: Json
+          id?: string
+          is_official?: boolean
+          method?: string
+          missing_score_policy?: string | null
+          name: string
+          period_id: string
+          scores_snapshot?: Json
+          tie_policy?: Json | null
+          weights_snapshot?: Json | null
+        }
+        Update: {
+          alternative_priorities?: Json | null
+          consistency_ratio?: number | null
+          created_at?: string
+          created_by?: string | null
+          created_by_name?: string | null
+          criteria_snapshot?: Json
+          id?: string
+          is_official?: boolean
+          method?: string
+          missing_score_policy?: string | null
+          name?: string
+          period_id?: string
+          scores_snapshot?: Json
+          tie_policy?: Json | null
+          weights_snapshot?: Json | null
+        }
+        Relationships: [
+          {
+            foreignKeyName: "calculation_sessions_period_id_fkey"
+            columns: ["period_id"]
+            isOneToOne: false
+            referencedRelation: "academic_periods"
+            referencedColumns: ["id"]
+          },
+        ]
+      }
       criteria: {
         Row: {
           created_at: string | null
           description: string | null
           id: string
+          local_weight: number | null
+          max_score: number
+          min_score: number
           name: string
+          normalization: string
+          parent_id: string | null
+          rubric: Json | null
+          type: string
           weight: number | null
+          weight_method: string | null
         }
         Insert: {
           created_at?: string | null
           description?: string | null
           id?: string
+          local_weight?: number | null
+          max_score?: number
+          min_score?: number
           name: string
+          normalization?: string
+          parent_id?: string | null
+          rubric?: Json | null
+          type?: string
           weight?: number | null
+          weight_method?: string | null
         }
         Update: {
           created_at?: string | null
           description?: string | null
           id?: string
+          local_weight?: number | null
+          max_score?: number
+          min_score?: number
           name?: string
+          normalization?: string
+          parent_id?: string | null
+          rubric?: Json | null
+          type?: string
           weight?: number | null
+          weight_method?: string | null
         }
-        Relationships: []
+        Relationships: [
+          {
+            foreignKeyName: "criteria_parent_id_fkey"
+            columns: ["parent_id"]
+            isOneToOne: false
+            referencedRelation: "criteria"
+            referencedColumns: ["id"]
+          },
+        ]
       }
       criteria_comparison: {
         Row: {
@@ -71,21 +263,24 @@ export type Database = {
           criteria1_id: string | null
           criteria2_id: string | null
           id: string
-          value: number
+          intensity: number
+          reciprocal: boolean
         }
         Insert: {
           created_at?: string | null
           criteria1_id?: string | null
           criteria2_id?: string | null
           id?: string
-          value?: number
+          intensity?: number
+          reciprocal?: boolean
         }
         Update: {
           created_at?: string | null
           criteria1_id?: string | null
           criteria2_id?: string | null
           id?: string
-          value?: number
+          intensity?: number
+          reciprocal?: boolean
         }
         Relationships: [
           {
@@ -104,23 +299,104 @@ export type Database = {
           },
         ]
       }
+      evaluator_comparison: {
+        Row: {
+          criteria1_id: string
+          criteria2_id: string
+          evaluator_id: string
+          id: string
+          intensity: number
+          reciprocal: boolean
+          updated_at: string
+        }
+        Insert: {
+          criteria1_id: string
+          criteria2_id: string
+          evaluator_id: string
+          id?: string
+          intensity: number
+          reciprocal?: boolean
+          updated_at?: string
+        }
+        Update: {
+          criteria1_id?: string
+          criteria2_id?: string
+          evaluator_id?: string
+          id?: string
+          intensity?: number
+          reciprocal?: boolean
+          updated_at?: string
+        }
+        Relationships: [
+          {
+            foreignKeyName: "evaluator_comparison_criteria1_id_fkey"
+            columns: ["criteria1_id"]
+            isOneToOne: false
+            referencedRelation: "criteria"
+            referencedColumns: ["id"]
+          },
+          {
+            foreignKeyName: "evaluator_comparison_criteria2_id_fkey"
+            columns: ["criteria2_id"]
+            isOneToOne: false
+            referencedRelation: "criteria"
+            referencedColumns: ["id"]
+          },
+          {
+            foreignKeyName: "evaluator_comparison_evaluator_id_fkey"
+            columns: ["evaluator_id"]
+            isOneToOne: false
+            referencedRelation: "profiles"
+            referencedColumns: ["id"]
+          },
+        ]
+      }
+      evaluator_weights: {
+        Row: {
+          evaluator_id: string
+          weight: number
+        }
+        Insert: {
+          evaluator_id: string
+          weight?: number
+        }
+        Update: {
+          evaluator_id?: string
+          weight?: number
+        }
+        Relationships: [
+          {
+            foreignKeyName: "evaluator_weights_evaluator_id_fkey"
+            columns: ["evaluator_id"]
+            isOneToOne: true
+            referencedRelation: "profiles"
+            referencedColumns: ["id"]
+          },
+        ]
+      }
       profiles: {
         Row: {
           created_at: string | null
+          email: string | null
           id: string
-          role: string | null
+          is_active: boolean
+          role: string
           username: string | null
         }
         Insert: {
           created_at?: string | null
+          email?: string | null
           id: string
-          role?: string | null
+          is_active?: boolean
+          role?: string
           username?: string | null
         }
         Update: {
           created_at?: string | null
+          email?: string | null
           id?: string
-          role?: string | null
+          is_active?: boolean
+          role?: string
           username?: string | null
         }
         Relationships: []
@@ -171,6 +447,7 @@ export type Database = {
           id: string
           name: string
           nis: string
+          period_id: string
         }
         Insert: {
           class: string
@@ -178,6 +455,7 @@ export type Database = {
           id?: string
           name: string
           nis: string
+          period_id: string
         }
         Update: {
           class?: string
@@ -185,15 +463,35 @@ export type Database = {
           id?: string
           name?: string
           nis?: string
+          period_id?: string
         }
-        Relationships: []
+        Relationships: [
+          {
+            foreignKeyName: "students_period_id_fkey"
+            columns: ["period_id"]
+            isOneToOne: false
+            referencedRelation: "academic_periods"
+            referencedColumns: ["id"]
+          },
+        ]
       }
     }
     Views: {
       [_ in never]: never
     }
     Functions: {
-      [_ in never]: never
+      app_role: {
+        Args: Record<PropertyKey, never>
+        Returns: string
+      }
+      has_role: {
+        Args: { roles: string[] }
+        Returns: boolean
+      }
+      import_students: {
+        Args: { p_period_id: string; p_rows: Json }
+        Returns: Json
+      }
     }
     Enums: {
       [_ in never]: never
@@ -0,0 +1,181 @@
+import { describe, expect, it } from 'vitest';
+import {
+  CONSISTENCY_THRESHOLD,
+  PriorityMethod,
+  buildComparisonMatrix,
+  calculatePriorities,
+  getRandomIndex,
+  judgmentValue,
+  ratioMatrix,
+  suggestConsistencyImprovements,
+  toCanonicalJudgment,
+  toSaatyJudgment
+} from '@/lib/ahp';
+
+// Contoh klasik Saaty: bobot ≈ [0,637; 0,258; 0,105] dan CR ≈ 0,033
+const saatyMatrix = [
+  [1, 3, 5],
+  [1 / 3, 1, 3],
+  [1 / 5, 1 / 3, 1]
+];
+
+const methods: PriorityMethod[] = ['eigenvector', 'row-average', 'geometric-mean'];
+
+describe('calculatePriorities', () => {
+  it.each(methods)('menghasilkan bobot contoh Saaty dengan metode %s', (method) => {
+    const { weights, lambdaMax, ci, ri, cr } = calculatePriorities(saatyMatrix, method);
+
+    expect(weights.reduce((sum, weight) => sum + weight, 0)).toBeCloseTo(1, 10);
+    expect(weights[0]).toBeCloseTo(0.637, 2);
+    expect(weights[1]).toBeCloseTo(0.258, 2);
+    expect(weights[2]).toBeCloseTo(0.105, 2);
+    expect(lambdaMax).toBeCloseTo(3.039, 2);
+    expect(ci).toBeCloseTo((lambdaMax - 3) / 2, 10);
+    expect(ri).toBe(0.58);
+    expect(cr).toBeCloseTo(0.033, 2);
+    expect(cr).toBeLessThan(CONSISTENCY_THRESHOLD);
+  });
+
+  it('eigenvector utama memenuhi A·w = λmax·w', () => {
+    const { weights, lambdaMax } = calculatePriorities(saatyMatrix, 'eigenvector');
+
+    saatyMatrix.forEach((row, i) => {
+      const product = row.reduce((sum, value, j) => sum + value * weights[j], 0);
+      expect(product).toBeCloseTo(lambdaMax * weights[i], 8);
+    });
+  });
+
+  it('matriks konsisten sempurna memiliki λmax = n dan CR = 0', () => {
+    const matrix = [
+      [1, 2, 4],
+      [1 / 2, 1, 2],
+      [1 / 4, 1 / 2, 1]
+    ];
+
+    methods.forEach(method => {
+      const { weights, lambdaMax, cr } = calculatePriorities(matrix, method);
+      expect(weights[0]).toBeCloseTo(4 / 7, 10);
+      expect(weights[1]).toBeCloseTo(2 / 7, 10);
+      expect(weights[2]).toBeCloseTo(1 / 7, 10);
+      expect(lambdaMax).toBeCloseTo(3, 10);
+      expect(cr).toBeCloseTo(0, 10);
+    });
+  });
+
+  it('matriks 1x1 dan 2x2 memakai RI = 0 dan selalu konsisten', () => {
+    expect(getRandomIndex(1)).toBe(0);
+    expect(getRandomIndex(2)).toBe(0);
+
+    const single = calculatePriorities([[1]]);
+    expect(single.weights).toEqual([1]);
+    expect(single).toMatchObject({ ci: 0, ri: 0, cr: 0 });
+
+    methods.forEach(method => {
+      const pair = calculatePriorities([[1, 3], [1 / 3, 1]], method);
+      expect(pair.weights[0]).toBeCloseTo(0.75, 10);
+      expect(pair.weights[1]).toBeCloseTo(0.25, 10);
+      expect(pair.lambdaMax).toBeCloseTo(2, 10);
+      expect(pair).toMatchObject({ ci: 0, ri: 0, cr: 0 });
+    });
+  });
+});
+
+describe('suggestConsistencyImprovements', () => {
+  // A > B dan B > C, tetapi C dinilai jauh lebih penting dari A
+  const inconsistentMatrix = [
+    [1, 3, 1 / 5],
+    [1 / 3, 1, 3],
+    [5, 1 / 3, 1]
+  ];
+
+  it('menyarankan nilai skala Saaty yang menurunkan CR', () => {
+    const { cr } = calculatePriorities(inconsistentMatrix);
+    expect(cr).toBeGreaterThan(CONSISTENCY_THRESHOLD);
+
+    const suggestions = suggestConsistencyImprovements(inconsistentMatrix);
+    expect(suggestions.length).toBeGreaterThan(0);
+    expect(suggestions.length).toBeLessThanOrEqual(3);
+
+    suggestions.forEach(suggestion => {
+      expect(suggestion.row).toBeLessThan(suggestion.col);
+      expect(suggestion.current).toBe(inconsistentMatrix[suggestion.row][suggestion.col]);
+      expect(suggestion.predictedCr).toBeLessThan(cr);
+
+      // Saran bergerak dari nilai saat ini ke arah rasio implisit w_i / w_j
+      const towardImplied = suggestion.implied > suggestion.current
+        ? suggestion.suggested > suggestion.current
+        : suggestion.suggested < suggestion.current;
+      expect(towardImplied).toBe(true);
+
+      const trial = inconsistentMatrix.map(row => [...row]);
+      trial[suggestion.row][suggestion.col] = suggestion.suggested;
+      trial[suggestion.col][suggestion.row] = 1 / suggestion.suggested;
+      expect(calculatePriorities(trial).cr).toBeCloseTo(suggestion.predictedCr, 10);
+    });
+  });
+
+  it('membatasi jumlah saran', () => {
+    expect(suggestConsistencyImprovements(inconsistentMatrix, 'eigenvector', 1)).toHaveLength(1);
+  });
+
+  it('tidak memberi saran untuk matriks yang sudah konsisten sempurna', () => {
+    const consistent = [
+      [1, 2, 4],
+      [1 / 2, 1, 2],
+      [1 / 4, 1 / 2, 1]
+    ];
+    expect(suggestConsistencyImprovements(consistent)).toEqual([]);
+  });
+});
+
+describe('penilaian tersimpan', () => {
+  it('menyimpan skala Saaty sebagai intensitas bulat dan arah', () => {
+    expect(toSaatyJudgment(5)).toEqual({ intensity: 5, reciprocal: false });
+    expect(toSaatyJudgment(1 / 7)).toEqual({ intensity: 7, reciprocal: true });
+    expect(toSaatyJudgment(0.33)).toEqual({ intensity: 3, reciprocal: true });
+    expect(judgmentValue({ intensity: 3, reciprocal: true })).toBe(1 / 3);
+  });
+
+  it('menyimpan pasangan dengan id terkecil lebih dulu', () => {
+    expect(toCanonicalJudgment('a', 'b', 3)).toEqual({ from: 'a', to: 'b', intensity: 3, reciprocal: false });
+    expect(toCanonicalJudgment('b', 'a', 3)).toEqual({ from: 'a', to: 'b', intensity: 3, reciprocal: true });
+    expect(toCanonicalJudgment('b', 'a', 1 / 5)).toEqual({ from: 'a', to: 'b', intensity: 5, reciprocal: false });
+    expect(toCanonicalJudgment('b', 'a', 1)).toEqual({ from: 'a', to: 'b', intensity: 1, reciprocal: false });
+  });
+
+  it('membentuk matriks resiprokal eksak dari intensitas', () => {
+    const matrix = buildComparisonMatrix(['a', 'b', 'c'], [
+      { from: 'a', to: 'b', intensity: 3, reciprocal: false },
+      { from: 'c', to: 'a', intensity: 5, reciprocal: true },
+      { from: 'b', to: 'c', intensity: 3, reciprocal: false }
+    ]);
+
+    expect(matrix).toEqual([
+      [1, 3, 5],
+      [1 / 3, 1, 3],
+      [1 / 5, 1 / 3, 1]
+    ]);
+  });
+});
+
+describe('ratioMatrix', () => {
+  const range = { min: 0, max: 10 };
+
+  it('memetakan nilai ke skala 1..9 sehingga rasio terbesar 9', () => {
+    const matrix = ratioMatrix([10, 5, 0], range);
+
+    expect(matrix[0][2]).toBeCloseTo(9, 10);
+    expect(matrix[1][2]).toBeCloseTo(5, 10);
+    expect(matrix[2][0]).toBeCloseTo(1 / 9, 10);
+    expect(calculatePriorities(matrix).cr).toBeCloseTo(0, 10);
+  });
+
+  it('nilai 0 pada kriteria cost tidak mendominasi prioritas', () => {
+    const { weights } = calculatePriorities(ratioMatrix([0, 1, 2], range, true));
+
+    expect(weights[0]).toBeGreaterThan(weights[1]);
+    expect(weights[1]).toBeGreaterThan(weights[2]);
+    // t = 9; 8,2; 7,4 → bobot siswa tanpa absen tidak jauh di atas yang lain
+    expect(weights[0]).toBeCloseTo(9 / (9 + 8.2 + 7.4), 10);
+  });
+});
@@ -0,0 +1,288 @@
+export const CONSISTENCY_THRESHOLD = 0.1;
+
+// Batas jumlah siswa agar perbandingan alternatif masih realistis diisi manual
+export const MAX_MANUAL_ALTERNATIVES = 10;
+
+// Random Index (RI) Saaty untuk ukuran matriks 1..10
+const RANDOM_INDEX = [0, 0, 0.58, 0.9, 1.12, 1.24, 1.32, 1.41, 1.45, 1.49];
+
+// Nilai kurang dari 1 adalah kebalikan eksak (1/k), bukan desimal yang dibulatkan
+export const ahpScale = [
+  { value: 9, label: '9 - Mutlak lebih penting' },
+  { value: 8, label: '8 - Sangat lebih penting (+)' },
+  { value: 7, label: '7 - Sangat lebih penting' },
+  { value: 6, label: '6 - Lebih penting (+)' },
+  { value: 5, label: '5 - Lebih penting' },
+  { value: 4, label: '4 - Agak lebih penting (+)' },
+  { value: 3, label: '3 - Agak lebih penting' },
+  { value: 2, label: '2 - Sama penting (+)' },
+  { value: 1, label: '1 - Sama penting' },
+  { value: 1 / 2, label: '1/2 - Sama penting (-)' },
+  { value: 1 / 3, label: '1/3 - Agak kurang penting' },
+  { value: 1 / 4, label: '1/4 - Agak kurang penting (-)' },
+  { value: 1 / 5, label: '1/5 - Kurang penting' },
+  { value: 1 / 6, label: '1/6 - Kurang penting (-)' },
+  { value: 1 / 7, label: '1/7 - Sangat kurang penting' },
+  { value: 1 / 8, label: '1/8 - Sangat kurang penting (-)' },
+  { value: 1 / 9, label: '1/9 - Mutlak kurang penting' }
+];
+
+// Kunci stabil untuk nilai skala (mis. '3' atau '1/3'), tahan terhadap galat pembulatan float
+export const judgmentKey = (value: number) =>
+  value >= 1 ? String(Math.round(value)) : `1/${Math.round(1 / value)}`;
+
+export const parseJudgment = (key: string) =>
+  key.startsWith('1/') ? 1 / Number(key.slice(2)) : Number(key);
+
+// Bentuk tersimpan penilaian berpasangan: intensitas >= 1 dan arah (reciprocal = a_ij = 1/intensitas)
+export interface StoredJudgment {
+  intensity: number;
+  reciprocal: boolean;
+}
+
+// Nilai skala Saaty (mis. 1/3) menjadi intensitas bulat 1..9 beserta arahnya
+export const toSaatyJudgment = (value: number): StoredJudgment => ({
+  intensity: Math.round(value >= 1 ? value : 1 / value),
+  reciprocal: value < 1
+});
+
+// Nilai sembarang, mis. hasil agregasi kelompok, tanpa pembulatan intensitas
+export const toStoredJudgment = (value: number): StoredJudgment => ({
+  intensity: value >= 1 ? value : 1 / value,
+  reciprocal: value < 1
+});
+
+// Nilai a_ij untuk perhitungan, dibentuk dari intensitas dan arah yang tersimpan
+export const judgmentValue = ({ intensity, reciprocal }: StoredJudgment) =>
+  reciprocal ? 1 / intensity : intensity;
+
+export interface ConsistencyResult {
+  lambdaMax: number;
+  ci: number;
+  ri: number;
+  cr: number;
+}
+
+export const getRandomIndex = (size: number) => (size <= 10 ? RANDOM_INDEX[size - 1] : 1.5);
+
+export const identityMatrix = (size: number) =>
+  Array(size).fill(null).map(() => Array(size).fill(1));
+
+export interface PairwiseJudgment extends StoredJudgment {
+  from: string;
+  to: string;
+}
+
+// Kunci pasangan tanpa memperhatikan urutan, untuk menghitung pasangan yang sudah dinilai
+export const pairKey = (a: string, b: string) => [a, b].sort().join('|');
+
+// Pasangan disimpan dengan id terkecil lebih dulu sehingga urutan tampilan (mis. setelah nama
+// diganti) tidak menghasilkan baris cermin (b, a) di samping (a, b)
+export const toCanonicalJudgment = (from: string, to: string, value: number): PairwiseJudgment =>
+  from < to
+    ? { from, to, ...toSaatyJudgment(value) }
+    : { from: to, to: from, ...toSaatyJudgment(1 / value) };
+
+// Susun matriks resiprokal dari daftar penilaian berpasangan; pasangan kosong bernilai 1.
+// Kedua sisi diambil langsung dari intensitas sehingga a_ji = 1 / a_ij tanpa galat pembagian berulang.
+export const buildComparisonMatrix = (ids: string[], judgments: PairwiseJudgment[]) => {
+  const matrix = identityMatrix(ids.length);
+  judgments.forEach(judgment => {
+    const i = ids.indexOf(judgment.from);
+    const j = ids.indexOf(judgment.to);
+    if (i !== -1 && j !== -1 && i !== j && judgment.intensity > 0) {
+      matrix[i][j] = judgmentValue(judgment);
+      matrix[j][i] = judgmentValue({ ...judgment, reciprocal: !judgment.reciprocal });
+    }
+  });
+  return matrix;
+};
+
+// Setiap elemen dibagi dengan jumlah kolomnya
+export const normalizeMatrix = (matrix: number[][]) => {
+  const columnSums = matrix[0].map((_, j) => matrix.reduce((sum, row) => sum + row[j], 0));
+  return matrix.map(row => row.map((value, j) => value / columnSums[j]));
+};
+
+// Vektor prioritas sebagai rata-rata baris matriks ternormalisasi
+export const rowAveragePriorities = (matrix: number[][]) =>
+  normalizeMatrix(matrix).map(row => row.reduce((sum, value) => sum + value, 0) / row.length);
+
+export const calculateConsistency = (matrix: number[][], weights: number[]): ConsistencyResult => {
+  const size = matrix.length;
+
+  const lambdaMax = weights.reduce((sum, weight, i) => {
+    const weightedSum = matrix[i].reduce((s, value, j) => s + value * weights[j], 0);
+    return sum + weightedSum / weight;
+  }, 0) / size;
+
+  // Matriks 1x1 dan 2x2 selalu konsisten
+  if (size <= 2) {
+    return { lambdaMax, ci: 0, ri: getRandomIndex(size), cr: 0 };
+  }
+
+  const ci = (lambdaMax - size) / (size - 1);
+  const ri = getRandomIndex(size);
+
+  return { lambdaMax, ci, ri, cr: ci / ri };
+};
+
+// Matriks perbandingan dari nilai: posisi nilai pada rentang kriteria dipetakan linear ke 1..9
+// (dibalik bila nilai rendah lebih baik), lalu a_ij = t_i / t_j. Rasio terbesar dibatasi 9 sehingga
+// nilai 0 (mis. 0 hari absen) tidak mendominasi seperti pada rasio nilai mentah.
+export const ratioMatrix = (values: number[], range: { min: number; max: number }, lowerIsBetter = false) => {
+  const span = range.max - range.min;
+  const scaled = values.map(value => {
+    const position = span > 0 ? Math.min(1, Math.max(0, (value - range.min) / span)) : 1;
+    return 1 + 8 * (lowerIsBetter ? 1 - position : position);
+  });
+  return scaled.map(a => scaled.map(b => a / b));
+};
+
+export type PriorityMethod = 'eigenvector' | 'row-average' | 'geometric-mean';
+
+export const priorityMethodLabels: {[method in PriorityMethod]: string} = {
+  'eigenvector': 'Eigenvector Utama (Power Iteration)',
+  'row-average': 'Rata-rata Baris (Aproksimasi)',
+  'geometric-mean': 'Rata-rata Geometrik Baris'
+};
+
+// Akar pangkat n dari hasil kali setiap baris, lalu dinormalisasi
+export const geometricMeanPriorities = (matrix: number[][]) => {
+  const means = matrix.map(row => Math.pow(row.reduce((product, value) => product * value, 1), 1 / row.length));
+  const total = means.reduce((sum, value) => sum + value, 0);
+  return means.map(value => value / total);
+};
+
+// Eigenvector utama dengan power iteration hingga perubahan maksimum < tolerance
+export const eigenvectorPriorities = (matrix: number[][], tolerance = 1e-10, maxIterations = 1000) => {
+  const size = matrix.length;
+  let vector = Array(size).fill(1 / size);
+
+  for (let iteration = 0; iteration < maxIterations; iteration++) {
+    const product = matrix.map(row => row.reduce((sum, value, j) => sum + value * vector[j], 0));
+    const total = product.reduce((sum, value) => sum + value, 0);
+    const next = product.map(value => value / total);
+    const delta = Math.max(...next.map((value, i) => Math.abs(value - vector[i])));
+
+    vector = next;
+    if (delta < tolerance) break;
+  }
+
+  return vector;
+};
+
+export const calculatePriorities = (matrix: number[][], method: PriorityMethod = 'eigenvector') => {
+  const weights = method === 'eigenvector'
+    ? eigenvectorPriorities(matrix)
+    : method === 'geometric-mean'
+      ? geometricMeanPriorities(matrix)
+      : rowAveragePriorities(matrix);
+
+  return { weights, ...calculateConsistency(matrix, weights) };
+};
+
+export type AggregationMethod = 'aij' | 'aip';
+
+export const aggregationMethodLabels: {[method in AggregationMethod]: string} = {
+  aij: 'AIJ - Agregasi Penilaian Individu',
+  aip: 'AIP - Agregasi Prioritas Individu'
+};
+
+// Asal bobot yang tersimpan di criteria.weight_method
+export type WeightMethod = 'ahp_aij' | 'ahp_aip' | 'fuzzy_chang' | 'fuzzy_buckley';
+
+export const weightMethodLabels: {[method in WeightMethod]: string} = {
+  ahp_aij: 'AHP Kelompok (AIJ)',
+  ahp_aip: 'AHP Kelompok (AIP)',
+  fuzzy_chang: 'Fuzzy AHP (Chang)',
+  fuzzy_buckley: 'Fuzzy AHP (Buckley)'
+};
+
+const weightShares = (weights: number[]) => {
+  const total = weights.reduce((sum, weight) => sum + weight, 0);
+  return weights.map(weight => weight / total);
+};
+
+// AIJ: rata-rata geometrik berbobot setiap elemen matriks individu (tetap resiprokal)
+export const aggregateJudgments = (matrices: number[][][], weights: number[]) => {
+  const shares = weightShares(weights);
+  const size = matrices[0].length;
+  return Array.from({ length: size }, (_, i) =>
+    Array.from({ length: size }, (_, j) =>
+      Math.exp(matrices.reduce((sum, matrix, k) => sum + shares[k] * Math.log(matrix[i][j]), 0))
+    )
+  );
+};
+
+// AIP: rata-rata geometrik berbobot vektor prioritas individu, lalu dinormalisasi
+export const aggregatePriorities = (priorities: number[][], weights: number[]) => {
+  const shares = weightShares(weights);
+  const means = priorities[0].map((_, i) =>
+    Math.exp(priorities.reduce((sum, vector, k) => sum + shares[k] * Math.log(vector[i]), 0))
+  );
+  const total = means.reduce((sum, value) => sum + value, 0);
+  return means.map(value => value / total);
+};
+
+// Sebaran penilaian satu pasangan: simpangan baku berbobot ln(a_ij) antar penilai
+export const judgmentDispersion = (values: number[], weights: number[]) => {
+  const shares = weightShares(weights);
+  const logs = values.map(value => Math.log(value));
+  const mean = logs.reduce((sum, value, k) => sum + shares[k] * value, 0);
+  const variance = logs.reduce((sum, value, k) => sum + shares[k] * Math.pow(value - mean, 2), 0);
+  return Math.sqrt(variance);
+};
+
+export interface ConsistencySuggestion {
+  row: number;
+  col: number;
+  current: number;
+  suggested: number;
+  // Rasio bobot w_i / w_j yang konsisten dengan prioritas saat ini
+  implied: number;
+  predictedCr: number;
+}
+
+// Penilaian paling tidak konsisten: a_ij yang paling jauh dari w_i / w_j (skala log),
+// masing-masing dengan nilai skala Saaty terdekat ke arah w_i / w_j yang menurunkan CR
+export const suggestConsistencyImprovements = (
+  matrix: number[][],
+  method: PriorityMethod = 'eigenvector',
+  limit = 3
+): ConsistencySuggestion[] => {
+  const { weights, cr } = calculatePriorities(matrix, method);
+  const scaleValues = ahpScale.map(scale => scale.value).sort((a, b) => a - b);
+
+  const deviations = matrix.flatMap((row, i) =>
+    row.slice(i + 1).map((value, offset) => {
+      const j = i + 1 + offset;
+      const implied = weights[i] / weights[j];
+      return { i, j, value, implied, deviation: Math.abs(Math.log(value / implied)) };
+    })
+  ).sort((a, b) => b.deviation - a.deviation);
+
+  const suggestions: ConsistencySuggestion[] = [];
+  for (const { i, j, value, implied } of deviations) {
+    if (suggestions.length >= limit) break;
+
+    // Kandidat di antara nilai saat ini dan rasio implisit, dari yang terdekat dengan nilai saat ini
+    const towardImplied = scaleValues
+      .filter(candidate => implied > value ? candidate > value : candidate < value)
+      .sort((a, b) => Math.abs(Math.log(a / value)) - Math.abs(Math.log(b / value)));
+
+    for (const candidate of towardImplied) {
+      const trial = matrix.map(r => [...r]);
+      trial[i][j] = candidate;
+      trial[j][i] = 1 / candidate;
+
+      const predictedCr = calculatePriorities(trial, method).cr;
+      if (predictedCr < cr) {
+        suggestions.push({ row: i, col: j, current: value, suggested: candidate, implied, predictedCr });
+        break;
+      }
+    }
+  }
+
+  return suggestions;
+};
@@ -0,0 +1,88 @@
+import { supabase } from '@/integrations/supabase/client';
+
+export interface TreeCriterion {
+  id: string;
+  name: string;
+  parent_id?: string | null;
+  local_weight?: number | null;
+}
+
+// Node akar: perbandingan antar kriteria utama (tanpa induk)
+export const ROOT_NODE = 'root';
+
+export const getChildren = <T extends TreeCriterion>(criteria: T[], parentId: string | null) =>
+  criteria.filter(c => (c.parent_id ?? null) === parentId);
+
+// Nilai siswa hanya diisi pada kriteria daun (tanpa sub-kriteria)
+export const getLeafCriteria = <T extends TreeCriterion>(criteria: T[]) =>
+  criteria.filter(c => !criteria.some(other => other.parent_id === c.id));
+
+export const getDescendantIds = (criteria: TreeCriterion[], id: string): string[] =>
+  getChildren(criteria, id).flatMap(child => [child.id, ...getDescendantIds(criteria, child.id)]);
+
+// Node yang memiliki matriks perbandingan sendiri: akar dan setiap kriteria yang punya sub-kriteria
+export const getComparisonNodes = (criteria: TreeCriterion[]) => [
+  { id: ROOT_NODE, name: 'Kriteria Utama' },
+  ...criteria.filter(c => criteria.some(other => other.parent_id === c.id))
+];
+
+// Urutan pohon depth-first beserta kedalamannya untuk tampilan
+export const flattenTree = <T extends TreeCriterion>(
+  criteria: T[],
+  parentId: string | null = null,
+  depth = 0
+): { criterion: T; depth: number }[] =>
+  getChildren(criteria, parentId).flatMap(criterion => [
+    { criterion, depth },
+    ...flattenTree(criteria, criterion.id, depth + 1)
+  ]);
+
+// Nama lengkap dari akar, mis. "Akademik › Matematika"
+export const getCriterionPath = (criteria: TreeCriterion[], id: string): string => {
+  const criterion = criteria.find(c => c.id === id);
+  if (!criterion) return '';
+  return criterion.parent_id
+    ? `${getCriterionPath(criteria, criterion.parent_id)} › ${criterion.name}`
+    : criterion.name;
+};
+
+// Bobot global = hasil kali bobot lokal dari akar hingga node; null bila ada bobot lokal yang belum dihitung.
+// Sub-kriteria tunggal otomatis berbobot lokal 1.
+export const computeGlobalWeights = (criteria: TreeCriterion[]) => {
+  const globals: {[id: string]: number | null} = {};
+
+  const visit = (parentId: string | null, parentWeight: number | null) => {
+    const children = getChildren(criteria, parentId);
+    children.forEach(child => {
+      const local = children.length === 1 ? 1 : child.local_weight ?? null;
+      globals[child.id] = parentWeight !== null && local !== null ? parentWeight * local : null;
+      visit(child.id, globals[child.id]);
+    });
+  };
+
+  visit(null, 1);
+  return globals;
+};
+
+// Simpan bobot lokal anak-anak sebuah node lalu perbarui bobot global seluruh pohon
+export const saveLocalWeights = async (
+  criteria: TreeCriterion[],
+  localWeights: {[id: string]: number | null},
+  weightMethod: string | null
+) => {
+  const updated = criteria.map(c => (c.id in localWeights ? { ...c, local_weight: localWeights[c.id] } : c));
+  const globals = computeGlobalWeights(updated);
+
+  for (const criterion of updated) {
+    const { error } = await supabase
+      .from('criteria')
+      .update({
+        local_weight: criterion.local_weight ?? null,
+        weight: globals[criterion.id] ?? null,
+        ...(criterion.id in localWeights ? { weight_method: localWeights[criterion.id] === null ? null : weightMethod } : {})
+      })
+      .eq('id', criterion.id);
+
+    if (error) throw error;
+  }
+};
@@ -0,0 +1,50 @@
+import { describe, expect, it } from 'vitest';
+import { calculateFuzzyWeights, formatFuzzyNumber, fuzzifyJudgment, getZeroWeightIndices } from '@/lib/fuzzyAhp';
+
+const saatyMatrix = [
+  [1, 3, 5],
+  [1 / 3, 1, 3],
+  [1 / 5, 1 / 3, 1]
+];
+
+describe('fuzzifyJudgment', () => {
+  it('memakai skala fuzzy untuk intensitas bulat dan kebalikannya', () => {
+    expect(fuzzifyJudgment(3)).toEqual([2, 3, 4]);
+    expect(fuzzifyJudgment(1 / 3)).toEqual([1 / 4, 1 / 3, 1 / 2]);
+    expect(fuzzifyJudgment(9)).toEqual([9, 9, 9]);
+  });
+
+  it('menginterpolasi intensitas pecahan dari matriks kelompok', () => {
+    const [l, m, u] = fuzzifyJudgment(2.5);
+    expect(l).toBeCloseTo(1.5, 10);
+    expect(m).toBeCloseTo(2.5, 10);
+    expect(u).toBeCloseTo(3.5, 10);
+  });
+});
+
+describe('formatFuzzyNumber', () => {
+  it('menampilkan batas hasil interpolasi apa adanya', () => {
+    expect(formatFuzzyNumber(fuzzifyJudgment(3))).toBe('(2, 3, 4)');
+    expect(formatFuzzyNumber(fuzzifyJudgment(1 / 3))).toBe('(1/4, 1/3, 1/2)');
+    expect(formatFuzzyNumber(fuzzifyJudgment(2.5))).toBe('(1.5, 2.5, 3.5)');
+    expect(formatFuzzyNumber(fuzzifyJudgment(1 / 2.5))).toBe('(1/3.5, 1/2.5, 1/1.5)');
+  });
+});
+
+describe('calculateFuzzyWeights', () => {
+  it('extent analysis Chang dapat memberi bobot 0 pada contoh Saaty', () => {
+    const { weights } = calculateFuzzyWeights(saatyMatrix, 'chang');
+
+    expect(weights.reduce((sum, weight) => sum + weight, 0)).toBeCloseTo(1, 10);
+    expect(getZeroWeightIndices(weights)).toEqual([2]);
+  });
+
+  it('rata-rata geometrik Buckley selalu memberi bobot positif', () => {
+    const { weights, cr } = calculateFuzzyWeights(saatyMatrix, 'buckley');
+
+    expect(getZeroWeightIndices(weights)).toEqual([]);
+    expect(weights[0]).toBeGreaterThan(weights[1]);
+    expect(weights[1]).toBeGreaterThan(weights[2]);
+    expect(cr).toBeCloseTo(0.033, 2);
+  });
+});
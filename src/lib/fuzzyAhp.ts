@@ -0,0 +1,104 @@
+import { calculatePriorities } from '@/lib/ahp';
+
+// Bilangan fuzzy segitiga (l, m, u)
+export type FuzzyNumber = [number, number, number];
+
+export type FuzzyMethod = 'chang' | 'buckley';
+
+export const fuzzyMethodLabels: {[method in FuzzyMethod]: string} = {
+  chang: 'Extent Analysis (Chang)',
+  buckley: 'Rata-rata Geometrik (Buckley)'
+};
+
+// Skala linguistik fuzzy untuk intensitas Saaty 1..9
+export const fuzzyScale: {[intensity: number]: FuzzyNumber} = {
+  1: [1, 1, 1],
+  2: [1, 2, 3],
+  3: [2, 3, 4],
+  4: [3, 4, 5],
+  5: [4, 5, 6],
+  6: [5, 6, 7],
+  7: [6, 7, 8],
+  8: [7, 8, 9],
+  9: [9, 9, 9]
+};
+
+const addFuzzy = (a: FuzzyNumber, b: FuzzyNumber): FuzzyNumber => [a[0] + b[0], a[1] + b[1], a[2] + b[2]];
+
+// a ⊗ b⁻¹ untuk bilangan positif: (l_a/u_b, m_a/m_b, u_a/l_b)
+const divideFuzzy = (a: FuzzyNumber, b: FuzzyNumber): FuzzyNumber => [a[0] / b[2], a[1] / b[1], a[2] / b[0]];
+
+// Intensitas pecahan (matriks agregasi kelompok) diinterpolasi linear di antara dua skala terdekat
+const scaleAt = (intensity: number): FuzzyNumber => {
+  const lower = Math.floor(intensity);
+  const upper = Math.ceil(intensity);
+  const t = intensity - lower;
+  return [0, 1, 2].map(k => fuzzyScale[lower][k] + (fuzzyScale[upper][k] - fuzzyScale[lower][k]) * t) as FuzzyNumber;
+};
+
+export const fuzzifyJudgment = (value: number): FuzzyNumber => {
+  const raw = Math.min(9, Math.max(1, value >= 1 ? value : 1 / value));
+  const intensity = Math.abs(raw - Math.round(raw)) < 1e-9 ? Math.round(raw) : raw;
+  const [l, m, u] = scaleAt(intensity);
+  return value >= 1 ? [l, m, u] : [1 / u, 1 / m, 1 / l];
+};
+
+export const fuzzifyMatrix = (matrix: number[][]) => matrix.map(row => row.map(fuzzifyJudgment));
+
+// Batas hasil interpolasi tidak selalu bulat (mis. 1.5 atau 1/1.5), jadi tidak dibulatkan ke skala Saaty
+const formatFuzzyBound = (value: number) => {
+  const plain = (x: number) => String(Number(x.toFixed(2)));
+  return value >= 1 ? plain(value) : `1/${plain(1 / value)}`;
+};
+
+export const formatFuzzyNumber = (value: FuzzyNumber) => `(${value.map(formatFuzzyBound).join(', ')})`;
+
+const normalizeWeights = (values: number[]) => {
+  const total = values.reduce((sum, value) => sum + value, 0);
+  return total > 0 ? values.map(value => value / total) : values.map(() => 1 / values.length);
+};
+
+// Derajat kemungkinan V(a ≥ b)
+const possibilityDegree = (a: FuzzyNumber, b: FuzzyNumber) => {
+  if (a[1] >= b[1]) return 1;
+  if (b[0] >= a[2]) return 0;
+  return (b[0] - a[2]) / ((a[1] - a[2]) - (b[1] - b[0]));
+};
+
+const changWeights = (fuzzyMatrix: FuzzyNumber[][]) => {
+  const rowSums = fuzzyMatrix.map(row => row.reduce(addFuzzy, [0, 0, 0] as FuzzyNumber));
+  const total = rowSums.reduce(addFuzzy, [0, 0, 0] as FuzzyNumber);
+  const extents = rowSums.map(sum => divideFuzzy(sum, total));
+
+  const degrees = extents.map((extent, i) => {
+    const others = extents.filter((_, k) => k !== i);
+    return others.length > 0 ? Math.min(...others.map(other => possibilityDegree(extent, other))) : 1;
+  });
+
+  return { fuzzyWeights: extents, weights: normalizeWeights(degrees) };
+};
+
+const buckleyWeights = (fuzzyMatrix: FuzzyNumber[][]) => {
+  const n = fuzzyMatrix.length;
+  const geometricMeans = fuzzyMatrix.map(row =>
+    [0, 1, 2].map(k => Math.pow(row.reduce((product, value) => product * value[k], 1), 1 / n)) as FuzzyNumber
+  );
+  const total = geometricMeans.reduce(addFuzzy, [0, 0, 0] as FuzzyNumber);
+  const fuzzyWeights = geometricMeans.map(mean => divideFuzzy(mean, total));
+
+  // Defuzzifikasi centroid (l + m + u) / 3
+  return { fuzzyWeights, weights: normalizeWeights(fuzzyWeights.map(([l, m, u]) => (l + m + u) / 3)) };
+};
+
+// Konsistensi diperiksa pada matriks crisp (nilai tengah), sesuai praktik umum Fuzzy AHP
+export const calculateFuzzyWeights = (matrix: number[][], method: FuzzyMethod) => {
+  const fuzzyMatrix = fuzzifyMatrix(matrix);
+  const { fuzzyWeights, weights } = method === 'chang' ? changWeights(fuzzyMatrix) : buckleyWeights(fuzzyMatrix);
+  const { cr } = calculatePriorities(matrix);
+
+  return { fuzzyMatrix, fuzzyWeights, weights, cr };
+};
+
+// Extent analysis Chang dapat memberi bobot 0 bila extent suatu kriteria tidak beririsan dengan yang lain
+export const getZeroWeightIndices = (weights: number[]) =>
+  weights.map((weight, index) => (weight <= 0 ? index : -1)).filter(index => index >= 0);
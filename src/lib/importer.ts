@@ -0,0 +1,137 @@
+import * as XLSX from 'xlsx';
+import { isKnownClass, normalizeClassName } from '@/lib/periods';
+import { parseScoreInput } from '@/lib/studentScores';
+
+export interface ImportCriterion {
+  id: string;
+  name: string;
+  min_score: number;
+  max_score: number;
+}
+
+export interface SpreadsheetData {
+  headers: string[];
+  rows: string[][];
+}
+
+// Kolom sumber untuk setiap field tujuan; kunci kriteria memakai id kriteria
+export interface ColumnMapping {
+  name: string;
+  nis: string;
+  class: string;
+  scores: {[criteriaId: string]: string};
+}
+
+export interface ImportRow {
+  line: number;
+  name: string;
+  nis: string;
+  class: string;
+  scores: {[criteriaId: string]: number};
+  errors: string[];
+  warnings: string[];
+  isUpdate: boolean;
+}
+
+export const IGNORED_COLUMN = '__ignore__';
+
+// Baca sheet pertama (XLSX) atau isi CSV menjadi header + baris teks
+export const parseSpreadsheet = async (file: File): Promise<SpreadsheetData> => {
+  const buffer = await file.arrayBuffer();
+  const workbook = XLSX.read(buffer, { type: 'array' });
+  const sheet = workbook.Sheets[workbook.SheetNames[0]];
+  if (!sheet) return { headers: [], rows: [] };
+
+  const table = XLSX.utils.sheet_to_json<string[]>(sheet, { header: 1, defval: '', raw: false, blankrows: false });
+  const [headerRow = [], ...rows] = table;
+
+  return {
+    headers: headerRow.map(header => String(header).trim()),
+    rows: rows.map(row => headerRow.map((_, index) => String(row[index] ?? '').trim()))
+  };
+};
+
+const normalizeHeader = (value: string) => value.toLowerCase().replace(/[^a-z0-9]/g, '');
+
+const findColumn = (headers: string[], candidates: string[]) =>
+  headers.find(header => candidates.includes(normalizeHeader(header))) || IGNORED_COLUMN;
+
+// Tebak pemetaan kolom dari nama header
+export const guessMapping = (headers: string[], criteria: ImportCriterion[]): ColumnMapping => ({
+  name: findColumn(headers, ['nama', 'namalengkap', 'namasiswa', 'name']),
+  nis: findColumn(headers, ['nis', 'nisn', 'nomorinduk']),
+  class: findColumn(headers, ['kelas', 'class', 'rombel']),
+  scores: Object.fromEntries(criteria.map(criterion => [
+    criterion.id,
+    findColumn(headers, [normalizeHeader(criterion.name), normalizeHeader(`nilai ${criterion.name}`)])
+  ]))
+});
+
+export const validateRows = (
+  data: SpreadsheetData,
+  mapping: ColumnMapping,
+  criteria: ImportCriterion[],
+  existingNis: Set<string>
+): ImportRow[] => {
+  const valueOf = (row: string[], column: string) => {
+    const index = data.headers.indexOf(column);
+    return index === -1 ? '' : row[index];
+  };
+
+  const nisCount: {[nis: string]: number} = {};
+  data.rows.forEach(row => {
+    const nis = valueOf(row, mapping.nis);
+    if (nis) nisCount[nis] = (nisCount[nis] || 0) + 1;
+  });
+
+  return data.rows.map((row, index) => {
+    const errors: string[] = [];
+    const warnings: string[] = [];
+    const name = valueOf(row, mapping.name);
+    const nis = valueOf(row, mapping.nis);
+    const rawClass = valueOf(row, mapping.class);
+    const className = normalizeClassName(rawClass);
+
+    if (!name) errors.push('Nama kosong');
+    if (!nis) errors.push('NIS kosong');
+    if (nis && nisCount[nis] > 1) errors.push(`NIS ${nis} ganda di dalam file`);
+    if (!rawClass) {
+      errors.push('Kelas kosong');
+    } else if (!isKnownClass(className)) {
+      errors.push(`Kelas "${rawClass}" tidak dikenal`);
+    }
+
+    const scores: {[criteriaId: string]: number} = {};
+    criteria.forEach(criterion => {
+      const column = mapping.scores[criterion.id];
+      if (!column || column === IGNORED_COLUMN) return;
+
+      const rawValue = valueOf(row, column);
+      if (rawValue === '') {
+        warnings.push(`Nilai ${criterion.name} kosong`);
+        return;
+      }
+
+      const score = parseScoreInput(rawValue);
+      if (isNaN(score)) {
+        errors.push(`Nilai ${criterion.name} bukan angka (gunakan satu pemisah desimal, tanpa pemisah ribuan)`);
+      } else if (score < criterion.min_score || score > criterion.max_score) {
+        errors.push(`Nilai ${criterion.name} di luar rentang ${criterion.min_score}–${criterion.max_score}`);
+      } else {
+        scores[criterion.id] = score;
+      }
+    });
+
+    return {
+      // Baris 1 adalah header
+      line: index + 2,
+      name,
+      nis,
+      class: className,
+      scores,
+      errors,
+      warnings,
+      isUpdate: existingNis.has(nis)
+    };
+  });
+};
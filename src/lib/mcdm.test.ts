@@ -0,0 +1,77 @@
+import { describe, expect, it } from 'vitest';
+import { kendallTau, rankByScore, spearmanCorrelation, topsisSteps, wpSteps } from '@/lib/mcdm';
+
+describe('topsisSteps', () => {
+  it('menormalisasi kolom dengan norma vektor dan menghitung kedekatan relatif', () => {
+    const matrix = [
+      [3, 4],
+      [1, 2],
+      [2, 3]
+    ];
+    const { normalized, idealBest, idealWorst, closeness } = topsisSteps(matrix, [0.5, 0.5]);
+
+    [0, 1].forEach(j => {
+      expect(normalized.reduce((sum, row) => sum + row[j] ** 2, 0)).toBeCloseTo(1, 10);
+    });
+    expect(idealBest[0]).toBeCloseTo(0.5 * 3 / Math.sqrt(14), 10);
+    expect(idealWorst[0]).toBeCloseTo(0.5 * 1 / Math.sqrt(14), 10);
+    // Siswa pertama unggul di semua kriteria, siswa kedua terendah di semua kriteria
+    expect(closeness[0]).toBeCloseTo(1, 10);
+    expect(closeness[1]).toBeCloseTo(0, 10);
+    expect(closeness[2]).toBeGreaterThan(0);
+    expect(closeness[2]).toBeLessThan(1);
+  });
+
+  it('solusi ideal kriteria cost adalah nilai terkecil', () => {
+    const { idealBest, idealWorst, closeness } = topsisSteps([[1, 5], [2, 1]], [0.5, 0.5], [false, true]);
+
+    expect(idealBest[1]).toBeLessThan(idealWorst[1]);
+    expect(closeness[1]).toBeGreaterThan(closeness[0]);
+  });
+});
+
+describe('wpSteps', () => {
+  it('vektor V adalah vektor S yang dinormalisasi', () => {
+    const { products, values } = wpSteps([[2, 8], [8, 2]], [0.5, 0.5]);
+
+    expect(products[0]).toBeCloseTo(4, 10);
+    expect(products[1]).toBeCloseTo(4, 10);
+    expect(values).toEqual([0.5, 0.5]);
+  });
+
+  it('kriteria cost memakai pangkat negatif', () => {
+    const { exponents, values } = wpSteps([[4, 1], [4, 4]], [0.5, 0.5], [false, true]);
+
+    expect(exponents).toEqual([0.5, -0.5]);
+    expect(values[0]).toBeCloseTo(2 / 3, 10);
+    expect(values[0] + values[1]).toBeCloseTo(1, 10);
+  });
+});
+
+describe('rankByScore', () => {
+  it('memberi peringkat rata-rata untuk skor seri', () => {
+    expect(rankByScore({ a: 0.9, b: 0.7, c: 0.9, d: 0.1 })).toEqual({ a: 1.5, c: 1.5, b: 3, d: 4 });
+    expect(rankByScore({ a: 0.5, b: 0.5, c: 0.5 })).toEqual({ a: 2, b: 2, c: 2 });
+  });
+});
+
+describe('korelasi peringkat', () => {
+  it('tanpa seri sama dengan rumus klasik', () => {
+    const ranksA = [1, 2, 3, 4, 5];
+    const ranksB = [2, 1, 4, 3, 5];
+
+    expect(spearmanCorrelation(ranksA, ranksB)).toBeCloseTo(0.8, 10);
+    expect(kendallTau(ranksA, ranksB)).toBeCloseTo(0.6, 10);
+    expect(spearmanCorrelation(ranksA, [...ranksA].reverse())).toBeCloseTo(-1, 10);
+  });
+
+  it('memakai koreksi seri', () => {
+    const ranksA = [1.5, 1.5, 3];
+    const ranksB = [1, 2, 3];
+
+    expect(spearmanCorrelation(ranksA, ranksB)).toBeCloseTo(1.5 / Math.sqrt(3), 10);
+    expect(kendallTau(ranksA, ranksB)).toBeCloseTo(2 / Math.sqrt(6), 10);
+    expect(spearmanCorrelation(ranksA, ranksA)).toBeCloseTo(1, 10);
+    expect(kendallTau(ranksA, ranksA)).toBeCloseTo(1, 10);
+  });
+});
@@ -0,0 +1,127 @@
+import { ScoringCriterion, ScoreRow, calculateScoreStats, isCostCriterion, isScoreTie, scoreStudent } from '@/lib/scoring';
+
+// Metode peringkat berbasis nilai yang memakai bobot kriteria AHP
+export type ScoreEngine = 'saw' | 'topsis' | 'wp';
+
+export const scoreEngines: ScoreEngine[] = ['saw', 'topsis', 'wp'];
+
+// Nilai 0 tidak dapat dipangkatkan pada WP; dibatasi ke nilai kecil
+const WP_FLOOR = 0.001;
+
+// Baris = siswa, kolom = kriteria; nilai yang belum diisi dianggap 0
+export const buildDecisionMatrix = (studentIds: string[], criteria: ScoringCriterion[], scores: ScoreRow[]) => {
+  const lookup = new Map(scores.map(s => [`${s.student_id}:${s.criteria_id}`, s.score]));
+  return studentIds.map(studentId =>
+    criteria.map(criterion => lookup.get(`${studentId}:${criterion.id}`) ?? 0)
+  );
+};
+
+// TOPSIS: jarak ke solusi ideal positif dan negatif pada matriks ternormalisasi vektor;
+// solusi ideal kriteria cost adalah nilai terkecil. Seluruh langkah dikembalikan untuk laporan.
+export const topsisSteps = (matrix: number[][], weights: number[], costs: boolean[] = []) => {
+  const divisors = weights.map((_, j) => Math.sqrt(matrix.reduce((sum, row) => sum + row[j] ** 2, 0)) || 1);
+  const normalized = matrix.map(row => row.map((value, j) => value / divisors[j]));
+  const weighted = normalized.map(row => row.map((value, j) => value * weights[j]));
+
+  const columnMax = weights.map((_, j) => Math.max(...weighted.map(row => row[j])));
+  const columnMin = weights.map((_, j) => Math.min(...weighted.map(row => row[j])));
+  const idealBest = weights.map((_, j) => (costs[j] ? columnMin[j] : columnMax[j]));
+  const idealWorst = weights.map((_, j) => (costs[j] ? columnMax[j] : columnMin[j]));
+
+  const toBest = weighted.map(row => Math.sqrt(row.reduce((sum, value, j) => sum + (value - idealBest[j]) ** 2, 0)));
+  const toWorst = weighted.map(row => Math.sqrt(row.reduce((sum, value, j) => sum + (value - idealWorst[j]) ** 2, 0)));
+  const closeness = toBest.map((best, i) => (best + toWorst[i] > 0 ? toWorst[i] / (best + toWorst[i]) : 0));
+
+  return { normalized, weighted, idealBest, idealWorst, toBest, toWorst, closeness };
+};
+
+export const topsisScores = (matrix: number[][], weights: number[], costs: boolean[] = []) =>
+  topsisSteps(matrix, weights, costs).closeness;
+
+// WP: vektor S = Π x_ij^w_j (pangkat negatif untuk kriteria cost), lalu vektor V = S_i / Σ S
+export const wpSteps = (matrix: number[][], weights: number[], costs: boolean[] = []) => {
+  const exponents = weights.map((weight, j) => (costs[j] ? -weight : weight));
+  const products = matrix.map(row =>
+    row.reduce((product, value, j) => product * Math.pow(Math.max(value, WP_FLOOR), exponents[j]), 1)
+  );
+  const total = products.reduce((sum, value) => sum + value, 0);
+  return { exponents, products, values: products.map(value => (total > 0 ? value / total : 0)) };
+};
+
+export const wpScores = (matrix: number[][], weights: number[], costs: boolean[] = []) =>
+  wpSteps(matrix, weights, costs).values;
+
+// Skor akhir setiap siswa menurut metode yang dipilih
+export const scoreByEngine = (
+  engine: ScoreEngine,
+  studentIds: string[],
+  criteria: ScoringCriterion[],
+  scores: ScoreRow[]
+): {[studentId: string]: number} => {
+  if (engine === 'saw') {
+    const stats = calculateScoreStats(criteria, scores);
+    return Object.fromEntries(studentIds.map(id => [id, scoreStudent(id, criteria, scores, stats).total]));
+  }
+
+  const matrix = buildDecisionMatrix(studentIds, criteria, scores);
+  const weights = criteria.map(c => c.weight || 0);
+  const costs = criteria.map(isCostCriterion);
+  const values = engine === 'topsis' ? topsisScores(matrix, weights, costs) : wpScores(matrix, weights, costs);
+  return Object.fromEntries(studentIds.map((id, i) => [id, values[i]]));
+};
+
+// Peringkat 1..n dari skor tertinggi; skor seri mendapat peringkat rata-rata (mis. 1,5 dan 1,5)
+export const rankByScore = (scores: {[id: string]: number}) => {
+  const sorted = Object.entries(scores).sort(([, a], [, b]) => b - a);
+  const ranks: {[id: string]: number} = {};
+
+  let start = 0;
+  while (start < sorted.length) {
+    let end = start;
+    while (end + 1 < sorted.length && isScoreTie(sorted[end + 1][1], sorted[start][1])) end++;
+    const averageRank = (start + end) / 2 + 1;
+    for (let k = start; k <= end; k++) ranks[sorted[k][0]] = averageRank;
+    start = end + 1;
+  }
+  return ranks;
+};
+
+// Korelasi Spearman sebagai korelasi Pearson antar peringkat rata-rata, sehingga tetap benar bila
+// ada seri; tanpa seri hasilnya sama dengan 1 - 6Σd² / (n(n² - 1))
+export const spearmanCorrelation = (ranksA: number[], ranksB: number[]) => {
+  const n = ranksA.length;
+  if (n < 2) return 1;
+  const meanA = ranksA.reduce((sum, rank) => sum + rank, 0) / n;
+  const meanB = ranksB.reduce((sum, rank) => sum + rank, 0) / n;
+  let covariance = 0;
+  let varianceA = 0;
+  let varianceB = 0;
+  ranksA.forEach((rank, i) => {
+    covariance += (rank - meanA) * (ranksB[i] - meanB);
+    varianceA += (rank - meanA) ** 2;
+    varianceB += (ranksB[i] - meanB) ** 2;
+  });
+  // Semua siswa seri pada kedua metode berarti urutan identik
+  if (varianceA === 0 || varianceB === 0) return varianceA === varianceB ? 1 : 0;
+  return covariance / Math.sqrt(varianceA * varianceB);
+};
+
+// Kendall tau-b: (pasangan searah - pasangan berlawanan) / √(pasangan tidak seri di A × di B)
+export const kendallTau = (ranksA: number[], ranksB: number[]) => {
+  const n = ranksA.length;
+  if (n < 2) return 1;
+  let balance = 0;
+  let untiedA = 0;
+  let untiedB = 0;
+  for (let i = 0; i < n; i++) {
+    for (let j = i + 1; j < n; j++) {
+      const signA = Math.sign(ranksA[i] - ranksA[j]);
+      const signB = Math.sign(ranksB[i] - ranksB[j]);
+      balance += signA * signB;
+      if (signA !== 0) untiedA++;
+      if (signB !== 0) untiedB++;
+    }
+  }
+  if (untiedA === 0 || untiedB === 0) return untiedA === untiedB ? 1 : 0;
+  return balance / Math.sqrt(untiedA * untiedB);
+};
@@ -0,0 +1,140 @@
+import { ScoreRow } from '@/lib/scoring';
+
+export type MissingScorePolicy = 'exclude' | 'class-mean' | 'criterion-mean' | 'zero';
+
+export const missingScorePolicyLabels: {[policy in MissingScorePolicy]: string} = {
+  exclude: 'Keluarkan siswa yang nilainya belum lengkap',
+  'class-mean': 'Isi dengan rata-rata kelas',
+  'criterion-mean': 'Isi dengan rata-rata kriteria',
+  zero: 'Anggap bernilai 0'
+};
+
+// Nilai hasil imputasi ditandai agar dapat dibedakan di snapshot dan tampilan hasil
+export interface PolicyScore extends ScoreRow {
+  imputed?: boolean;
+}
+
+interface CompletenessStudent {
+  id: string;
+  name: string;
+  class: string;
+}
+
+interface CompletenessCriterion {
+  id: string;
+  name: string;
+}
+
+export interface CompletenessReport {
+  total: number;
+  filled: number;
+  // Hanya siswa yang masih memiliki nilai kosong
+  students: { studentId: string; missing: string[] }[];
+  criteria: { criterionId: string; filled: number }[];
+}
+
+const scoreKey = (studentId: string, criteriaId: string) => `${studentId}:${criteriaId}`;
+
+export const buildCompletenessReport = (
+  students: CompletenessStudent[],
+  criteria: CompletenessCriterion[],
+  scores: ScoreRow[]
+): CompletenessReport => {
+  const present = new Set(scores.map(s => scoreKey(s.student_id, s.criteria_id)));
+
+  const studentRows = students
+    .map(student => ({
+      studentId: student.id,
+      missing: criteria.filter(c => !present.has(scoreKey(student.id, c.id))).map(c => c.id)
+    }))
+    .filter(row => row.missing.length > 0);
+
+  const criteriaRows = criteria.map(criterion => ({
+    criterionId: criterion.id,
+    filled: students.filter(student => present.has(scoreKey(student.id, criterion.id))).length
+  }));
+
+  return {
+    total: students.length * criteria.length,
+    filled: criteriaRows.reduce((sum, row) => sum + row.filled, 0),
+    students: studentRows,
+    criteria: criteriaRows
+  };
+};
+
+// Kondisi yang membuat perhitungan tidak dapat dijalankan dengan kebijakan terpilih
+export const getBlockingIssues = (
+  report: CompletenessReport,
+  policy: MissingScorePolicy,
+  students: CompletenessStudent[],
+  criteria: CompletenessCriterion[]
+) => {
+  const issues: string[] = [];
+
+  report.criteria
+    .filter(row => row.filled === 0)
+    .forEach(row => {
+      const criterion = criteria.find(c => c.id === row.criterionId);
+      issues.push(`Kriteria "${criterion?.name}" belum memiliki nilai sama sekali`);
+    });
+
+  if (policy === 'exclude' && students.length > 0 && report.students.length === students.length) {
+    issues.push('Tidak ada siswa dengan nilai lengkap untuk dihitung');
+  }
+
+  return issues;
+};
+
+const mean = (values: number[]) =>
+  values.length > 0 ? values.reduce((sum, value) => sum + value, 0) / values.length : null;
+
+// Terapkan kebijakan nilai kosong: kembalikan siswa yang ikut dihitung dan nilai lengkapnya
+export const applyMissingScorePolicy = <T extends CompletenessStudent>(
+  policy: MissingScorePolicy,
+  students: T[],
+  criteria: CompletenessCriterion[],
+  scores: ScoreRow[]
+) => {
+  const report = buildCompletenessReport(students, criteria, scores);
+  const incomplete = new Map(report.students.map(row => [row.studentId, row.missing]));
+
+  if (policy === 'exclude') {
+    const included = students.filter(student => !incomplete.has(student.id));
+    const includedIds = new Set(included.map(s => s.id));
+    return {
+      students: included,
+      scores: scores.filter(s => includedIds.has(s.student_id)) as PolicyScore[],
+      excluded: students.filter(student => incomplete.has(student.id)),
+      imputed: [] as PolicyScore[]
+    };
+  }
+
+  const classById = new Map(students.map(student => [student.id, student.class]));
+  const imputed: PolicyScore[] = [];
+
+  incomplete.forEach((missing, studentId) => {
+    missing.forEach(criteriaId => {
+      const criterionScores = scores.filter(s => s.criteria_id === criteriaId);
+      const classMean = mean(
+        criterionScores.filter(s => classById.get(s.student_id) === classById.get(studentId)).map(s => s.score)
+      );
+      const criterionMean = mean(criterionScores.map(s => s.score));
+
+      // Kelas tanpa nilai sama sekali memakai rata-rata kriteria
+      const score = policy === 'zero'
+        ? 0
+        : policy === 'class-mean'
+          ? classMean ?? criterionMean ?? 0
+          : criterionMean ?? 0;
+
+      imputed.push({ student_id: studentId, criteria_id: criteriaId, score, imputed: true });
+    });
+  });
+
+  return {
+    students,
+    scores: [...scores, ...imputed] as PolicyScore[],
+    excluded: [] as T[],
+    imputed
+  };
+};
@@ -0,0 +1,61 @@
+import type { Tables } from '@/integrations/supabase/types';
+
+export type AcademicPeriod = Tables<'academic_periods'>;
+
+// Kelas tertinggi di SMP; siswa kelas 9 lulus saat kenaikan kelas
+export const MAX_GRADE = 9;
+export const MIN_GRADE = 7;
+
+export const semesterLabels: {[semester: number]: string} = {
+  1: 'Ganjil',
+  2: 'Genap'
+};
+
+export const formatPeriod = (period: Pick<AcademicPeriod, 'academic_year' | 'semester'>) =>
+  `${period.academic_year} ${semesterLabels[period.semester] || period.semester}`;
+
+export const isValidAcademicYear = (value: string) => {
+  const match = value.match(/^(\d{4})\/(\d{4})$/);
+  return !!match && Number(match[2]) === Number(match[1]) + 1;
+};
+
+// Ganjil → Genap pada tahun ajaran yang sama, Genap → Ganjil tahun ajaran berikutnya
+export const getNextPeriod = (period: Pick<AcademicPeriod, 'academic_year' | 'semester'>) => {
+  if (period.semester === 1) {
+    return { academic_year: period.academic_year, semester: 2, promotes: false };
+  }
+
+  const [start, end] = period.academic_year.split('/').map(Number);
+  return { academic_year: `${start + 1}/${end + 1}`, semester: 1, promotes: true };
+};
+
+// "7A" → "8A"; mengembalikan null bila siswa lulus; kelas tanpa angka tidak diubah
+export const promoteClass = (className: string) => {
+  const match = className.trim().match(/^(\d+)(.*)$/);
+  if (!match) return className;
+
+  const grade = Number(match[1]) + 1;
+  if (grade > MAX_GRADE) return null;
+
+  return `${grade}${match[2]}`;
+};
+
+export const sortPeriods = (periods: AcademicPeriod[]) =>
+  [...periods].sort((a, b) =>
+    b.academic_year.localeCompare(a.academic_year) || b.semester - a.semester
+  );
+
+// Tingkat kelas dari nama kelas: "7A" → "7"; kelas tanpa angka menjadi tingkatnya sendiri
+export const getGrade = (className: string) => {
+  const match = className.trim().match(/^(\d+)/);
+  return match ? match[1] : className.trim();
+};
+
+// Nama kelas baku, mis. " 7 a " → "7A"
+export const normalizeClassName = (className: string) => className.replace(/\s+/g, '').toUpperCase();
+
+// Kelas dikenal: tingkat 7–9 diikuti huruf rombel, mis. 7A, 8B, 9C
+export const isKnownClass = (className: string) => {
+  const match = normalizeClassName(className).match(/^(\d+)([A-Z]{1,2})$/);
+  return !!match && Number(match[1]) >= MIN_GRADE && Number(match[1]) <= MAX_GRADE;
+};
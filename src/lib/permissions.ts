@@ -0,0 +1,68 @@
+export type Role = 'admin' | 'kepala_sekolah' | 'wali_kelas' | 'guru_penilai' | 'viewer';
+
+export const roleLabels: {[role in Role]: string} = {
+  admin: 'Admin',
+  kepala_sekolah: 'Kepala Sekolah',
+  wali_kelas: 'Wali Kelas',
+  guru_penilai: 'Guru Penilai',
+  viewer: 'Viewer'
+};
+
+export const DEFAULT_ROLE: Role = 'viewer';
+
+export type Permission =
+  | 'students.view'
+  | 'students.manage'
+  | 'scores.edit'
+  | 'criteria.view'
+  | 'criteria.manage'
+  | 'criteria.evaluate'
+  | 'calculation.view'
+  | 'calculation.run'
+  | 'calculation.approve'
+  | 'periods.manage'
+  | 'reports.export'
+  | 'users.manage';
+
+// Harus sejalan dengan kebijakan RLS di supabase/migrations (role_based_access, user_management, group_ahp)
+const rolePermissions: {[role in Role]: Permission[]} = {
+  admin: [
+    'students.view',
+    'students.manage',
+    'scores.edit',
+    'criteria.view',
+    'criteria.manage',
+    'criteria.evaluate',
+    'calculation.view',
+    'calculation.run',
+    'calculation.approve',
+    'periods.manage',
+    'reports.export',
+    'users.manage'
+  ],
+  kepala_sekolah: [
+    'students.view',
+    'criteria.view',
+    'criteria.evaluate',
+    'calculation.view',
+    'calculation.approve',
+    'reports.export'
+  ],
+  wali_kelas: [
+    'students.view',
+    'students.manage',
+    'scores.edit',
+    'criteria.view',
+    'criteria.evaluate',
+    'calculation.view',
+    'reports.export'
+  ],
+  guru_penilai: ['students.view', 'scores.edit', 'criteria.view', 'criteria.evaluate', 'calculation.view'],
+  viewer: []
+};
+
+// Peran lama atau tidak dikenal (mis. 'user') diperlakukan sebagai viewer
+export const normalizeRole = (role: string | null | undefined): Role =>
+  role && role in rolePermissions ? role as Role : DEFAULT_ROLE;
+
+export const can = (role: Role, permission: Permission) => rolePermissions[role].includes(permission);
@@ -0,0 +1,430 @@
+import { jsPDF } from 'jspdf';
+import { autoTable } from 'jspdf-autotable';
+import * as XLSX from 'xlsx';
+import { calculatePriorities, normalizeMatrix, WeightMethod, weightMethodLabels } from '@/lib/ahp';
+import { buildDecisionMatrix, topsisSteps, wpSteps } from '@/lib/mcdm';
+import {
+  calculateScoreStats,
+  getNormalization,
+  isCostCriterion,
+  normalizationLabels,
+  rankingMethodLabels,
+  scoreStudent,
+  ScoreRow
+} from '@/lib/scoring';
+import type { AlternativePrioritiesSnapshot, ComparisonNodeSnapshot } from '@/lib/sessions';
+
+// Identitas sekolah untuk kop laporan
+export const schoolProfile = {
+  name: 'SMP NEGERI 008 GUNTUNG',
+  subtitle: 'Sistem Pendukung Keputusan Pemilihan Siswa Berprestasi',
+  city: 'Guntung'
+};
+
+export interface ReportCriterion {
+  id: string;
+  name: string;
+  weight: number | null;
+  type?: string | null;
+  normalization?: string | null;
+  rubric?: unknown;
+  min_score?: number;
+  max_score?: number;
+}
+
+export interface ReportResult {
+  rank: number;
+  name: string;
+  nis: string;
+  class: string;
+  finalScore: number;
+  scores: {[criteriaId: string]: number | undefined};
+}
+
+export interface WorkbookResult extends ReportResult {
+  studentId: string;
+}
+
+export interface RankingReportData {
+  periodLabel: string;
+  scopeLabel: string;
+  sessionName: string;
+  sessionDate: string;
+  isOfficial: boolean;
+  criteria: ReportCriterion[];
+  consistencyRatio: number | null;
+  // Satu matriks per node hierarki kriteria, dari snapshot sesi
+  weightNodes: ComparisonNodeSnapshot[];
+  results: ReportResult[];
+}
+
+type AutoTableDocument = jsPDF & { lastAutoTable: { finalY: number } };
+
+const PAGE_MARGIN = 15;
+const TOP_HIGHLIGHT: {[rank: number]: [number, number, number]} = {
+  1: [254, 243, 199],
+  2: [243, 244, 246],
+  3: [255, 237, 213]
+};
+
+const formatPercent = (value: number | null, digits = 2) =>
+  value === null ? '-' : `${(value * 100).toFixed(digits)}%`;
+
+// Bobot tanpa weight_method dihitung dari eigenvector matriks bersama
+export const formatWeightMethod = (weightMethod: string | null) =>
+  weightMethodLabels[weightMethod as WeightMethod] || 'AHP (Eigenvector)';
+
+const drawLetterhead = (doc: jsPDF) => {
+  const pageWidth = doc.internal.pageSize.getWidth();
+
+  doc.setFont('helvetica', 'bold');
+  doc.setFontSize(16);
+  doc.text(schoolProfile.name, pageWidth / 2, 20, { align: 'center' });
+  doc.setFont('helvetica', 'normal');
+  doc.setFontSize(11);
+  doc.text(schoolProfile.subtitle, pageWidth / 2, 27, { align: 'center' });
+
+  doc.setLineWidth(0.8);
+  doc.line(PAGE_MARGIN, 31, pageWidth - PAGE_MARGIN, 31);
+  doc.setLineWidth(0.2);
+  doc.line(PAGE_MARGIN, 32.5, pageWidth - PAGE_MARGIN, 32.5);
+
+  return 40;
+};
+
+// Pindah halaman bila sisa ruang tidak cukup untuk blok berikutnya
+const ensureSpace = (doc: jsPDF, y: number, height: number) => {
+  if (y + height > doc.internal.pageSize.getHeight() - PAGE_MARGIN) {
+    doc.addPage();
+    return PAGE_MARGIN + 5;
+  }
+  return y;
+};
+
+const drawSectionTitle = (doc: jsPDF, title: string, y: number) => {
+  doc.setFont('helvetica', 'bold');
+  doc.setFontSize(11);
+  doc.text(title, PAGE_MARGIN, y);
+  doc.setFont('helvetica', 'normal');
+  return y + 2;
+};
+
+const drawSignatures = (doc: jsPDF, y: number) => {
+  const pageWidth = doc.internal.pageSize.getWidth();
+  const left = PAGE_MARGIN + 25;
+  const right = pageWidth - PAGE_MARGIN - 25;
+  const date = new Date().toLocaleDateString('id-ID', { day: 'numeric', month: 'long', year: 'numeric' });
+
+  doc.setFontSize(10);
+  doc.text(`${schoolProfile.city}, ${date}`, right, y, { align: 'center' });
+  doc.text('Mengetahui,', left, y + 6, { align: 'center' });
+  doc.text('Kepala Sekolah', left, y + 11, { align: 'center' });
+  doc.text('Ketua Panitia Penilaian', right, y + 11, { align: 'center' });
+
+  [left, right].forEach(x => {
+    doc.text('(.................................)', x, y + 36, { align: 'center' });
+    doc.text('NIP. .........................', x, y + 41, { align: 'center' });
+  });
+};
+
+export const exportRankingPdf = (data: RankingReportData) => {
+  const doc = new jsPDF({ orientation: 'portrait', unit: 'mm', format: 'a4' }) as AutoTableDocument;
+  const pageWidth = doc.internal.pageSize.getWidth();
+
+  let y = drawLetterhead(doc);
+
+  doc.setFont('helvetica', 'bold');
+  doc.setFontSize(13);
+  doc.text('LAPORAN HASIL PERANGKINGAN SISWA BERPRESTASI', pageWidth / 2, y, { align: 'center' });
+  y += 8;
+
+  doc.setFont('helvetica', 'normal');
+  doc.setFontSize(10);
+  [
+    `Periode: ${data.periodLabel}`,
+    `Cakupan: ${data.scopeLabel}`,
+    `Perhitungan: ${data.sessionName} (${data.sessionDate})${data.isOfficial ? ' - Hasil Resmi' : ''}`,
+    `Consistency Ratio kriteria: ${formatPercent(data.consistencyRatio)}`
+  ].forEach(line => {
+    doc.text(line, PAGE_MARGIN, y);
+    y += 5;
+  });
+
+  y = drawSectionTitle(doc, 'A. Kriteria dan Bobot', y + 4);
+  autoTable(doc, {
+    startY: y,
+    margin: { left: PAGE_MARGIN, right: PAGE_MARGIN },
+    head: [['No', 'Kriteria', 'Bobot']],
+    body: data.criteria.map((criterion, index) => [
+      index + 1,
+      criterion.name,
+      formatPercent(criterion.weight)
+    ]),
+    theme: 'grid',
+    headStyles: { fillColor: [37, 99, 235] },
+    styles: { fontSize: 9 }
+  });
+  y = doc.lastAutoTable.finalY + 8;
+
+  if (data.weightNodes.length > 0) {
+    y = drawSectionTitle(doc, 'B. Matriks Perbandingan Berpasangan Kriteria', ensureSpace(doc, y, 40));
+    data.weightNodes.forEach((node, index) => {
+      y = ensureSpace(doc, y + 4, 30);
+      doc.setFontSize(9);
+      doc.text(
+        `${index + 1}. ${node.name} - ${formatWeightMethod(node.weightMethod)}, CR ${formatPercent(node.cr)}`,
+        PAGE_MARGIN,
+        y
+      );
+      autoTable(doc, {
+        startY: y + 2,
+        margin: { left: PAGE_MARGIN, right: PAGE_MARGIN },
+        head: [['Kriteria', ...node.criteria.map(criterion => criterion.name), 'Bobot Lokal', 'Bobot Global']],
+        body: node.matrix.map((row, i) => [
+          node.criteria[i].name,
+          ...row.map(value => value.toFixed(3)),
+          formatPercent(node.criteria[i].localWeight),
+          formatPercent(node.criteria[i].globalWeight)
+        ]),
+        theme: 'grid',
+        headStyles: { fillColor: [37, 99, 235] },
+        styles: { fontSize: 8, halign: 'center' },
+        columnStyles: { 0: { halign: 'left', fontStyle: 'bold' } }
+      });
+      y = doc.lastAutoTable.finalY + 4;
+    });
+    y += 4;
+  }
+
+  y = drawSectionTitle(doc, 'C. Hasil Perangkingan', ensureSpace(doc, y, 30));
+  autoTable(doc, {
+    startY: y,
+    margin: { left: PAGE_MARGIN, right: PAGE_MARGIN },
+    head: [['Rank', 'Nama', 'NIS', 'Kelas', ...data.criteria.map(criterion => criterion.name), 'Skor']],
+    body: data.results.map(result => [
+      result.rank,
+      result.name,
+      result.nis,
+      result.class,
+      ...data.criteria.map(criterion => result.scores[criterion.id] ?? '-'),
+      formatPercent(result.finalScore)
+    ]),
+    theme: 'grid',
+    headStyles: { fillColor: [37, 99, 235] },
+    styles: { fontSize: 8 },
+    // Sorot tiga besar
+    didParseCell: (hookData) => {
+      if (hookData.section !== 'body') return;
+      const highlight = TOP_HIGHLIGHT[data.results[hookData.row.index]?.rank];
+      if (highlight) {
+        hookData.cell.styles.fillColor = highlight;
+        hookData.cell.styles.fontStyle = 'bold';
+      }
+    }
+  });
+  y = doc.lastAutoTable.finalY + 8;
+
+  const winners = data.results.filter(result => result.rank <= 3);
+  if (winners.length > 0) {
+    y = drawSectionTitle(doc, 'D. Tiga Besar', ensureSpace(doc, y, 10 + winners.length * 5));
+    y += 4;
+    doc.setFontSize(10);
+    winners.forEach(result => {
+      doc.text(
+        `Juara ${result.rank}: ${result.name} (Kelas ${result.class}) - skor ${formatPercent(result.finalScore)}`,
+        PAGE_MARGIN,
+        y
+      );
+      y += 5;
+    });
+    y += 5;
+  }
+
+  drawSignatures(doc, ensureSpace(doc, y, 50));
+
+  const fileName = `laporan-ranking-${data.periodLabel}`.toLowerCase().replace(/[^a-z0-9]+/g, '-');
+  doc.save(`${fileName}.pdf`);
+};
+
+export interface CalculationWorkbookData {
+  sessionName: string;
+  method: string;
+  criteria: ReportCriterion[];
+  weightNodes: ComparisonNodeSnapshot[];
+  alternativePriorities: AlternativePrioritiesSnapshot | null;
+  scores: ScoreRow[];
+  results: WorkbookResult[];
+}
+
+type SheetRows = (string | number)[][];
+
+const round = (value: number, digits = 4) => Number(value.toFixed(digits));
+
+// Satu blok per node: matriks perbandingan, matriks ternormalisasi, bobot yang dipakai dan konsistensinya
+const buildNodeSheet = (nodes: ComparisonNodeSnapshot[]): SheetRows => {
+  if (nodes.length === 0) {
+    return [['Sesi ini tidak menyimpan matriks perbandingan kriteria (sesi lama).']];
+  }
+
+  return nodes.flatMap(node => {
+    const names = node.criteria.map(criterion => criterion.name);
+    const matrixPriorities = calculatePriorities(node.matrix).weights;
+
+    return [
+      [`Kelompok: ${node.name}`],
+      ['Metode Bobot', formatWeightMethod(node.weightMethod)],
+      ['Kriteria', ...names],
+      ...node.matrix.map((row, i) => [names[i], ...row.map(value => round(value))]),
+      [],
+      ['Normalisasi', ...names, 'Prioritas Matriks', 'Bobot Lokal', 'Bobot Global'],
+      ...normalizeMatrix(node.matrix).map((row, i) => [
+        names[i],
+        ...row.map(value => round(value)),
+        round(matrixPriorities[i]),
+        node.criteria[i].localWeight === null ? '' : round(node.criteria[i].localWeight),
+        node.criteria[i].globalWeight === null ? '' : round(node.criteria[i].globalWeight)
+      ]),
+      ['Lambda Maks', round(node.lambdaMax)],
+      ['CI', round(node.ci)],
+      ['RI', node.ri],
+      ['CR', round(node.cr)],
+      []
+    ];
+  });
+};
+
+const buildSawSheet = (data: CalculationWorkbookData, criteriaNames: string[]): SheetRows => {
+  const scoreStats = calculateScoreStats(data.criteria, data.scores);
+  const rows: SheetRows = [
+    ['NIS', 'Nama', ...criteriaNames.map(name => `${name} (normalisasi)`), ...criteriaNames.map(name => `${name} (terbobot)`), 'Total'],
+    ['Bobot', '', ...data.criteria.map(criterion => round(criterion.weight || 0)), ...data.criteria.map(() => ''), ''],
+    ['Jenis', '', ...data.criteria.map(criterion => (isCostCriterion(criterion) ? 'Cost' : 'Benefit')), ...data.criteria.map(() => ''), ''],
+    ['Normalisasi', '', ...data.criteria.map(criterion => normalizationLabels[getNormalization(criterion)]), ...data.criteria.map(() => ''), ''],
+    ['Minimum', '', ...data.criteria.map(criterion => scoreStats[criterion.id].min), ...data.criteria.map(() => ''), ''],
+    ['Maksimum', '', ...data.criteria.map(criterion => scoreStats[criterion.id].max), ...data.criteria.map(() => ''), '']
+  ];
+  data.results.forEach(result => {
+    const { breakdown, total } = scoreStudent(result.studentId, data.criteria, data.scores, scoreStats);
+    rows.push([
+      result.nis,
+      result.name,
+      ...data.criteria.map(criterion => round(breakdown[criterion.id].normalized)),
+      ...data.criteria.map(criterion => round(breakdown[criterion.id].weighted)),
+      round(total)
+    ]);
+  });
+  return rows;
+};
+
+const buildTopsisSheet = (data: CalculationWorkbookData, criteriaNames: string[]): SheetRows => {
+  const matrix = buildDecisionMatrix(data.results.map(r => r.studentId), data.criteria, data.scores);
+  const steps = topsisSteps(matrix, data.criteria.map(c => c.weight || 0), data.criteria.map(isCostCriterion));
+  const padding = data.criteria.map(() => '');
+
+  return [
+    ['NIS', 'Nama', ...criteriaNames.map(name => `${name} (r)`), ...criteriaNames.map(name => `${name} (y)`), 'D+', 'D-', 'Preferensi (V)'],
+    ['Bobot', '', ...data.criteria.map(criterion => round(criterion.weight || 0)), ...padding, '', '', ''],
+    ['Jenis', '', ...data.criteria.map(criterion => (isCostCriterion(criterion) ? 'Cost' : 'Benefit')), ...padding, '', '', ''],
+    ['Solusi Ideal Positif (A+)', '', ...padding, ...steps.idealBest.map(value => round(value)), '', '', ''],
+    ['Solusi Ideal Negatif (A-)', '', ...padding, ...steps.idealWorst.map(value => round(value)), '', '', ''],
+    ...data.results.map((result, i) => [
+      result.nis,
+      result.name,
+      ...steps.normalized[i].map(value => round(value)),
+      ...steps.weighted[i].map(value => round(value)),
+      round(steps.toBest[i]),
+      round(steps.toWorst[i]),
+      round(steps.closeness[i], 6)
+    ])
+  ];
+};
+
+const buildWpSheet = (data: CalculationWorkbookData, criteriaNames: string[]): SheetRows => {
+  const matrix = buildDecisionMatrix(data.results.map(r => r.studentId), data.criteria, data.scores);
+  const steps = wpSteps(matrix, data.criteria.map(c => c.weight || 0), data.criteria.map(isCostCriterion));
+
+  return [
+    ['NIS', 'Nama', ...criteriaNames, 'Vektor S', 'Vektor V'],
+    ['Bobot', '', ...data.criteria.map(criterion => round(criterion.weight || 0)), '', ''],
+    ['Pangkat', '', ...steps.exponents.map(value => round(value)), '', ''],
+    ...data.results.map((result, i) => [
+      result.nis,
+      result.name,
+      ...matrix[i],
+      round(steps.products[i], 6),
+      round(steps.values[i], 6)
+    ])
+  ];
+};
+
+const buildAhpSheet = (data: CalculationWorkbookData, criteriaNames: string[]): SheetRows => {
+  const priorities = data.alternativePriorities;
+  if (!priorities) {
+    return [['Sesi ini tidak menyimpan prioritas lokal alternatif (sesi lama).']];
+  }
+
+  const local = (criteriaId: string, studentId: string) => priorities[criteriaId]?.priorities[studentId] ?? 0;
+  return [
+    ['NIS', 'Nama', ...criteriaNames.map(name => `${name} (prioritas lokal)`), ...criteriaNames.map(name => `${name} (terbobot)`), 'Prioritas Global'],
+    ['Bobot', '', ...data.criteria.map(criterion => round(criterion.weight || 0)), ...data.criteria.map(() => ''), ''],
+    ['CR Alternatif', '', ...data.criteria.map(criterion => round(priorities[criterion.id]?.cr ?? 0)), ...data.criteria.map(() => ''), ''],
+    ...data.results.map(result => [
+      result.nis,
+      result.name,
+      ...data.criteria.map(criterion => round(local(criterion.id, result.studentId))),
+      ...data.criteria.map(criterion => round((criterion.weight || 0) * local(criterion.id, result.studentId))),
+      round(data.criteria.reduce((sum, criterion) => sum + (criterion.weight || 0) * local(criterion.id, result.studentId), 0), 6)
+    ])
+  ];
+};
+
+const methodSheets: {[method: string]: { name: string; build: (data: CalculationWorkbookData, criteriaNames: string[]) => SheetRows }} = {
+  saw: { name: 'Normalisasi & Terbobot', build: buildSawSheet },
+  topsis: { name: 'TOPSIS', build: buildTopsisSheet },
+  wp: { name: 'Weighted Product', build: buildWpSheet },
+  ahp: { name: 'Prioritas Lokal', build: buildAhpSheet }
+};
+
+// Buku kerja audit dari snapshot sesi: matriks per node kriteria, bobot, nilai mentah,
+// langkah perhitungan sesuai metode sesi, dan ranking
+export const exportCalculationWorkbook = (data: CalculationWorkbookData) => {
+  const workbook = XLSX.utils.book_new();
+  const criteriaNames = data.criteria.map(criterion => criterion.name);
+
+  XLSX.utils.book_append_sheet(workbook, XLSX.utils.aoa_to_sheet(buildNodeSheet(data.weightNodes)), 'Matriks Kriteria');
+
+  const weightSheet = [
+    ['Metode Peringkat', rankingMethodLabels[data.method] || data.method],
+    [],
+    ['Kriteria', 'Jenis', 'Bobot Global'],
+    ...data.criteria.map(criterion => [
+      criterion.name,
+      isCostCriterion(criterion) ? 'Cost' : 'Benefit',
+      round(criterion.weight || 0)
+    ])
+  ];
+  XLSX.utils.book_append_sheet(workbook, XLSX.utils.aoa_to_sheet(weightSheet), 'Bobot Kriteria');
+
+  const rawSheet = [
+    ['NIS', 'Nama', 'Kelas', ...criteriaNames],
+    ...data.results.map(result => [
+      result.nis,
+      result.name,
+      result.class,
+      ...data.criteria.map(criterion => result.scores[criterion.id] ?? '')
+    ])
+  ];
+  XLSX.utils.book_append_sheet(workbook, XLSX.utils.aoa_to_sheet(rawSheet), 'Nilai Mentah');
+
+  const methodSheet = methodSheets[data.method] || methodSheets.saw;
+  XLSX.utils.book_append_sheet(workbook, XLSX.utils.aoa_to_sheet(methodSheet.build(data, criteriaNames)), methodSheet.name);
+
+  const rankingSheet = [
+    ['Rank', 'NIS', 'Nama', 'Kelas', 'Skor Akhir'],
+    ...data.results.map(result => [result.rank, result.nis, result.name, result.class, round(result.finalScore, 6)])
+  ];
+  XLSX.utils.book_append_sheet(workbook, XLSX.utils.aoa_to_sheet(rankingSheet), 'Ranking');
+
+  const fileName = `perhitungan-${data.sessionName}`.toLowerCase().replace(/[^a-z0-9]+/g, '-');
+  XLSX.writeFile(workbook, `${fileName}.xlsx`);
+};
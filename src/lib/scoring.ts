@@ -0,0 +1,256 @@
+import { getGrade } from '@/lib/periods';
+
+export type NormalizationStrategy = 'max' | 'min-max' | 'vector' | 'fixed' | 'rubric';
+
+export const normalizationLabels: {[strategy in NormalizationStrategy]: string} = {
+  max: 'Bagi Maksimum',
+  'min-max': 'Min-Maks',
+  vector: 'Vektor (Euclidean)',
+  fixed: 'Skala Tetap (Rentang Kriteria)',
+  rubric: 'Rubrik'
+};
+
+// Nilai mentah >= min dikonversi menjadi value (0..1)
+export interface RubricBand {
+  min: number;
+  value: number;
+}
+
+export interface ScoringCriterion {
+  id: string;
+  weight: number | null;
+  type?: string | null;
+  normalization?: string | null;
+  rubric?: unknown;
+  min_score?: number;
+  max_score?: number;
+}
+
+export interface ScoreRow {
+  student_id: string;
+  criteria_id: string;
+  score: number;
+}
+
+export interface CriterionBreakdown {
+  raw: number;
+  normalized: number;
+  weighted: number;
+  strategy: NormalizationStrategy;
+}
+
+export type CriterionType = 'benefit' | 'cost';
+
+export const criterionTypeLabels: {[type in CriterionType]: string} = {
+  benefit: 'Benefit - semakin tinggi semakin baik',
+  cost: 'Cost - semakin rendah semakin baik'
+};
+
+// Kriteria tanpa jenis (data atau snapshot lama) diperlakukan sebagai benefit
+export const isCostCriterion = (criterion: ScoringCriterion) => criterion.type === 'cost';
+
+// Kriteria tanpa strategi (data atau snapshot lama) memakai pembagian maksimum
+export const getNormalization = (criterion: Pick<ScoringCriterion, 'normalization'>): NormalizationStrategy =>
+  criterion.normalization && criterion.normalization in normalizationLabels
+    ? criterion.normalization as NormalizationStrategy
+    : 'max';
+
+// Rubrik tersimpan sebagai JSON; entri yang tidak valid diabaikan, diurutkan dari batas tertinggi
+export const parseRubric = (value: unknown): RubricBand[] =>
+  (Array.isArray(value) ? value : [])
+    .filter((band): band is RubricBand =>
+      typeof band === 'object' && band !== null &&
+      typeof band.min === 'number' && typeof band.value === 'number'
+    )
+    .map(band => ({ min: band.min, value: band.value }))
+    .sort((a, b) => b.min - a.min);
+
+export const rubricValue = (raw: number, rubric: RubricBand[]) =>
+  rubric.find(band => raw >= band.min)?.value ?? 0;
+
+export interface ScoreStats {
+  min: number;
+  max: number;
+  // Norma Euclidean √Σx² untuk normalisasi vektor
+  norm: number;
+}
+
+// Statistik nilai tiap kriteria sebagai dasar normalisasi (maksimum minimal 1)
+export const calculateScoreStats = (criteria: ScoringCriterion[], scores: ScoreRow[]) => {
+  const stats: {[criteriaId: string]: ScoreStats} = {};
+  criteria.forEach(criterion => {
+    const criteriaScores = scores.filter(s => s.criteria_id === criterion.id).map(s => s.score);
+    stats[criterion.id] = {
+      min: criteriaScores.length > 0 ? Math.max(Math.min(...criteriaScores), 0) : 0,
+      max: Math.max(criteriaScores.length > 0 ? Math.max(...criteriaScores) : 100, 1),
+      norm: Math.sqrt(criteriaScores.reduce((sum, score) => sum + score * score, 0))
+    };
+  });
+  return stats;
+};
+
+const clamp = (value: number) => Math.min(Math.max(value, 0), 1);
+
+// Kriteria cost dibalik (1 - r) kecuali pada strategi maksimum (min/x) dan rubrik (arah ditentukan rubrik)
+export const normalizeScore = (raw: number, criterion: ScoringCriterion, stats: ScoreStats) => {
+  const cost = isCostCriterion(criterion);
+
+  switch (getNormalization(criterion)) {
+    case 'min-max': {
+      if (stats.max <= stats.min) return 1;
+      const ratio = clamp((raw - stats.min) / (stats.max - stats.min));
+      return cost ? 1 - ratio : ratio;
+    }
+    case 'vector': {
+      const ratio = stats.norm > 0 ? raw / stats.norm : 0;
+      return cost ? 1 - ratio : ratio;
+    }
+    case 'fixed': {
+      const min = criterion.min_score ?? 0;
+      const max = criterion.max_score ?? 100;
+      if (max <= min) return 0;
+      const ratio = clamp((raw - min) / (max - min));
+      return cost ? 1 - ratio : ratio;
+    }
+    case 'rubric':
+      return rubricValue(raw, parseRubric(criterion.rubric));
+    default:
+      // Benefit: x / max. Cost: min / x, atau (max - x) / (max - min) bila nilai terkecil 0 (mis. tanpa absen)
+      if (!cost) return raw / stats.max;
+      if (stats.min > 0) return raw > 0 ? stats.min / raw : 1;
+      return stats.max > stats.min ? (stats.max - raw) / (stats.max - stats.min) : 1;
+  }
+};
+
+// Rincian nilai mentah, ternormalisasi dan terbobot seorang siswa per kriteria
+export const scoreStudent = (
+  studentId: string,
+  criteria: ScoringCriterion[],
+  scores: ScoreRow[],
+  stats: {[criteriaId: string]: ScoreStats}
+) => {
+  const breakdown: {[criteriaId: string]: CriterionBreakdown} = {};
+  let total = 0;
+
+  criteria.forEach(criterion => {
+    const score = scores.find(s => s.student_id === studentId && s.criteria_id === criterion.id);
+    const raw = score ? score.score : 0;
+    const normalized = normalizeScore(raw, criterion, stats[criterion.id]);
+    const weighted = normalized * (criterion.weight || 0);
+
+    breakdown[criterion.id] = { raw, normalized, weighted, strategy: getNormalization(criterion) };
+    total += weighted;
+  });
+
+  return { breakdown, total };
+};
+
+export const rankingMethodLabels: {[method: string]: string} = {
+  saw: 'Normalisasi Skor (SAW)',
+  topsis: 'TOPSIS',
+  wp: 'Weighted Product (WP)',
+  ahp: 'AHP Perbandingan Alternatif'
+};
+
+export type RankingScope = 'global' | 'grade' | 'class';
+
+export const rankingScopeLabels: {[scope in RankingScope]: string} = {
+  global: 'Seluruh Sekolah',
+  grade: 'Per Tingkat',
+  class: 'Per Kelas'
+};
+
+export interface ScopedResult {
+  rank: number;
+  class_rank: number | null;
+  grade_rank: number | null;
+  student: { class: string };
+}
+
+export const getScopeGroup = (className: string, scope: RankingScope) =>
+  scope === 'class' ? className : scope === 'grade' ? getGrade(className) : 'all';
+
+export const getScopeRank = (result: ScopedResult, scope: RankingScope) =>
+  (scope === 'class' ? result.class_rank : scope === 'grade' ? result.grade_rank : result.rank) ?? result.rank;
+
+// Nomor urut di dalam setiap kelompok; items harus sudah terurut dari skor tertinggi.
+// Item yang seri dengan item sebelumnya di kelompok yang sama mendapat peringkat bersama (1, 2, 2, 4)
+export const rankWithinGroups = <T,>(
+  items: T[],
+  getGroup: (item: T) => string,
+  isTied: (a: T, b: T) => boolean = () => false
+) => {
+  const counters: {[group: string]: number} = {};
+  const previous: {[group: string]: { item: T; rank: number }} = {};
+  return items.map(item => {
+    const group = getGroup(item);
+    counters[group] = (counters[group] || 0) + 1;
+    const last = previous[group];
+    const rank = last && isTied(last.item, item) ? last.rank : counters[group];
+    previous[group] = { item, rank };
+    return rank;
+  });
+};
+
+export type TieMode = 'shared' | 'criteria';
+
+export const tieModeLabels: {[mode in TieMode]: string} = {
+  shared: 'Peringkat Bersama (1, 2, 2, 4)',
+  criteria: 'Tie-break Kriteria Prioritas'
+};
+
+// criteria: id kriteria prioritas berurutan; seri yang tersisa tetap berbagi peringkat
+export interface TiePolicy {
+  mode: TieMode;
+  criteria: string[];
+}
+
+export const defaultTiePolicy: TiePolicy = { mode: 'shared', criteria: [] };
+
+// Selisih skor akhir di bawah batas ini dianggap seri (galat pembulatan float)
+const SCORE_TOLERANCE = 1e-9;
+
+export const isScoreTie = (a: number, b: number) => Math.abs(a - b) <= SCORE_TOLERANCE;
+
+// Nilai pembanding tie-break: makin besar makin baik, sehingga kriteria cost dibalik
+export const tieBreakValue = (criterion: ScoringCriterion, raw: number) =>
+  isCostCriterion(criterion) ? -raw : raw;
+
+// Aturan yang memisahkan item dari tetangganya yang berskor sama; items sudah terurut.
+// null bila tidak seri, 'shared' bila tetap berbagi peringkat, 'criterion:<id>' bila dipisahkan kriteria
+export const describeTieBreaks = <T,>(
+  items: T[],
+  getScore: (item: T) => number,
+  breakers: { id: string; value: (item: T) => number }[]
+) => {
+  // Indeks kriteria pertama yang membedakan dua item, -1 bila semua sama
+  const separatingLevel = (a: T, b: T) => breakers.findIndex(breaker => breaker.value(a) !== breaker.value(b));
+
+  return items.map((item, i) => {
+    const neighbors = [items[i - 1], items[i + 1]]
+      .filter(neighbor => neighbor !== undefined && isScoreTie(getScore(neighbor), getScore(item)));
+    if (neighbors.length === 0) return null;
+
+    const levels = neighbors.map(neighbor => separatingLevel(neighbor, item));
+    if (levels.includes(-1)) return 'shared';
+    return `criterion:${breakers[Math.max(...levels)].id}`;
+  });
+};
+
+// Keterangan aturan seri untuk ditampilkan
+export const formatTieBreak = (tieBreak: string | null | undefined, criteria: { id: string; name: string }[]) => {
+  if (!tieBreak) return null;
+  if (tieBreak === 'shared') return 'Seri - peringkat bersama';
+  const criterionId = tieBreak.replace('criterion:', '');
+  const criterion = criteria.find(c => c.id === criterionId);
+  return `Seri - dipisahkan oleh ${criterion ? criterion.name : 'kriteria prioritas'}`;
+};
+
+export const getScopeGroups = (results: ScopedResult[], scope: RankingScope) =>
+  Array.from(new Set(results.map(r => getScopeGroup(r.student.class, scope))))
+    .sort((a, b) => a.localeCompare(b, 'id', { numeric: true }));
+
+export const filterByScope = <T extends ScopedResult>(results: T[], scope: RankingScope, group: string) =>
+  results
+    .filter(r => scope === 'global' || getScopeGroup(r.student.class, scope) === group)
+    .sort((a, b) => getScopeRank(a, scope) - getScopeRank(b, scope));
@@ -0,0 +1,107 @@
+import { topsisScores, wpScores } from '@/lib/mcdm';
+import { isScoreTie } from '@/lib/scoring';
+
+// SAW dan sintesis AHP: skor = Σ bobot × nilai ternormalisasi/prioritas lokal
+export type SensitivityModel = 'additive' | 'topsis' | 'wp';
+
+export const scoreWithWeights = (
+  model: SensitivityModel,
+  matrix: number[][],
+  weights: number[],
+  costs: boolean[] = []
+) => {
+  if (model === 'topsis') return topsisScores(matrix, weights, costs);
+  if (model === 'wp') return wpScores(matrix, weights, costs);
+  return matrix.map(row => row.reduce((sum, value, j) => sum + value * weights[j], 0));
+};
+
+// Ubah bobot satu kriteria; bobot lainnya diskalakan proporsional agar total tetap 1
+export const redistributeWeights = (weights: number[], index: number, value: number) => {
+  const target = Math.min(Math.max(value, 0), 1);
+  const others = weights.reduce((sum, weight, j) => (j === index ? sum : sum + weight), 0);
+
+  return weights.map((weight, j) => {
+    if (j === index) return target;
+    // Bila kriteria lain seluruhnya 0, sisa bobot dibagi rata
+    return others > 0 ? (weight / others) * (1 - target) : (1 - target) / (weights.length - 1);
+  });
+};
+
+// Pembanding dua indeks siswa yang skornya seri; negatif bila a diurutkan lebih dulu
+export type TieComparator = (a: number, b: number) => number;
+
+// Indeks siswa dari skor tertinggi; skor seri diurutkan dengan aturan seri sesi (default: indeks)
+export const rankOrder = (values: number[], compareTies: TieComparator = (a, b) => a - b) =>
+  values.map((_, i) => i).sort((a, b) => (isScoreTie(values[a], values[b]) ? compareTies(a, b) : values[b] - values[a]));
+
+export interface WeightThreshold {
+  weight: number;
+  delta: number;
+  // Posisi pertama dalam top-N yang berubah: siswa semula dan penggantinya
+  position: number;
+  from: number;
+  to: number;
+}
+
+export interface CriticalWeightChange {
+  index: number;
+  increase: WeightThreshold | null;
+  decrease: WeightThreshold | null;
+}
+
+const BISECTION_STEPS = 30;
+
+// Perubahan bobot minimum tiap kriteria (naik dan turun) yang mengubah urutan top-N:
+// penelusuran bertahap lalu dipersempit dengan bisection
+export const findCriticalWeightChanges = (
+  model: SensitivityModel,
+  matrix: number[][],
+  weights: number[],
+  costs: boolean[],
+  topN: number,
+  compareTies?: TieComparator,
+  step = 0.005
+): CriticalWeightChange[] => {
+  if (weights.length < 2 || matrix.length < 2) return [];
+
+  const n = Math.min(topN, matrix.length);
+  const baseTop = rankOrder(scoreWithWeights(model, matrix, weights, costs), compareTies).slice(0, n);
+  const topAt = (index: number, value: number) =>
+    rankOrder(scoreWithWeights(model, matrix, redistributeWeights(weights, index, value), costs), compareTies).slice(0, n);
+  const differs = (top: number[]) => top.some((id, k) => id !== baseTop[k]);
+
+  const search = (index: number, direction: 1 | -1): WeightThreshold | null => {
+    const current = weights[index];
+    let safe = current;
+
+    for (let value = current + direction * step; direction > 0 ? value <= 1 + 1e-9 : value >= -1e-9; value += direction * step) {
+      const candidate = Math.min(Math.max(value, 0), 1);
+      if (!differs(topAt(index, candidate))) {
+        safe = candidate;
+        continue;
+      }
+
+      let changed = candidate;
+      for (let i = 0; i < BISECTION_STEPS; i++) {
+        const middle = (safe + changed) / 2;
+        if (differs(topAt(index, middle))) {
+          changed = middle;
+        } else {
+          safe = middle;
+        }
+      }
+
+      const top = topAt(index, changed);
+      const position = top.findIndex((id, k) => id !== baseTop[k]);
+      return { weight: changed, delta: changed - current, position, from: baseTop[position], to: top[position] };
+    }
+
+    return null;
+  };
+
+  return weights.map((_, index) => ({
+    index,
+    increase: search(index, 1),
+    decrease: search(index, -1)
+  }));
+};
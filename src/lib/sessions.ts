@@ -0,0 +1,176 @@
+import { supabase } from '@/integrations/supabase/client';
+import type { Json, Tables } from '@/integrations/supabase/types';
+import type { TiePolicy } from '@/lib/scoring';
+import { ConsistencyResult, PairwiseJudgment, buildComparisonMatrix, calculatePriorities } from '@/lib/ahp';
+import { ROOT_NODE, TreeCriterion, getChildren, getComparisonNodes, getCriterionPath } from '@/lib/criteriaTree';
+
+export type CalculationSession = Tables<'calculation_sessions'>;
+
+export interface CriteriaSnapshot {
+  id: string;
+  name: string;
+  weight: number | null;
+  type?: string | null;
+  normalization?: string | null;
+  rubric?: unknown;
+  min_score?: number;
+  max_score?: number;
+}
+
+export interface ScoreSnapshot {
+  student_id: string;
+  criteria_id: string;
+  score: number;
+  // Nilai yang diisi oleh kebijakan nilai kosong, bukan input guru
+  imputed?: boolean;
+}
+
+export interface NodeCriterionSnapshot {
+  id: string;
+  name: string;
+  localWeight: number | null;
+  globalWeight: number | null;
+}
+
+// Matriks perbandingan satu node hierarki beserta bobot yang benar-benar dipakai sesi;
+// bobot lokal dapat berbeda dari prioritas matriks (agregasi AIP, Fuzzy AHP)
+export interface ComparisonNodeSnapshot extends ConsistencyResult {
+  id: string;
+  name: string;
+  weightMethod: string | null;
+  criteria: NodeCriterionSnapshot[];
+  matrix: number[][];
+}
+
+// Prioritas lokal setiap siswa per kriteria daun pada metode AHP
+export interface AlternativePrioritiesSnapshot {
+  [criteriaId: string]: {
+    priorities: {[studentId: string]: number};
+    cr: number;
+  };
+}
+
+export const toSnapshotJson = (
+  value: CriteriaSnapshot[] | ScoreSnapshot[] | TiePolicy | ComparisonNodeSnapshot[] | AlternativePrioritiesSnapshot
+) => value as unknown as Json;
+
+export const getCriteriaSnapshot = (session: CalculationSession) =>
+  (Array.isArray(session.criteria_snapshot) ? session.criteria_snapshot : []) as unknown as CriteriaSnapshot[];
+
+export const getScoresSnapshot = (session: CalculationSession) =>
+  (Array.isArray(session.scores_snapshot) ? session.scores_snapshot : []) as unknown as ScoreSnapshot[];
+
+// Sesi lama tidak menyimpan aturan seri (peringkat berupa nomor urut biasa)
+export const getTiePolicy = (session: CalculationSession) =>
+  (session.tie_policy && typeof session.tie_policy === 'object' ? session.tie_policy : null) as unknown as TiePolicy | null;
+
+// Sesi lama tidak menyimpan matriks perbandingan maupun prioritas lokal alternatif
+export const getWeightsSnapshot = (session: CalculationSession) =>
+  (Array.isArray(session.weights_snapshot) ? session.weights_snapshot : []) as unknown as ComparisonNodeSnapshot[];
+
+export const getAlternativePriorities = (session: CalculationSession) =>
+  (session.alternative_priorities && typeof session.alternative_priorities === 'object'
+    ? session.alternative_priorities
+    : null) as unknown as AlternativePrioritiesSnapshot | null;
+
+interface WeightedTreeCriterion extends TreeCriterion {
+  weight?: number | null;
+  weight_method?: string | null;
+}
+
+// Satu matriks per node perbandingan (akar dan setiap kriteria yang memiliki sub-kriteria)
+export const buildWeightsSnapshot = (
+  criteria: WeightedTreeCriterion[],
+  judgments: PairwiseJudgment[]
+): ComparisonNodeSnapshot[] =>
+  getComparisonNodes(criteria)
+    .map(node => ({ node, children: getChildren(criteria, node.id === ROOT_NODE ? null : node.id) }))
+    .filter(({ children }) => children.length > 0)
+    .map(({ node, children }) => {
+      const matrix = buildComparisonMatrix(children.map(c => c.id), judgments);
+      const { lambdaMax, ci, ri, cr } = calculatePriorities(matrix);
+
+      return {
+        id: node.id,
+        name: node.id === ROOT_NODE ? node.name : getCriterionPath(criteria, node.id),
+        weightMethod: children[0].weight_method ?? null,
+        criteria: children.map(child => ({
+          id: child.id,
+          name: child.name,
+          // Sub-kriteria tunggal otomatis berbobot lokal 1
+          localWeight: children.length === 1 ? 1 : child.local_weight ?? null,
+          globalWeight: child.weight ?? null
+        })),
+        matrix,
+        lambdaMax,
+        ci,
+        ri,
+        cr
+      };
+    });
+
+// Sesi resmi periode bila sudah ditetapkan, selain itu sesi terbaru periode tersebut
+export const fetchActiveSession = async (periodId: string) => {
+  const { data, error } = await supabase
+    .from('calculation_sessions')
+    .select('*')
+    .eq('period_id', periodId)
+    .order('is_official', { ascending: false })
+    .order('created_at', { ascending: false })
+    .limit(1)
+    .maybeSingle();
+
+  if (error) throw error;
+  return data;
+};
+
+export interface PeriodRank {
+  periodId: string;
+  rank: number;
+}
+
+// Peringkat siswa (dicocokkan lewat NIS) pada sesi resmi/terbaru setiap periode lain
+export const fetchRankHistory = async (excludePeriodId: string) => {
+  const { data: sessions, error: sessionsError } = await supabase
+    .from('calculation_sessions')
+    .select('id, period_id, is_official, created_at')
+    .neq('period_id', excludePeriodId)
+    .order('created_at', { ascending: false });
+
+  if (sessionsError) throw sessionsError;
+
+  const sessionByPeriod: {[periodId: string]: string} = {};
+  (sessions || []).forEach(session => {
+    const current = sessionByPeriod[session.period_id];
+    if (!current || session.is_official) {
+      sessionByPeriod[session.period_id] = session.id;
+    }
+  });
+
+  const history: {[nis: string]: PeriodRank[]} = {};
+  const sessionIds = Object.values(sessionByPeriod);
+  if (sessionIds.length === 0) return history;
+
+  const { data: results, error: resultsError } = await supabase
+    .from('ahp_results')
+    .select('rank, session_id, students (nis)')
+    .in('session_id', sessionIds);
+
+  if (resultsError) throw resultsError;
+
+  const periodBySession = Object.fromEntries(
+    Object.entries(sessionByPeriod).map(([periodId, sessionId]) => [sessionId, periodId])
+  );
+
+  (results || []).forEach(result => {
+    const student = result.students as { nis: string } | null;
+    if (!student || result.rank === null) return;
+
+    if (!history[student.nis]) {
+      history[student.nis] = [];
+    }
+    history[student.nis].push({ periodId: periodBySession[result.session_id], rank: result.rank });
+  });
+
+  return history;
+};
@@ -0,0 +1,33 @@
+import { describe, expect, it } from 'vitest';
+import { parseScoreInput, validateScoreInput } from '@/lib/studentScores';
+
+describe('parseScoreInput', () => {
+  it('menerima titik atau koma sebagai pemisah desimal', () => {
+    expect(parseScoreInput('85')).toBe(85);
+    expect(parseScoreInput(' 85,5 ')).toBe(85.5);
+    expect(parseScoreInput('85.5')).toBe(85.5);
+    expect(parseScoreInput(',5')).toBe(0.5);
+  });
+
+  it('menolak angka dengan lebih dari satu pemisah', () => {
+    expect(parseScoreInput('1.234,5')).toBeNaN();
+    expect(parseScoreInput('1,234,5')).toBeNaN();
+    expect(parseScoreInput('1.234.567')).toBeNaN();
+    expect(parseScoreInput('1e3')).toBeNaN();
+    expect(parseScoreInput('')).toBeNaN();
+  });
+});
+
+describe('validateScoreInput', () => {
+  const criterion = { min_score: 0, max_score: 100 };
+
+  it('isian kosong berarti nilai dihapus', () => {
+    expect(validateScoreInput('  ', criterion)).toBeNull();
+  });
+
+  it('memeriksa format dan rentang nilai', () => {
+    expect(validateScoreInput('90,5', criterion)).toBeNull();
+    expect(validateScoreInput('1.234,5', criterion)).not.toBeNull();
+    expect(validateScoreInput('101', criterion)).toBe('Nilai harus antara 0 dan 100');
+  });
+});
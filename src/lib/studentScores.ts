@@ -0,0 +1,55 @@
+import { supabase } from '@/integrations/supabase/client';
+
+export interface ScoreCell {
+  student_id: string;
+  criteria_id: string;
+  score: number;
+}
+
+interface ScoreRange {
+  min_score: number;
+  max_score: number;
+}
+
+// Nilai dari Excel berlokal Indonesia memakai koma desimal
+export const normalizeScoreInput = (value: string) => value.trim().replace(',', '.');
+
+// Hanya satu pemisah desimal (titik atau koma) yang diterima; bentuk dengan pemisah ribuan
+// seperti 1.234,5 atau 1,234,5 menjadi NaN agar tidak terbaca sebagai angka lain
+export const parseScoreInput = (value: string) => {
+  const trimmed = value.trim();
+  return /^[-+]?(\d+([.,]\d*)?|[.,]\d+)$/.test(trimmed) ? Number(trimmed.replace(',', '.')) : NaN;
+};
+
+// Pesan validasi nilai; null bila valid (isian kosong berarti nilai dihapus)
+export const validateScoreInput = (value: string, criterion: ScoreRange) => {
+  if (normalizeScoreInput(value) === '') return null;
+
+  const score = parseScoreInput(value);
+  if (isNaN(score)) return 'Nilai harus berupa angka dengan satu pemisah desimal, tanpa pemisah ribuan';
+  if (score < criterion.min_score || score > criterion.max_score) {
+    return `Nilai harus antara ${criterion.min_score} dan ${criterion.max_score}`;
+  }
+  return null;
+};
+
+// Jalur simpan bersama tabel Input Nilai dan form siswa: upsert sel yang berubah dan hapus sel
+// yang dikosongkan, nilai lain tidak disentuh
+export const saveScoreChanges = async (upserts: ScoreCell[], deletedIds: string[]) => {
+  if (upserts.length > 0) {
+    const { error } = await supabase
+      .from('student_scores')
+      .upsert(upserts, { onConflict: 'student_id,criteria_id' });
+
+    if (error) throw error;
+  }
+
+  if (deletedIds.length > 0) {
+    const { error } = await supabase
+      .from('student_scores')
+      .delete()
+      .in('id', deletedIds);
+
+    if (error) throw error;
+  }
+};
@@ -0,0 +1,51 @@
+import { createClient } from '@supabase/supabase-js';
+import { SUPABASE_PUBLISHABLE_KEY, SUPABASE_URL, supabase } from '@/integrations/supabase/client';
+import type { Database, Tables } from '@/integrations/supabase/types';
+import { Role } from '@/lib/permissions';
+
+export type Profile = Tables<'profiles'>;
+
+const PASSWORD_CHARS = 'ABCDEFGHJKLMNPQRSTUVWXYZabcdefghijkmnpqrstuvwxyz23456789';
+
+// Kata sandi sementara yang diberikan admin kepada pengguna baru
+export const generateTemporaryPassword = (length = 12) =>
+  Array.from(crypto.getRandomValues(new Uint32Array(length)))
+    .map(value => PASSWORD_CHARS[value % PASSWORD_CHARS.length])
+    .join('');
+
+// Klien terpisah tanpa penyimpanan sesi agar signUp pengguna baru tidak mengganti sesi admin
+const createSignupClient = () =>
+  createClient<Database>(SUPABASE_URL, SUPABASE_PUBLISHABLE_KEY, {
+    auth: { persistSession: false, autoRefreshToken: false, detectSessionInUrl: false }
+  });
+
+export const inviteUser = async (email: string, username: string, role: Role, password: string) => {
+  const { data, error } = await createSignupClient().auth.signUp({
+    email,
+    password,
+    options: { data: { username } }
+  });
+
+  if (error) throw error;
+
+  // Email yang sudah terdaftar dikembalikan tanpa identitas
+  if (!data.user || data.user.identities?.length === 0) {
+    throw new Error('Email sudah terdaftar');
+  }
+
+  const { error: profileError } = await supabase
+    .from('profiles')
+    .upsert({ id: data.user.id, email, username, role, is_active: true });
+
+  if (profileError) throw profileError;
+
+  return data.user;
+};
+
+export const sendPasswordReset = async (email: string) => {
+  const { error } = await supabase.auth.resetPasswordForEmail(email, {
+    redirectTo: window.location.origin
+  });
+
+  if (error) throw error;
+};
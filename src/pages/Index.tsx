@@ -5,6 +5,7 @@ import Dashboard from '../components/Dashboard';
 import { supabase } from '@/integrations/supabase/client';
 import { User } from '@supabase/supabase-js';
 import { toast } from '@/hooks/use-toast';
+import { DEFAULT_ROLE } from '@/lib/permissions';
 
 const Index = () => {
   const [user, setUser] = useState<User | null>(null);
@@ -57,7 +58,7 @@ const Index = () => {
       
       const { data, error } = await supabase
         .from('profiles')
-        .select('username, role')
+        .select('username, role, is_active')
         .eq('id', userId)
         .maybeSingle();
 
@@ -75,11 +76,22 @@ const Index = () => {
         return;
       }
 
+      if (data && !data.is_active) {
+        console.log('Profile is deactivated, signing out');
+        await supabase.auth.signOut();
+        toast({
+          title: "Akun Nonaktif",
+          description: "Akun Anda telah dinonaktifkan. Hubungi admin sekolah.",
+          variant: "destructive",
+        });
+        return;
+      }
+
       if (data) {
         console.log('Profile found:', data);
         setUserProfile({
           username: data.username || user?.email || 'User',
-          role: data.role || 'user'
+          role: data.role || DEFAULT_ROLE
         });
       } else {
         console.log('No profile data, creating new profile');
@@ -96,7 +108,9 @@ const Index = () => {
       const newProfile = {
         id: userId,
         username: user?.email || 'User',
-        role: 'user'
+        email: user?.email || null,
+        // Pengguna baru hanya dapat melihat; admin yang menaikkan perannya
+        role: DEFAULT_ROLE
       };
       
       console.log('Creating profile:', newProfile);
@@ -0,0 +1,40 @@
+-- Atribut kriteria: jenis (benefit/cost) dan rentang nilai yang valid
+alter table public.criteria
+  add column if not exists type text not null default 'benefit',
+  add column if not exists min_score numeric not null default 0,
+  add column if not exists max_score numeric not null default 100;
+
+alter table public.criteria
+  drop constraint if exists criteria_type_check,
+  drop constraint if exists criteria_score_range_check;
+
+alter table public.criteria
+  add constraint criteria_type_check check (type in ('benefit', 'cost')),
+  add constraint criteria_score_range_check check (min_score < max_score);
+
+-- Nama kriteria ganda diberi akhiran agar constraint unik dapat dipasang;
+-- baris tidak dihapus karena nilai siswa dan perbandingan merujuk ke kriteria tersebut
+with duplicates as (
+  select id, name, row_number() over (
+    partition by name order by coalesce(created_at, 'epoch'), id
+  ) as position
+  from public.criteria
+)
+update public.criteria c
+set name = d.name || ' (' || d.position || ')'
+from duplicates d
+where c.id = d.id
+  and d.position > 1;
+
+do $$
+begin
+  if not exists (
+    select 1 from pg_constraint
+    where conname = 'criteria_name_key'
+      and conrelid = 'public.criteria'::regclass
+  ) then
+    alter table public.criteria
+      add constraint criteria_name_key unique (name);
+  end if;
+end
+$$;
@@ -0,0 +1,23 @@
+-- Metode yang menghasilkan setiap baris hasil perhitungan
+alter table public.ahp_results
+  add column if not exists method text not null default 'saw';
+
+-- Perbandingan berpasangan antar siswa (alternatif) per kriteria untuk mode AHP manual
+create table if not exists public.alternative_comparison (
+  id uuid primary key default gen_random_uuid(),
+  criteria_id uuid references public.criteria(id) on delete cascade,
+  student1_id uuid references public.students(id) on delete cascade,
+  student2_id uuid references public.students(id) on delete cascade,
+  value numeric not null default 1,
+  created_at timestamptz default now(),
+  unique (criteria_id, student1_id, student2_id)
+);
+
+alter table public.alternative_comparison enable row level security;
+
+create policy "Authenticated users can manage alternative comparisons"
+  on public.alternative_comparison
+  for all
+  to authenticated
+  using (true)
+  with check (true);
@@ -0,0 +1,46 @@
+-- Setiap perhitungan disimpan sebagai sesi tersendiri beserta snapshot datanya
+create table if not exists public.calculation_sessions (
+  id uuid primary key default gen_random_uuid(),
+  name text not null,
+  created_at timestamptz not null default now(),
+  created_by uuid references auth.users(id) on delete set null,
+  created_by_name text,
+  method text not null default 'saw',
+  consistency_ratio numeric,
+  criteria_snapshot jsonb not null default '[]'::jsonb,
+  scores_snapshot jsonb not null default '[]'::jsonb,
+  is_official boolean not null default false
+);
+
+-- Hanya satu sesi yang dapat ditetapkan sebagai hasil resmi
+create unique index if not exists calculation_sessions_official_idx
+  on public.calculation_sessions (is_official)
+  where is_official;
+
+alter table public.calculation_sessions enable row level security;
+
+create policy "Authenticated users can manage calculation sessions"
+  on public.calculation_sessions
+  for all
+  to authenticated
+  using (true)
+  with check (true);
+
+alter table public.ahp_results
+  add column if not exists session_id uuid references public.calculation_sessions(id) on delete cascade;
+
+-- Hasil lama dipindahkan ke satu sesi warisan agar tidak hilang
+with legacy as (
+  insert into public.calculation_sessions (name, method, created_at)
+  select 'Perhitungan sebelumnya', coalesce(min(method), 'saw'), coalesce(min(calculation_date), now())
+  from public.ahp_results
+  where session_id is null
+  having count(*) > 0
+  returning id
+)
+update public.ahp_results
+set session_id = (select id from legacy)
+where session_id is null
+  and exists (select 1 from legacy);
+
+create index if not exists ahp_results_session_id_idx on public.ahp_results (session_id);
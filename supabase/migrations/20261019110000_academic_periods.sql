@@ -0,0 +1,66 @@
+-- Periode penilaian: tahun ajaran + semester (1 = Ganjil, 2 = Genap)
+create table if not exists public.academic_periods (
+  id uuid primary key default gen_random_uuid(),
+  academic_year text not null check (academic_year ~ '^\d{4}/\d{4}$'),
+  semester smallint not null check (semester in (1, 2)),
+  is_active boolean not null default false,
+  created_at timestamptz not null default now(),
+  unique (academic_year, semester)
+);
+
+-- Hanya satu periode aktif untuk sekolah
+create unique index if not exists academic_periods_active_idx
+  on public.academic_periods (is_active)
+  where is_active;
+
+alter table public.academic_periods enable row level security;
+
+create policy "Authenticated users can manage academic periods"
+  on public.academic_periods
+  for all
+  to authenticated
+  using (true)
+  with check (true);
+
+-- Periode awal untuk data yang sudah ada (tahun ajaran dimulai bulan Juli)
+insert into public.academic_periods (academic_year, semester, is_active)
+select
+  case when extract(month from now()) >= 7
+    then extract(year from now())::int || '/' || (extract(year from now())::int + 1)
+    else (extract(year from now())::int - 1) || '/' || extract(year from now())::int
+  end,
+  case when extract(month from now()) >= 7 then 1 else 2 end,
+  true
+where not exists (select 1 from public.academic_periods);
+
+-- Siswa dicatat per periode; nilai dan alternatif mengikuti baris siswa
+alter table public.students
+  add column if not exists period_id uuid references public.academic_periods(id) on delete cascade;
+
+update public.students
+set period_id = (select id from public.academic_periods where is_active)
+where period_id is null;
+
+alter table public.students
+  alter column period_id set not null;
+
+alter table public.students drop constraint if exists students_nis_key;
+alter table public.students
+  add constraint students_period_nis_key unique (period_id, nis);
+
+-- Sesi perhitungan (dan hasil di dalamnya) terikat pada satu periode
+alter table public.calculation_sessions
+  add column if not exists period_id uuid references public.academic_periods(id) on delete cascade;
+
+update public.calculation_sessions
+set period_id = (select id from public.academic_periods where is_active)
+where period_id is null;
+
+alter table public.calculation_sessions
+  alter column period_id set not null;
+
+-- Hasil resmi kini satu per periode
+drop index if exists public.calculation_sessions_official_idx;
+create unique index if not exists calculation_sessions_official_idx
+  on public.calculation_sessions (period_id)
+  where is_official;
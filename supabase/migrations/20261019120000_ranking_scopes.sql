@@ -0,0 +1,24 @@
+-- Peringkat per kelas dan per tingkat disimpan bersama peringkat sekolah (rank)
+alter table public.ahp_results
+  add column if not exists class_rank integer,
+  add column if not exists grade_rank integer;
+
+-- Isi peringkat cakupan untuk hasil yang sudah ada
+update public.ahp_results r
+set class_rank = ranked.class_rank,
+    grade_rank = ranked.grade_rank
+from (
+  select
+    r.id,
+    row_number() over (
+      partition by r.session_id, s.class
+      order by r.final_score desc
+    ) as class_rank,
+    row_number() over (
+      partition by r.session_id, coalesce(substring(trim(s.class) from '^\d+'), trim(s.class))
+      order by r.final_score desc
+    ) as grade_rank
+  from public.ahp_results r
+  join public.students s on s.id = r.student_id
+) ranked
+where ranked.id = r.id;
@@ -0,0 +1,9 @@
+-- Satu nilai per siswa per kriteria, agar nilai dapat di-upsert
+delete from public.student_scores a
+using public.student_scores b
+where a.student_id = b.student_id
+  and a.criteria_id = b.criteria_id
+  and (coalesce(a.created_at, 'epoch'), a.id) < (coalesce(b.created_at, 'epoch'), b.id);
+
+alter table public.student_scores
+  add constraint student_scores_student_criteria_key unique (student_id, criteria_id);
@@ -0,0 +1,196 @@
+-- Peran pengguna: admin, kepala_sekolah, wali_kelas, guru_penilai, viewer
+-- Harus sejalan dengan src/lib/permissions.ts
+
+-- Peran lama ('user' dan nilai tidak dikenal) menjadi viewer
+update public.profiles
+set role = 'viewer'
+where role is null
+   or role not in ('admin', 'kepala_sekolah', 'wali_kelas', 'guru_penilai', 'viewer');
+
+-- Pastikan selalu ada satu admin: profil tertua dinaikkan bila belum ada admin
+update public.profiles
+set role = 'admin'
+where id = (select id from public.profiles order by created_at nulls last limit 1)
+  and not exists (select 1 from public.profiles where role = 'admin');
+
+alter table public.profiles
+  alter column role set default 'viewer',
+  alter column role set not null,
+  add constraint profiles_role_check
+    check (role in ('admin', 'kepala_sekolah', 'wali_kelas', 'guru_penilai', 'viewer'));
+
+-- Peran pengguna yang sedang login; security definer agar tidak terkena RLS profiles
+create or replace function public.app_role()
+returns text
+language sql
+stable
+security definer
+set search_path = public
+as $$
+  select coalesce((select role from public.profiles where id = auth.uid()), 'viewer');
+$$;
+
+create or replace function public.has_role(variadic roles text[])
+returns boolean
+language sql
+stable
+security definer
+set search_path = public
+as $$
+  select public.app_role() = any(roles);
+$$;
+
+-- Ganti kebijakan lama "semua pengguna login boleh mengubah" dengan kebijakan per peran
+do $$
+declare
+  policy record;
+begin
+  for policy in
+    select policyname, tablename
+    from pg_policies
+    where schemaname = 'public'
+      and tablename in (
+        'academic_periods',
+        'ahp_results',
+        'alternative_comparison',
+        'calculation_sessions',
+        'criteria',
+        'criteria_comparison',
+        'profiles',
+        'student_scores',
+        'students'
+      )
+  loop
+    execute format('drop policy %I on public.%I', policy.policyname, policy.tablename);
+  end loop;
+end;
+$$;
+
+alter table public.academic_periods enable row level security;
+alter table public.ahp_results enable row level security;
+alter table public.alternative_comparison enable row level security;
+alter table public.calculation_sessions enable row level security;
+alter table public.criteria enable row level security;
+alter table public.criteria_comparison enable row level security;
+alter table public.profiles enable row level security;
+alter table public.student_scores enable row level security;
+alter table public.students enable row level security;
+
+-- Semua pengguna login dapat membaca data penilaian
+create policy "Authenticated users can read academic periods"
+  on public.academic_periods for select to authenticated using (true);
+create policy "Authenticated users can read ahp results"
+  on public.ahp_results for select to authenticated using (true);
+create policy "Authenticated users can read alternative comparisons"
+  on public.alternative_comparison for select to authenticated using (true);
+create policy "Authenticated users can read calculation sessions"
+  on public.calculation_sessions for select to authenticated using (true);
+create policy "Authenticated users can read criteria"
+  on public.criteria for select to authenticated using (true);
+create policy "Authenticated users can read criteria comparisons"
+  on public.criteria_comparison for select to authenticated using (true);
+create policy "Authenticated users can read student scores"
+  on public.student_scores for select to authenticated using (true);
+create policy "Authenticated users can read students"
+  on public.students for select to authenticated using (true);
+
+-- periods.manage
+create policy "Admins can insert academic periods"
+  on public.academic_periods for insert to authenticated
+  with check (public.has_role('admin'));
+create policy "Admins can update academic periods"
+  on public.academic_periods for update to authenticated
+  using (public.has_role('admin')) with check (public.has_role('admin'));
+create policy "Admins can delete academic periods"
+  on public.academic_periods for delete to authenticated
+  using (public.has_role('admin'));
+
+-- students.manage
+create policy "Student managers can insert students"
+  on public.students for insert to authenticated
+  with check (public.has_role('admin', 'wali_kelas'));
+create policy "Student managers can update students"
+  on public.students for update to authenticated
+  using (public.has_role('admin', 'wali_kelas')) with check (public.has_role('admin', 'wali_kelas'));
+create policy "Student managers can delete students"
+  on public.students for delete to authenticated
+  using (public.has_role('admin', 'wali_kelas'));
+
+-- scores.edit
+create policy "Scorers can insert student scores"
+  on public.student_scores for insert to authenticated
+  with check (public.has_role('admin', 'wali_kelas', 'guru_penilai'));
+create policy "Scorers can update student scores"
+  on public.student_scores for update to authenticated
+  using (public.has_role('admin', 'wali_kelas', 'guru_penilai'))
+  with check (public.has_role('admin', 'wali_kelas', 'guru_penilai'));
+create policy "Scorers can delete student scores"
+  on public.student_scores for delete to authenticated
+  using (public.has_role('admin', 'wali_kelas', 'guru_penilai'));
+
+create policy "Scorers can insert alternative comparisons"
+  on public.alternative_comparison for insert to authenticated
+  with check (public.has_role('admin', 'wali_kelas', 'guru_penilai'));
+create policy "Scorers can update alternative comparisons"
+  on public.alternative_comparison for update to authenticated
+  using (public.has_role('admin', 'wali_kelas', 'guru_penilai'))
+  with check (public.has_role('admin', 'wali_kelas', 'guru_penilai'));
+create policy "Scorers can delete alternative comparisons"
+  on public.alternative_comparison for delete to authenticated
+  using (public.has_role('admin', 'wali_kelas', 'guru_penilai'));
+
+-- criteria.manage
+create policy "Admins can insert criteria"
+  on public.criteria for insert to authenticated
+  with check (public.has_role('admin'));
+create policy "Admins can update criteria"
+  on public.criteria for update to authenticated
+  using (public.has_role('admin')) with check (public.has_role('admin'));
+create policy "Admins can delete criteria"
+  on public.criteria for delete to authenticated
+  using (public.has_role('admin'));
+
+create policy "Admins can insert criteria comparisons"
+  on public.criteria_comparison for insert to authenticated
+  with check (public.has_role('admin'));
+create policy "Admins can update criteria comparisons"
+  on public.criteria_comparison for update to authenticated
+  using (public.has_role('admin')) with check (public.has_role('admin'));
+create policy "Admins can delete criteria comparisons"
+  on public.criteria_comparison for delete to authenticated
+  using (public.has_role('admin'));
+
+-- calculation.run / calculation.approve
+create policy "Admins can insert calculation sessions"
+  on public.calculation_sessions for insert to authenticated
+  with check (public.has_role('admin'));
+create policy "Approvers can update calculation sessions"
+  on public.calculation_sessions for update to authenticated
+  using (public.has_role('admin', 'kepala_sekolah')) with check (public.has_role('admin', 'kepala_sekolah'));
+create policy "Admins can delete calculation sessions"
+  on public.calculation_sessions for delete to authenticated
+  using (public.has_role('admin'));
+
+create policy "Admins can insert ahp results"
+  on public.ahp_results for insert to authenticated
+  with check (public.has_role('admin'));
+create policy "Admins can update ahp results"
+  on public.ahp_results for update to authenticated
+  using (public.has_role('admin')) with check (public.has_role('admin'));
+create policy "Admins can delete ahp results"
+  on public.ahp_results for delete to authenticated
+  using (public.has_role('admin'));
+
+-- Profil: pengguna membaca profilnya sendiri, admin membaca dan mengubah semua
+create policy "Users can read own profile"
+  on public.profiles for select to authenticated
+  using (id = auth.uid() or public.has_role('admin'));
+create policy "Users can create own viewer profile"
+  on public.profiles for insert to authenticated
+  with check (id = auth.uid() and role = 'viewer');
+create policy "Admins can update profiles"
+  on public.profiles for update to authenticated
+  using (public.has_role('admin')) with check (public.has_role('admin'));
+create policy "Admins can delete profiles"
+  on public.profiles for delete to authenticated
+  using (public.has_role('admin'));
@@ -0,0 +1,26 @@
+-- Data profil untuk manajemen pengguna oleh admin
+alter table public.profiles
+  add column if not exists email text,
+  add column if not exists is_active boolean not null default true;
+
+update public.profiles p
+set email = u.email
+from auth.users u
+where u.id = p.id
+  and p.email is null;
+
+-- Pengguna nonaktif diperlakukan sebagai viewer sehingga tidak dapat mengubah data
+create or replace function public.app_role()
+returns text
+language sql
+stable
+security definer
+set search_path = public
+as $$
+  select coalesce((select role from public.profiles where id = auth.uid() and is_active), 'viewer');
+$$;
+
+-- Admin membuat profil untuk pengguna yang diundang
+create policy "Admins can insert profiles"
+  on public.profiles for insert to authenticated
+  with check (public.has_role('admin'));
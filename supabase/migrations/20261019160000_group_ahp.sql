@@ -0,0 +1,51 @@
+-- Penilaian berpasangan kriteria milik setiap anggota panitia
+create table if not exists public.evaluator_comparison (
+  id uuid primary key default gen_random_uuid(),
+  evaluator_id uuid not null references public.profiles(id) on delete cascade,
+  criteria1_id uuid not null references public.criteria(id) on delete cascade,
+  criteria2_id uuid not null references public.criteria(id) on delete cascade,
+  value numeric not null check (value > 0),
+  updated_at timestamptz not null default now(),
+  unique (evaluator_id, criteria1_id, criteria2_id)
+);
+
+-- Bobot suara penilai saat agregasi kelompok (default 1 = setara)
+create table if not exists public.evaluator_weights (
+  evaluator_id uuid primary key references public.profiles(id) on delete cascade,
+  weight numeric not null default 1 check (weight > 0)
+);
+
+-- Matriks bersama yang sudah ada menjadi penilaian admin pertama
+insert into public.evaluator_comparison (evaluator_id, criteria1_id, criteria2_id, value)
+select admin.id, c.criteria1_id, c.criteria2_id, c.value
+from public.criteria_comparison c
+cross join (
+  select id from public.profiles where role = 'admin' order by created_at nulls last limit 1
+) admin
+where c.criteria1_id is not null
+  and c.criteria2_id is not null
+on conflict (evaluator_id, criteria1_id, criteria2_id) do nothing;
+
+alter table public.evaluator_comparison enable row level security;
+alter table public.evaluator_weights enable row level security;
+
+-- Penilai hanya melihat dan mengubah penilaiannya sendiri; admin melihat semua untuk agregasi
+create policy "Evaluators can read own comparisons"
+  on public.evaluator_comparison for select to authenticated
+  using (evaluator_id = auth.uid() or public.has_role('admin'));
+create policy "Evaluators can insert own comparisons"
+  on public.evaluator_comparison for insert to authenticated
+  with check (evaluator_id = auth.uid() and public.has_role('admin', 'kepala_sekolah', 'wali_kelas', 'guru_penilai'));
+create policy "Evaluators can update own comparisons"
+  on public.evaluator_comparison for update to authenticated
+  using (evaluator_id = auth.uid() and public.has_role('admin', 'kepala_sekolah', 'wali_kelas', 'guru_penilai'))
+  with check (evaluator_id = auth.uid() and public.has_role('admin', 'kepala_sekolah', 'wali_kelas', 'guru_penilai'));
+create policy "Evaluators can delete own comparisons"
+  on public.evaluator_comparison for delete to authenticated
+  using (evaluator_id = auth.uid() and public.has_role('admin', 'kepala_sekolah', 'wali_kelas', 'guru_penilai'));
+
+create policy "Authenticated users can read evaluator weights"
+  on public.evaluator_weights for select to authenticated using (true);
+create policy "Admins can manage evaluator weights"
+  on public.evaluator_weights for all to authenticated
+  using (public.has_role('admin')) with check (public.has_role('admin'));
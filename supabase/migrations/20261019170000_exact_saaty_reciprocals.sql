@@ -0,0 +1,23 @@
+-- Kembalikan kebalikan skala Saaty yang tersimpan sebagai desimal dua digit (0.33, 0.14, 0.13, ...)
+-- menjadi nilai eksak 1/k. Hanya nilai yang tepat dua desimal dan dekat 1/k (k = 2..9) yang diubah,
+-- sehingga hasil agregasi kelompok di criteria_comparison tidak tersentuh.
+update public.criteria_comparison
+set value = 1.0 / round(1.0 / value::numeric)
+where value < 1
+  and value::numeric = round(value::numeric, 2)
+  and round(1.0 / value::numeric) between 2 and 9
+  and abs(value::numeric - 1.0 / round(1.0 / value::numeric)) < 0.006;
+
+update public.evaluator_comparison
+set value = 1.0 / round(1.0 / value::numeric)
+where value < 1
+  and value::numeric = round(value::numeric, 2)
+  and round(1.0 / value::numeric) between 2 and 9
+  and abs(value::numeric - 1.0 / round(1.0 / value::numeric)) < 0.006;
+
+update public.alternative_comparison
+set value = 1.0 / round(1.0 / value::numeric)
+where value < 1
+  and value::numeric = round(value::numeric, 2)
+  and round(1.0 / value::numeric) between 2 and 9
+  and abs(value::numeric - 1.0 / round(1.0 / value::numeric)) < 0.006;
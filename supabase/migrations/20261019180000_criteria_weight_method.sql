@@ -0,0 +1,15 @@
+-- Catat metode yang menghasilkan bobot kriteria (AHP kelompok atau Fuzzy AHP)
+alter table public.criteria
+  add column if not exists weight_method text;
+
+alter table public.criteria
+  drop constraint if exists criteria_weight_method_check;
+alter table public.criteria
+  add constraint criteria_weight_method_check
+  check (weight_method in ('ahp_aij', 'ahp_aip', 'fuzzy_chang', 'fuzzy_buckley'));
+
+-- Bobot yang sudah ada berasal dari matriks perbandingan AHP
+update public.criteria
+set weight_method = 'ahp_aij'
+where weight is not null
+  and weight_method is null;
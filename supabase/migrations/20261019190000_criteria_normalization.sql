@@ -0,0 +1,16 @@
+-- Strategi normalisasi nilai per kriteria; rubrik berupa [{ "min": 90, "value": 1 }, ...]
+alter table public.criteria
+  add column if not exists normalization text not null default 'max',
+  add column if not exists rubric jsonb;
+
+alter table public.criteria
+  drop constraint if exists criteria_normalization_check;
+alter table public.criteria
+  add constraint criteria_normalization_check
+  check (normalization in ('max', 'min-max', 'vector', 'fixed', 'rubric'));
+
+alter table public.criteria
+  drop constraint if exists criteria_rubric_check;
+alter table public.criteria
+  add constraint criteria_rubric_check
+  check (normalization <> 'rubric' or jsonb_typeof(rubric) = 'array');
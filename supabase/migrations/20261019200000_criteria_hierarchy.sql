@@ -0,0 +1,18 @@
+-- Hierarki kriteria: sub-kriteria menunjuk induknya; bobot lokal relatif terhadap saudara se-induk,
+-- sedangkan criteria.weight tetap menyimpan bobot global (hasil kali bobot lokal dari akar)
+alter table public.criteria
+  add column if not exists parent_id uuid references public.criteria(id) on delete cascade,
+  add column if not exists local_weight numeric;
+
+alter table public.criteria
+  drop constraint if exists criteria_parent_not_self;
+alter table public.criteria
+  add constraint criteria_parent_not_self check (parent_id is null or parent_id <> id);
+
+create index if not exists criteria_parent_id_idx on public.criteria (parent_id);
+
+-- Kriteria yang sudah ada berada di tingkat utama, sehingga bobot lokal sama dengan bobot global
+update public.criteria
+set local_weight = weight
+where parent_id is null
+  and local_weight is null;
@@ -0,0 +1,13 @@
+-- Aturan nilai seri: konfigurasi disimpan per sesi, aturan yang benar-benar diterapkan per hasil
+alter table public.calculation_sessions
+  add column if not exists tie_policy jsonb;
+
+-- null = tidak seri, 'shared' = peringkat bersama, 'criterion:<id>' = dipisahkan oleh kriteria prioritas
+alter table public.ahp_results
+  add column if not exists tie_break text;
+
+alter table public.ahp_results
+  drop constraint if exists ahp_results_tie_break_check;
+alter table public.ahp_results
+  add constraint ahp_results_tie_break_check
+  check (tie_break is null or tie_break = 'shared' or tie_break like 'criterion:%');
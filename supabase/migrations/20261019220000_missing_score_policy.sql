@@ -0,0 +1,9 @@
+-- Kebijakan nilai kosong yang dipakai sesi perhitungan; sesi lama (null) menganggap nilai kosong bernilai 0
+alter table public.calculation_sessions
+  add column if not exists missing_score_policy text;
+
+alter table public.calculation_sessions
+  drop constraint if exists calculation_sessions_missing_score_policy_check;
+alter table public.calculation_sessions
+  add constraint calculation_sessions_missing_score_policy_check
+  check (missing_score_policy is null or missing_score_policy in ('exclude', 'class-mean', 'criterion-mean', 'zero'));
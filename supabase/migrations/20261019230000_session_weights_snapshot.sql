@@ -0,0 +1,6 @@
+-- Matriks perbandingan dan bobot setiap node kriteria yang dipakai sesi, beserta prioritas lokal
+-- alternatif (metode AHP), agar laporan sesi tidak bergantung pada tabel perbandingan saat ini.
+-- Sesi lama (null) tidak memiliki data ini.
+alter table public.calculation_sessions
+  add column if not exists weights_snapshot jsonb,
+  add column if not exists alternative_priorities jsonb;
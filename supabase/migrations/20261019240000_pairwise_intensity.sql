@@ -0,0 +1,80 @@
+-- Penilaian berpasangan disimpan sebagai intensitas (>= 1) dan arah, bukan desimal:
+-- reciprocal = true berarti kriteria/siswa pertama kalah penting, a_ij = 1 / intensity.
+-- Nilai float a_ij hanya dibentuk saat perhitungan sehingga kebalikan 1/k tetap eksak.
+alter table public.evaluator_comparison
+  add column if not exists intensity smallint not null default 1,
+  add column if not exists reciprocal boolean not null default false;
+
+alter table public.alternative_comparison
+  add column if not exists intensity smallint not null default 1,
+  add column if not exists reciprocal boolean not null default false;
+
+-- Matriks bersama dapat berisi hasil agregasi kelompok (rata-rata geometrik), sehingga
+-- intensitasnya tidak selalu bilangan bulat
+alter table public.criteria_comparison
+  add column if not exists intensity numeric not null default 1,
+  add column if not exists reciprocal boolean not null default false;
+
+-- Konversi kolom value lama; dilewati bila kolom tersebut sudah dihapus
+do $$
+begin
+  if exists (
+    select 1 from information_schema.columns
+    where table_schema = 'public' and table_name = 'evaluator_comparison' and column_name = 'value'
+  ) then
+    update public.evaluator_comparison
+    set intensity = least(greatest(round(case when value >= 1 then value else 1.0 / value end), 1), 9),
+        reciprocal = value < 1;
+    alter table public.evaluator_comparison drop column value;
+  end if;
+
+  if exists (
+    select 1 from information_schema.columns
+    where table_schema = 'public' and table_name = 'alternative_comparison' and column_name = 'value'
+  ) then
+    update public.alternative_comparison
+    set intensity = least(greatest(round(case when value >= 1 then value else 1.0 / value end), 1), 9),
+        reciprocal = value < 1;
+    alter table public.alternative_comparison drop column value;
+  end if;
+
+  if exists (
+    select 1 from information_schema.columns
+    where table_schema = 'public' and table_name = 'criteria_comparison' and column_name = 'value'
+  ) then
+    -- Kebalikan skala Saaty (mis. 0.333...) kembali menjadi intensitas bulat
+    update public.criteria_comparison
+    set intensity = case
+          when abs(magnitude - round(magnitude)) < 0.000001 then round(magnitude)
+          else magnitude
+        end,
+        reciprocal = criteria_comparison.value < 1
+    from (
+      select id as comparison_id,
+        case when value >= 1 then value::numeric else 1.0 / value::numeric end as magnitude
+      from public.criteria_comparison
+    ) as magnitudes
+    where criteria_comparison.id = magnitudes.comparison_id;
+    alter table public.criteria_comparison drop column value;
+  end if;
+end
+$$;
+
+-- Penilaian individu wajib menyebut intensitas secara eksplisit
+alter table public.evaluator_comparison
+  alter column intensity drop default;
+
+alter table public.evaluator_comparison
+  drop constraint if exists evaluator_comparison_intensity_check;
+alter table public.evaluator_comparison
+  add constraint evaluator_comparison_intensity_check check (intensity between 1 and 9);
+
+alter table public.alternative_comparison
+  drop constraint if exists alternative_comparison_intensity_check;
+alter table public.alternative_comparison
+  add constraint alternative_comparison_intensity_check check (intensity between 1 and 9);
+
+alter table public.criteria_comparison
+  drop constraint if exists criteria_comparison_intensity_check;
+alter table public.criteria_comparison
+  add constraint criteria_comparison_intensity_check check (intensity >= 1);
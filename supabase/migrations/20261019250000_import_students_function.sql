@@ -0,0 +1,46 @@
+-- Impor siswa dan nilai dalam satu transaksi: bila satu baris gagal, tidak ada yang tersimpan.
+-- Berjalan sebagai pemanggil (security invoker) sehingga kebijakan RLS per peran tetap berlaku.
+-- p_rows: [{ "name", "nis", "class", "scores": { "<criteria_id>": <nilai> } }]
+create or replace function public.import_students(p_period_id uuid, p_rows jsonb)
+returns jsonb
+language plpgsql
+set search_path = public
+as $$
+declare
+  row_data jsonb;
+  score_entry record;
+  v_student_id uuid;
+  v_inserted boolean;
+  inserted_count integer := 0;
+  updated_count integer := 0;
+  score_count integer := 0;
+begin
+  for row_data in select value from jsonb_array_elements(p_rows) loop
+    insert into public.students (name, nis, class, period_id)
+    values (row_data->>'name', row_data->>'nis', row_data->>'class', p_period_id)
+    on conflict on constraint students_period_nis_key do update
+      set name = excluded.name,
+          class = excluded.class
+    returning id, (xmax = 0) into v_student_id, v_inserted;
+
+    if v_inserted then
+      inserted_count := inserted_count + 1;
+    else
+      updated_count := updated_count + 1;
+    end if;
+
+    for score_entry in
+      select key, value from jsonb_each_text(coalesce(row_data->'scores', '{}'::jsonb))
+    loop
+      insert into public.student_scores (student_id, criteria_id, score)
+      values (v_student_id, score_entry.key::uuid, score_entry.value::numeric)
+      on conflict on constraint student_scores_student_criteria_key do update
+        set score = excluded.score;
+
+      score_count := score_count + 1;
+    end loop;
+  end loop;
+
+  return jsonb_build_object('inserted', inserted_count, 'updated', updated_count, 'scores', score_count);
+end;
+$$;
@@ -0,0 +1,44 @@
+-- Penilaian berpasangan disimpan dengan id terkecil lebih dulu. Sebelumnya urutan mengikuti
+-- urutan nama di layar, sehingga mengganti nama dapat menyimpan baris cermin (b, a) di samping (a, b).
+
+-- Pasangan dengan dirinya sendiri tidak bermakna
+delete from public.evaluator_comparison where criteria1_id = criteria2_id;
+delete from public.alternative_comparison where student1_id = student2_id;
+
+-- Dari dua baris cermin, yang paling baru disimpan dipertahankan
+delete from public.evaluator_comparison stale
+using public.evaluator_comparison newer
+where stale.evaluator_id = newer.evaluator_id
+  and stale.criteria1_id = newer.criteria2_id
+  and stale.criteria2_id = newer.criteria1_id
+  and (stale.updated_at, stale.id) < (newer.updated_at, newer.id);
+
+delete from public.alternative_comparison stale
+using public.alternative_comparison newer
+where stale.criteria_id is not distinct from newer.criteria_id
+  and stale.student1_id = newer.student2_id
+  and stale.student2_id = newer.student1_id
+  and (coalesce(stale.created_at, 'epoch'), stale.id) < (coalesce(newer.created_at, 'epoch'), newer.id);
+
+-- Tukar urutan pasangan dan balik arahnya (intensitas 1 tetap tanpa arah)
+update public.evaluator_comparison
+set criteria1_id = criteria2_id,
+    criteria2_id = criteria1_id,
+    reciprocal = not reciprocal and intensity <> 1
+where criteria1_id > criteria2_id;
+
+update public.alternative_comparison
+set student1_id = student2_id,
+    student2_id = student1_id,
+    reciprocal = not reciprocal and intensity <> 1
+where student1_id > student2_id;
+
+alter table public.evaluator_comparison
+  drop constraint if exists evaluator_comparison_pair_order_check;
+alter table public.evaluator_comparison
+  add constraint evaluator_comparison_pair_order_check check (criteria1_id < criteria2_id);
+
+alter table public.alternative_comparison
+  drop constraint if exists alternative_comparison_pair_order_check;
+alter table public.alternative_comparison
+  add constraint alternative_comparison_pair_order_check check (student1_id < student2_id);